@@ -1,27 +1,127 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Plus, ChevronLeft, ChevronRight, PieChart, LayoutDashboard, CalendarRange, List, Loader2, WifiOff, DownloadCloud, RefreshCw, CheckCircle2 } from 'lucide-react';
-import { Bill, MonthlyStats, BillFrequency } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Plus, ChevronLeft, ChevronRight, PieChart, LayoutDashboard, CalendarRange, List, Loader2, WifiOff, DownloadCloud, RefreshCw, CheckCircle2, UploadCloud, Cloud, HardDrive, LogOut, Users, Settings, FileUp, CalendarDays, AlertTriangle, Wallet, Search } from 'lucide-react';
+import { Bill, MonthlyStats, BillSeries, Category, Household, SeriesEnd } from './types';
 import { GlassCard } from './components/ui/GlassCard';
 import { BillItem } from './components/BillItem';
 import { EditModal } from './components/EditModal';
 import { YearlySummary } from './components/YearlySummary';
-import { formatCurrency, getMonthYearLabel } from './utils';
-import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { AuthScreen } from './components/AuthScreen';
+import { HouseholdModal } from './components/HouseholdModal';
+import { SettingsModal } from './components/SettingsModal';
+import { InstallmentPlans } from './components/InstallmentPlans';
+import { ImportModal } from './components/ImportModal';
+import { BackupModal } from './components/BackupModal';
+import { ExportModal } from './components/ExportModal';
+import { CalendarModal } from './components/CalendarModal';
+import { CurrencyModal } from './components/CurrencyModal';
+import { CategoriesModal } from './components/CategoriesModal';
+import { BudgetProgress } from './components/BudgetProgress';
+import { ForecastView } from './components/ForecastView';
+import { SearchModal } from './components/SearchModal';
+import { BatchActionBar } from './components/BatchActionBar';
+import { downloadFile, formatCurrency, getMonthYearLabel } from './utils';
+import { isSupabaseConfigured } from './supabaseClient';
+import {
+  BillChanges,
+  billRepository,
+  attachmentStore,
+  discardAttachments,
+  householdRepository,
+  canEditBills,
+  getActiveHouseholdId,
+  setActiveHouseholdId,
+  setStorageBackend,
+  isEcho
+} from './repositories';
+import { mergeBillChange } from './realtime';
+import { extendSeries, getHorizonDate, installmentAt, markMaterialized, normalizeSeries, planSeriesExtension, seriesFromBill } from './recurrence';
+import { getOpenInstallmentPlans } from './installments';
+import { getBudgetStatuses } from './budgets';
+import { findRecentIncrease, getPriceChanges } from './priceChanges';
+import { ForecastSettings, buildForecast } from './forecast';
+import { getPaidAmount, togglePaymentChanges } from './payments';
+import { getOverdueBills, getOverdueTotal } from './overdue';
+import { getIncomes, getOutgoings, isIncome } from './income';
+import { BatchAction, describeBatchAction, isEmptyBatch, planBatch } from './batchActions';
+import { ExchangeRateTable, getBillCurrency, getMissingRates, toBaseAmount } from './currency';
+import { ImportPlan } from './csvImport';
+import { CsvExportOptions, buildCsvExport } from './csvExport';
+import { BackupFile, RestorePlan, createBackup, readBackupAttachments, restoreAttachments } from './backup';
+import { getDroppedAttachments } from './attachments';
+import { CalendarOptions, buildCalendar } from './ical';
+import { publishCalendarFeed } from './calendarFeed';
+import { planReminders } from './reminders';
+import { requestReminderPermission, syncReminders } from './notifications';
+import { AppSettings, loadSettings, saveSettings } from './settings';
+import { Session, getSession, onSessionChange, signOut } from './auth';
+import { Locale, getIntlLocale, getLocale, setLocale, t } from './i18n';
+import { DEFAULT_CATEGORIES, findCategory, getCategoryLabel, withCategoryKey } from './categories';
+import {
+  Mutation,
+  applyCategoryMutations,
+  applyMutations,
+  applySeriesMutations,
+  createTempId,
+  enqueueMutations,
+  isNetworkError,
+  isRetryableError,
+  loadOutbox,
+  remapBillIds,
+  remapTempIds,
+  replayMutation,
+  saveOutbox
+} from './offlineQueue';
 
-type ViewMode = 'month' | 'year';
+type ViewMode = 'month' | 'year' | 'forecast';
 const CACHE_KEY = 'liquid_bills_local_cache';
+const SERIES_CACHE_KEY = 'liquid_bills_series_cache';
+const CATEGORIES_CACHE_KEY = 'liquid_bills_categories_cache';
+// Cloud storage is per account, the device-only backends need no sign-in
+const requiresAuth = billRepository.backend === 'supabase';
+const RESUBSCRIBE_DELAY_MS = 5000;
+const FEED_PUBLISH_DELAY_MS = 3000; // Batches quick edits into one calendar feed upload
 
 const App: React.FC = () => {
   const [bills, setBills] = useState<Bill[]>([]);
+  const [seriesRules, setSeriesRules] = useState<BillSeries[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true); // Initial load (first time ever)
   const [isSyncing, setIsSyncing] = useState(false); // Background sync
   const [syncSuccess, setSyncSuccess] = useState(false); // Persistent success state
   const [error, setError] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState(() => loadOutbox().length); // Mutations waiting in the outbox
+  const flushingRef = useRef(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(!requiresAuth);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  // Households only exist in cloud storage, a selection left over from it doesn't apply on the device
+  const [activeHouseholdId, setActiveHousehold] = useState<string | null>(() => householdRepository ? getActiveHouseholdId() : null);
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({}); // userId -> e-mail, for "paid by"
+  const [isHouseholdModalOpen, setIsHouseholdModalOpen] = useState(false);
+  const [realtimeEpoch, setRealtimeEpoch] = useState(0); // Bumped to force a fresh live-updates subscription
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isCurrencyOpen, setIsCurrencyOpen] = useState(false);
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const canEditRef = useRef(false); // Read from async callbacks that may outlive the render
+  const activeHouseholdIdRef = useRef<string | null>(null);
+  const extendedScopesRef = useRef(new Set<string>()); // Scopes whose series were extended this run
+  const loadedScopeRef = useRef<string | null>(null); // Scope the bills, series and categories in state were fetched for
   
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<ViewMode>('month');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null); // Null outside selection mode
+
+  // Until a scope has stored categories (first run, viewers of an unseeded household) the defaults stand in
+  const categoryList = categories.length > 0 ? categories : DEFAULT_CATEGORIES;
 
   // --- Data Loading Logic ---
 
@@ -30,7 +130,9 @@ const App: React.FC = () => {
     if (cached) {
         try {
             const parsed = JSON.parse(cached);
-            setBills(parsed);
+            setBills(parsed.map(withCategoryKey));
+            setSeriesRules(JSON.parse(localStorage.getItem(SERIES_CACHE_KEY) || '[]').map(normalizeSeries));
+            setCategories(JSON.parse(localStorage.getItem(CATEGORIES_CACHE_KEY) || '[]'));
             setLoading(false); // Content available, stop blocking loader
             return true;
         } catch (e) {
@@ -50,37 +152,34 @@ const App: React.FC = () => {
       // Note: We don't reset syncSuccess here immediately to avoid icon flickering 
       // if the user hits refresh manually. We update it at the end.
 
-      if (!isSupabaseConfigured) {
+      if (billRepository.backend === 'supabase' && !isSupabaseConfigured) {
         throw new Error("MISSING_CONFIG");
       }
 
-      const { data, error } = await supabase
-        .from('bills')
-        .select('*')
-        .order('due_date', { ascending: true });
+      const [formattedBills, rules, storedCategories] = await Promise.all([
+        billRepository.list(),
+        billRepository.listSeriesRules(),
+        billRepository.listCategories()
+      ]);
 
-      if (error) throw error;
-      
-      const formattedBills: Bill[] = (data || []).map((item: any) => ({
-        id: item.id,
-        name: item.name,
-        amount: item.amount,
-        dueDate: item.due_date,
-        isPaid: item.is_paid,
-        isRecurring: item.is_recurring,
-        frequency: item.frequency,
-        category: item.category,
-        seriesId: item.series_id
-      }));
+      // Re-apply changes that haven't reached the server yet, so they don't flicker away
+      const pending = loadOutbox();
+      const freshBills = applyMutations(formattedBills, pending);
+      const freshRules = applySeriesMutations(rules.map(normalizeSeries), pending);
+      setSeriesRules(freshRules);
+      localStorage.setItem(SERIES_CACHE_KEY, JSON.stringify(freshRules));
+      const freshCategories = applyCategoryMutations(storedCategories, pending);
+      setCategories(freshCategories);
+      localStorage.setItem(CATEGORIES_CACHE_KEY, JSON.stringify(freshCategories));
 
       // INTELLIGENT UPDATE:
       // Compare new data with what we currently have in localStorage (source of truth for current view).
       // If strings match, data is identical. DO NOT call setBills to avoid React re-render/flash.
       const currentCache = localStorage.getItem(CACHE_KEY);
-      const newCache = JSON.stringify(formattedBills);
+      const newCache = JSON.stringify(freshBills);
 
       if (currentCache !== newCache) {
-          setBills(formattedBills);
+          setBills(freshBills);
           localStorage.setItem(CACHE_KEY, newCache);
       } else {
           console.log("Data is up to date, skipping render update.");
@@ -89,19 +188,22 @@ const App: React.FC = () => {
       // Mark sync as successful permanently (until next error or sync start)
       setSyncSuccess(true);
 
+      loadedScopeRef.current = activeHouseholdIdRef.current || 'personal';
+      maintainScope(freshBills, freshRules, freshCategories);
+
     } catch (err: any) {
       console.error('Error fetching bills:', err);
       setSyncSuccess(false); // Clear success icon on error
       
       if (err.message === "MISSING_CONFIG") {
-          setError("Brak konfiguracji bazy danych.");
-      } else if (err.message && (err.message.includes('fetch') || err.message.includes('network'))) {
+          setError(t('app.error.missingConfig'));
+      } else if (isNetworkError(err)) {
           // If network fails but we have cache, don't show full screen error, just a toast/log
           if (bills.length === 0) {
-             setError("Problem z połączeniem internetowym.");
+             setError(t('app.error.network'));
           }
       } else {
-          setError("Nie udało się pobrać danych.");
+          setError(t('app.error.fetch'));
       }
     } finally {
       setLoading(false);
@@ -110,13 +212,129 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
+    if (!requiresAuth) return;
+
+    // Restores the persisted session (survives app restarts) and follows sign-in / sign-out
+    getSession()
+      .then(setSession)
+      .catch(err => console.error("Error restoring session:", err))
+      .finally(() => setAuthReady(true));
+
+    return onSessionChange(setSession);
+  }, []);
+
+  // Keeps the subscribable calendar in step with the bills shown in the app
+  useEffect(() => {
+    if (!settings.calendarFeedEnabled || !requiresAuth || !session || loading) return;
+    const timer = setTimeout(() => {
+      publishCalendarFeed(buildCalendar(bills, seriesRules, categoryList, settings.calendar))
+        .catch(err => console.error("Calendar feed publish error:", err));
+    }, FEED_PUBLISH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [bills, seriesRules, categoryList, settings.calendar, settings.calendarFeedEnabled, session, loading, locale]);
+
+  // Rescheduled on every change, so paid and deleted bills drop their reminders
+  useEffect(() => {
+    if (loading) return;
+    syncReminders(planReminders(bills, settings.reminders))
+      .catch(err => console.error("Reminder scheduling error:", err));
+  }, [bills, settings.reminders, loading, locale]);
+
+  const userId = session?.user.id;
+  const activeHousehold = households.find(h => h.id === activeHouseholdId) || null;
+  // Until the household list is loaded the role is unknown, so nothing is edited or generated on the user's behalf
+  const canEdit = canEditBills(activeHouseholdId, activeHousehold);
+  canEditRef.current = canEdit;
+  activeHouseholdIdRef.current = activeHouseholdId;
+
+  const loadHouseholds = async () => {
+    if (!householdRepository || !userId) return;
+    try {
+      const list = await householdRepository.listHouseholds();
+      setHouseholds(list);
+
+      // Removed from the selected household in the meantime - fall back to personal bills
+      const storedHouseholdId = getActiveHouseholdId();
+      if (storedHouseholdId && !list.some(h => h.id === storedHouseholdId)) {
+        setActiveHouseholdId(null);
+        setActiveHousehold(null);
+        localStorage.removeItem(CACHE_KEY);
+        localStorage.removeItem(SERIES_CACHE_KEY);
+        localStorage.removeItem(CATEGORIES_CACHE_KEY);
+        setBills([]);
+        setSeriesRules([]);
+        setCategories([]);
+        fetchBills();
+      }
+    } catch (err) {
+      console.error("Error loading households:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadHouseholds();
+  }, [userId]);
+
+  useEffect(() => {
+    if (!householdRepository || !activeHouseholdId || !userId) {
+      setMemberEmails({});
+      return;
+    }
+    householdRepository.listMembers(activeHouseholdId)
+      .then(members => setMemberEmails(Object.fromEntries(members.map(m => [m.userId, m.email]))))
+      .catch(err => console.error("Error loading members:", err));
+  }, [activeHouseholdId, userId]);
+
+  useEffect(() => {
+    if (requiresAuth && !userId) return;
+
     // 1. Try to load from cache immediately
     const hasCache = loadFromCache();
     
-    // 2. Fetch fresh data (background if cache exists, foreground if not)
-    fetchBills(hasCache);
+    // 2. Send anything queued while offline, then fetch fresh data
+    //    (background if cache exists, foreground if not)
+    flushOutbox().finally(() => fetchBills(hasCache));
+  }, [userId]);
+
+  useEffect(() => {
+    // Replay the outbox and reconnect live updates as soon as connectivity comes back
+    const handleOnline = () => {
+      flushOutbox();
+      setRealtimeEpoch(e => e + 1);
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
   }, []);
 
+  // --- Live Updates ---
+
+  useEffect(() => {
+    if (requiresAuth && !userId) return;
+
+    let retryTimer: number | undefined;
+    const unsubscribe = billRepository.subscribe(change => {
+      if (isEcho(change)) return;
+      setBills(prev => {
+        const merged = mergeBillChange(prev, change, loadOutbox());
+        localStorage.setItem(CACHE_KEY, JSON.stringify(merged));
+        return merged;
+      });
+    }, status => {
+      if (status === 'error') {
+        // Connection dropped - try again shortly
+        retryTimer = window.setTimeout(() => setRealtimeEpoch(e => e + 1), RESUBSCRIBE_DELAY_MS);
+      } else if (realtimeEpoch > 0) {
+        // Changes made while we were disconnected were not delivered, catch up once
+        flushOutbox().finally(() => fetchBills(true));
+      }
+    });
+
+    return () => {
+      window.clearTimeout(retryTimer);
+      unsubscribe();
+    };
+  }, [userId, activeHouseholdId, realtimeEpoch]);
+
   // Filter bills for the currently selected month and year
   const filteredBills = useMemo(() => {
     return bills.filter(bill => {
@@ -127,27 +345,67 @@ const App: React.FC = () => {
       );
     }).sort((a, b) => {
         // 1. Primary Sort: Category (Alphabetical)
-        const categoryCompare = a.category.localeCompare(b.category);
+        const categoryCompare = getCategoryLabel(categoryList, a.category).localeCompare(getCategoryLabel(categoryList, b.category), getIntlLocale());
         if (categoryCompare !== 0) {
             return categoryCompare;
         }
         // 2. Secondary Sort: Due Date (Ascending)
         return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
     });
-  }, [bills, currentDate]);
+  }, [bills, currentDate, categoryList, locale]);
+
+  const monthBills = useMemo(() => getOutgoings(filteredBills), [filteredBills]);
+  const monthIncomes = useMemo(() => getIncomes(filteredBills), [filteredBills]);
+  // The income cards only show up once income is tracked at all
+  const tracksIncome = useMemo(() => bills.some(isIncome), [bills]);
 
   // Calculate statistics
+  const { baseCurrency, exchangeRates } = settings;
   const stats: MonthlyStats = useMemo(() => {
     return filteredBills.reduce((acc, bill) => {
-      acc.total += bill.amount;
-      if (bill.isPaid) {
-        acc.paid += bill.amount;
-      } else {
-        acc.pending += bill.amount;
+      // Partial payments count towards both sides, overpayments don't inflate the paid total
+      const amount = toBaseAmount(bill, bill.amount, baseCurrency, exchangeRates);
+      const paid = toBaseAmount(bill, Math.min(bill.amount, getPaidAmount(bill)), baseCurrency, exchangeRates);
+      if (isIncome(bill)) {
+        acc.income += amount;
+        acc.incomeReceived += paid;
+        return acc;
       }
+      acc.total += amount;
+      acc.paid += paid;
+      acc.pending += amount - paid;
       return acc;
-    }, { total: 0, paid: 0, pending: 0 });
-  }, [filteredBills]);
+    }, { total: 0, paid: 0, pending: 0, income: 0, incomeReceived: 0 });
+  }, [filteredBills, baseCurrency, exchangeRates]);
+
+  // Currencies counted 1:1 because their rate is unknown
+  const missingRates = useMemo(() => getMissingRates(bills, baseCurrency, exchangeRates), [bills, baseCurrency, exchangeRates]);
+
+  const installmentPlans = useMemo(() => getOpenInstallmentPlans(seriesRules, bills), [seriesRules, bills]);
+
+  const priceChanges = useMemo(() => getPriceChanges(bills), [bills]);
+
+  const budgetStatuses = useMemo(
+    () => getBudgetStatuses(bills, categoryList, currentDate, baseCurrency, exchangeRates),
+    [bills, categoryList, currentDate, baseCurrency, exchangeRates]
+  );
+
+  // Only built while the view is open, projecting every series is not free
+  const forecastDays = useMemo(
+    () => viewMode === 'forecast' ? buildForecast(bills, seriesRules, settings.forecast, baseCurrency, exchangeRates) : [],
+    [viewMode, bills, seriesRules, settings.forecast, baseCurrency, exchangeRates]
+  );
+
+  const overdueBills = useMemo(() => getOverdueBills(bills), [bills]);
+  const overdueTotal = useMemo(() => getOverdueTotal(bills, baseCurrency, exchangeRates), [bills, baseCurrency, exchangeRates]);
+
+  // Unpaid bills from earlier months would otherwise disappear from view once the month changes
+  const carriedOverBills = useMemo(() => {
+    const today = new Date();
+    if (currentDate.getMonth() !== today.getMonth() || currentDate.getFullYear() !== today.getFullYear()) return [];
+    const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+    return overdueBills.filter(b => new Date(b.dueDate) < monthStart);
+  }, [overdueBills, currentDate]);
 
   const percentagePaid = stats.total === 0 ? 0 : Math.round((stats.paid / stats.total) * 100);
 
@@ -175,272 +433,413 @@ const App: React.FC = () => {
     });
   };
 
-  const handleExportCSV = () => {
-    if (bills.length === 0) {
-      alert("Brak danych do eksportu.");
+  const handleExportCSV = (options: CsvExportOptions) => {
+    const csvContent = buildCsvExport(bills, categoryList, options);
+    downloadFile(csvContent, `${t('app.csvFileName')}_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const handleImportBills = (plan: ImportPlan) => {
+    if (!canEdit) return;
+    const mutations: Mutation[] = plan.merges.map(m => ({ kind: 'update', billId: m.billId, changes: m.changes }));
+    if (plan.inserts.length > 0) {
+      const householdId = activeHouseholdId || undefined;
+      mutations.unshift({ kind: 'insert', bills: plan.inserts.map(b => ({ ...b, householdId })) });
+    }
+    commitMutations(mutations);
+  };
+
+  const handleExportBackup = async () => {
+    const files = await readBackupAttachments(bills, attachmentStore);
+    const backup = createBackup(bills, seriesRules, categories, settings, files);
+    downloadFile(JSON.stringify(backup, null, 2), `liquid_bills_${new Date().toISOString().split('T')[0]}.json`, 'application/json');
+  };
+
+  const handleRestoreBackup = async (backup: BackupFile, plan: RestorePlan) => {
+    if (!canEdit) return;
+    // Files are uploaded first, a failed upload leaves the bills as they were
+    const mutations = await restoreAttachments(backup, plan.mutations, bills, attachmentStore);
+    if (mutations.length > 0) commitMutations(mutations);
+    // Not through handleSaveSettings: extending series now would still see the bills from before the restore
+    saveSettings(backup.settings);
+    setSettings(backup.settings);
+  };
+
+  // Calendar, currency and forecast options don't affect series, so they skip handleSaveSettings
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const next = { ...settings, ...changes };
+    saveSettings(next);
+    setSettings(next);
+  };
+
+  const handleChangeCalendarOptions = (calendar: CalendarOptions) => updateSettings({ calendar });
+
+  const handleCalendarFeedEnabled = (calendarFeedEnabled: boolean) => updateSettings({ calendarFeedEnabled });
+
+  const handleSaveCurrencies = (baseCurrency: string, exchangeRates: ExchangeRateTable) => updateSettings({ baseCurrency, exchangeRates });
+
+  const handleChangeForecast = (forecast: ForecastSettings) => updateSettings({ forecast });
+
+  // Components translate while rendering, the state change re-renders them in the new language
+  const handleChangeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  const handleSwitchStorage = () => {
+    if (pendingCount > 0) {
+      alert(t('app.syncFirst'));
       return;
     }
 
-    const headers = ["Nazwa", "Kwota", "Data", "Kategoria", "Status", "Powtarzalny"];
-    const csvContent = [
-      headers.join(","),
-      ...bills.map(bill => {
-        const date = new Date(bill.dueDate).toLocaleDateString('pl-PL');
-        const status = bill.isPaid ? "Zapłacone" : "Do zapłaty";
-        const recurring = bill.isRecurring ? "Tak" : "Nie";
-        return `"${bill.name}",${bill.amount},${date},${bill.category},${status},${recurring}`;
-      })
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `backup_rachunki_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const next = billRepository.backend === 'supabase' ? 'local' : 'supabase';
+    const message = next === 'local'
+      ? t('app.confirm.switchToLocal')
+      : t('app.confirm.switchToCloud');
+    if (!confirm(message)) return;
+
+    setStorageBackend(next);
+    localStorage.removeItem(CACHE_KEY); // Cached bills belong to the previous backend
+    localStorage.removeItem(SERIES_CACHE_KEY);
+    localStorage.removeItem(CATEGORIES_CACHE_KEY);
+    window.location.reload();
   };
 
-  const toggleBillPaid = async (id: string) => {
-    if (!isSupabaseConfigured) return;
+  const handleSelectHousehold = (householdId: string | null) => {
+    if (householdId === activeHouseholdId) return;
+    if (pendingCount > 0) {
+      alert(t('app.syncFirst'));
+      return;
+    }
 
-    const billToUpdate = bills.find(b => b.id === id);
-    if (!billToUpdate) return;
+    setActiveHouseholdId(householdId);
+    setActiveHousehold(householdId);
+    localStorage.removeItem(CACHE_KEY); // Cached bills belong to the previous household
+    localStorage.removeItem(SERIES_CACHE_KEY);
+    localStorage.removeItem(CATEGORIES_CACHE_KEY);
+    setBills([]);
+    setSeriesRules([]);
+    setCategories([]);
+    fetchBills();
+  };
 
-    const newStatus = !billToUpdate.isPaid;
+  const getPaidByLabel = (bill: Bill): string | undefined => {
+    if (!activeHouseholdId || !bill.paidBy) return undefined;
+    if (bill.paidBy === userId) return t('app.paidByYou');
+    return memberEmails[bill.paidBy];
+  };
+
+  const handleSignOut = async () => {
+    const message = pendingCount > 0
+      ? t('app.confirm.signOutUnsynced')
+      : t('app.confirm.signOut');
+    if (!confirm(message)) return;
 
-    // Optimistic Update
-    const updatedBills = bills.map(bill => 
-      bill.id === id ? { ...bill, isPaid: newStatus } : bill
-    );
-    setBills(updatedBills);
-    localStorage.setItem(CACHE_KEY, JSON.stringify(updatedBills)); // Update Cache immediately
+    await signOut();
+
+    // Nothing of the previous account may stay on the device
+    localStorage.removeItem(CACHE_KEY);
+    localStorage.removeItem(SERIES_CACHE_KEY);
+    localStorage.removeItem(CATEGORIES_CACHE_KEY);
+    setSeriesRules([]);
+    setCategories([]);
+    saveOutbox([]);
+    setActiveHouseholdId(null);
+    setActiveHousehold(null);
+    setHouseholds([]);
+    setPendingCount(0);
+    setBills([]);
+    setSyncSuccess(false);
+    setError(null);
+  };
+
+  // --- Outbox (offline mutation queue) ---
+
+  const flushOutbox = async () => {
+    if (flushingRef.current || (billRepository.isRemote && !navigator.onLine)) return;
+    if (loadOutbox().length === 0) return;
+
+    flushingRef.current = true;
+    setIsSyncing(true);
+    let needsResync = false;
 
     try {
-      const { error } = await supabase
-        .from('bills')
-        .update({ is_paid: newStatus })
-        .eq('id', id);
+      let queue = loadOutbox();
+      while (queue.length > 0) {
+        const next = queue[0];
+        try {
+          const idMap = await replayMutation(billRepository, next);
+          if (next.kind === 'update' && next.droppedAttachments) discardAttachments(attachmentStore, next.droppedAttachments);
 
-      if (error) throw error;
-      setSyncSuccess(true);
-    } catch (err) {
-      console.error("Error updating status:", err);
-      // Revert if error
-      const revertedBills = bills.map(bill => 
-        bill.id === id ? { ...bill, isPaid: !newStatus } : bill
-      );
-      setBills(revertedBills);
-      localStorage.setItem(CACHE_KEY, JSON.stringify(revertedBills));
-      setSyncSuccess(false);
-      alert("Błąd synchronizacji. Sprawdź połączenie.");
+          // Re-read the outbox: new mutations may have been queued while we were waiting
+          queue = remapTempIds(loadOutbox().filter(op => op.opId !== next.opId), idMap);
+          saveOutbox(queue);
+          setPendingCount(queue.length);
+
+          if (Object.keys(idMap).length > 0) {
+            setBills(prev => {
+              const remapped = remapBillIds(prev, idMap);
+              localStorage.setItem(CACHE_KEY, JSON.stringify(remapped));
+              return remapped;
+            });
+          }
+        } catch (err) {
+          if (isRetryableError(err)) {
+            // Still offline (or signed out) - keep the queue and retry later
+            setSyncSuccess(false);
+            return;
+          }
+          // The server rejected this mutation. Drop it so it doesn't block the rest of the queue.
+          console.error("Error replaying mutation:", next, err);
+          queue = loadOutbox().filter(op => op.opId !== next.opId);
+          saveOutbox(queue);
+          setPendingCount(queue.length);
+          needsResync = true;
+        }
+      }
+      setSyncSuccess(!needsResync);
+    } finally {
+      flushingRef.current = false;
+      setIsSyncing(false);
+    }
+
+    if (needsResync) {
+      alert(t('app.error.sync'));
+      await fetchBills(true);
+    }
+  };
+
+  // Applies mutations locally right away, records them in the outbox and tries to send them
+  // State is updated functionally, so callers that just replaced `bills` (e.g. after a fetch) are safe
+  const commitMutations = (mutations: Mutation[]) => {
+    setBills(prev => {
+      const updatedBills = applyMutations(prev, mutations);
+      localStorage.setItem(CACHE_KEY, JSON.stringify(updatedBills)); // Update Cache immediately
+      return updatedBills;
+    });
+    if (mutations.some(m => m.kind === 'saveSeries' || m.kind === 'deleteSeries')) {
+      setSeriesRules(prev => {
+        const updatedRules = applySeriesMutations(prev, mutations);
+        localStorage.setItem(SERIES_CACHE_KEY, JSON.stringify(updatedRules));
+        return updatedRules;
+      });
+    }
+    if (mutations.some(m => m.kind === 'saveCategory' || m.kind === 'deleteCategory')) {
+      setCategories(prev => {
+        const updatedCategories = applyCategoryMutations(prev, mutations);
+        localStorage.setItem(CATEGORIES_CACHE_KEY, JSON.stringify(updatedCategories));
+        return updatedCategories;
+      });
+    }
+
+    const queue = enqueueMutations(mutations);
+    setPendingCount(queue.length);
+    flushOutbox();
+  };
+
+  // --- Categories ---
+
+  const seedCategories = (): Mutation[] => DEFAULT_CATEGORIES.map(category => ({
+    kind: 'saveCategory',
+    category: { ...category, householdId: activeHouseholdIdRef.current || undefined }
+  }));
+
+  // The defaults are stored first when the scope has none yet, otherwise they would vanish from the list
+  const commitCategoryMutations = (mutations: Mutation[]) => {
+    commitMutations(categories.length === 0 ? [...seedCategories(), ...mutations] : mutations);
+  };
+
+  const handleSaveCategory = (category: Category) => {
+    if (!canEdit) return;
+    commitCategoryMutations([{ kind: 'saveCategory', category: { ...category, householdId: activeHouseholdId || undefined } }]);
+  };
+
+  // Bills and series rules move to the replacement in the same batch, so nothing is left without a category
+  const handleDeleteCategory = (id: string, replacementId?: string) => {
+    if (!canEdit) return;
+    const mutations: Mutation[] = [];
+    if (replacementId) {
+      bills.filter(b => b.category === id).forEach(b => {
+        mutations.push({ kind: 'update', billId: b.id, changes: { category: replacementId } });
+      });
+      seriesRules.filter(s => s.category === id).forEach(s => {
+        mutations.push({ kind: 'saveSeries', series: { ...s, category: replacementId } });
+      });
     }
+    mutations.push({ kind: 'deleteCategory', categoryId: id });
+    commitCategoryMutations(mutations);
+  };
+
+  const toggleBillPaid = (id: string) => {
+    if (!canEdit) return;
+
+    const billToUpdate = bills.find(b => b.id === id);
+    if (!billToUpdate) return;
+
+    commitMutations([{ kind: 'update', billId: id, changes: togglePaymentChanges(billToUpdate, userId) }]);
+  };
+
+  // --- Bulk actions ---
+
+  // Selection belongs to the month on screen
+  useEffect(() => {
+    setSelectedIds(null);
+  }, [currentDate, viewMode]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev && (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
   };
 
-  const handleDeleteBill = async (id: string) => {
-    if (!isSupabaseConfigured) return;
+  const handleBatchAction = (action: BatchAction) => {
+    if (!canEdit || !selectedIds) return;
+    const batch = planBatch(bills.filter(b => selectedIds.includes(b.id)), action, userId);
+    if (isEmptyBatch(batch)) {
+      setSelectedIds(null);
+      return;
+    }
+    const count = batch.updates.length + batch.deleteIds.length;
+    const categoryName = action.kind === 'setCategory' ? getCategoryLabel(categoryList, action.categoryId) : undefined;
+    if (!confirm(describeBatchAction(action, count, categoryName))) return;
+    commitMutations([{ kind: 'batch', batch }]);
+    setSelectedIds(null);
+  };
 
-    // Optimistic delete
-    const previousBills = [...bills];
-    const newBills = bills.filter(b => b.id !== id);
-    setBills(newBills);
-    localStorage.setItem(CACHE_KEY, JSON.stringify(newBills));
+  const handleDeleteBill = (id: string) => {
     setIsModalOpen(false);
+    if (!canEdit) return;
+    commitMutations([{ kind: 'delete', billId: id }]);
+  };
 
-    try {
-        const { error } = await supabase
-            .from('bills')
-            .delete()
-            .eq('id', id);
-        
-        if (error) throw error;
-        setSyncSuccess(true);
-    } catch (err) {
-        console.error("Error deleting:", err);
-        setBills(previousBills);
-        localStorage.setItem(CACHE_KEY, JSON.stringify(previousBills));
-        setSyncSuccess(false);
-        alert("Błąd podczas usuwania.");
+  // Seeds categories and extends series of the loaded scope. Only editors do that; while the household list
+  // is loading the role is unknown, the effect below runs it once it is.
+  const maintainScope = (currentBills: Bill[], rules: BillSeries[], currentCategories: Category[]) => {
+    const scope = activeHouseholdIdRef.current || 'personal';
+    if (!canEditRef.current || loadedScopeRef.current !== scope) return;
+
+    // A scope without categories gets the defaults, which it has been showing until now
+    if (currentCategories.length === 0) commitMutations(seedCategories());
+
+    // Keep recurring series generated into the future, once per household/personal scope and app run
+    if (!extendedScopesRef.current.has(scope)) {
+      extendedScopesRef.current.add(scope);
+      extendSeriesToHorizon(currentBills, rules);
     }
   };
 
-  const handleSaveBill = async (billData: Bill, isNew: boolean, createSeries: boolean, updateFuture: boolean) => {
-    if (!isSupabaseConfigured) {
-        alert("Brak połączenia z bazą. Nie można zapisać.");
-        return;
+  useEffect(() => {
+    if (canEdit) maintainScope(bills, seriesRules, categories);
+  }, [canEdit]);
+
+  const getHorizon = () => getHorizonDate(settings.recurrenceHorizonMonths);
+
+  // Materializes every active series up to the configured horizon
+  const extendSeriesToHorizon = (currentBills: Bill[], rules: BillSeries[], horizonMonths = loadSettings().recurrenceHorizonMonths) => {
+    const mutations = planSeriesExtension(currentBills, rules, getHorizonDate(horizonMonths));
+    if (mutations.length > 0) commitMutations(mutations);
+  };
+
+  const handleSaveSettings = async (next: AppSettings) => {
+    if (next.reminders.enabled && !settings.reminders.enabled && !(await requestReminderPermission().catch(() => false))) {
+      alert(t('app.notificationsDenied'));
+      next = { ...next, reminders: { ...next.reminders, enabled: false } };
     }
-    
-    setIsSyncing(true);
+    saveSettings(next);
+    setSettings(next);
+    if (canEditRef.current) extendSeriesToHorizon(bills, seriesRules, next.recurrenceHorizonMonths);
+  };
 
-    const preparePayload = (b: Bill) => ({
-        name: b.name,
-        amount: b.amount,
-        due_date: b.dueDate,
-        is_paid: b.isPaid,
-        is_recurring: b.isRecurring,
-        frequency: b.frequency,
-        category: b.category,
-        series_id: b.seriesId || null
-    });
+  const handleSaveBill = (formData: Bill, isNew: boolean, createSeries: boolean, updateFuture: boolean, seriesEnd?: SeriesEnd) => {
+    if (!canEdit) return;
 
-    try {
-        if (isNew) {
-            if (createSeries) {
-                const seriesId = crypto.randomUUID();
-                const newBillsPayload = [];
-                const startDate = new Date(billData.dueDate);
-                const freq = billData.frequency || BillFrequency.MONTHLY;
-                
-                // Calculate roughly 1 year worth of bills based on frequency
-                const count = Math.ceil(12 / freq) + 1;
-
-                for (let i = 0; i < count; i++) {
-                    const nextDate = new Date(startDate);
-                    nextDate.setMonth(startDate.getMonth() + (i * freq));
-                    
-                    newBillsPayload.push({
-                        ...preparePayload({ ...billData, seriesId }),
-                        due_date: nextDate.toISOString(),
-                        is_paid: i === 0 ? billData.isPaid : false
-                    });
-                }
-                
-                const { data, error } = await supabase.from('bills').insert(newBillsPayload).select();
-                if (error) throw error;
-                
-                if (data) {
-                    await fetchBills(true); // Full refresh to get IDs
-                }
-
-            } else {
-                const { data, error } = await supabase.from('bills').insert(preparePayload(billData)).select();
-                if (error) throw error;
-                if (data) {
-                     const addedBill = {
-                        ...billData,
-                        id: data[0].id,
-                        seriesId: data[0].series_id
-                     };
-                     const newTotal = [...bills, addedBill];
-                     setBills(newTotal);
-                     localStorage.setItem(CACHE_KEY, JSON.stringify(newTotal));
-                }
-            }
+    const originalBill = bills.find(b => b.id === formData.id);
+    const billData: Bill = {
+        ...formData,
+        householdId: originalBill ? originalBill.householdId : activeHouseholdId || undefined,
+        // Keep whoever paid first, unless the bill went back to unpaid
+        paidBy: !formData.isPaid ? undefined : originalBill?.isPaid ? originalBill.paidBy : userId,
+        payments: formData.payments?.map(p => p.paidBy || !userId ? p : { ...p, paidBy: userId })
+    };
+    const { id, ...fields } = billData;
+    const changes: BillChanges = { ...fields, paidBy: billData.paidBy ?? null };
+
+    // Every edit below saves the bill's attachment list; files taken off it go once that update is stored
+    const droppedAttachments = getDroppedAttachments(originalBill?.attachments, billData.attachments).map(a => a.path);
+
+    if (isNew) {
+        if (createSeries) {
+            const series = seriesFromBill(billData, crypto.randomUUID(), seriesEnd);
+            const first: Bill = {
+                ...billData,
+                id: createTempId(),
+                seriesId: series.id,
+                installment: installmentAt(series, 0),
+                installmentCount: series.installmentCount
+            };
+            const occurrences = [first, ...extendSeries(series, [first], getHorizon())];
+            commitMutations([
+                { kind: 'saveSeries', series: markMaterialized(series, occurrences) },
+                { kind: 'insert', bills: occurrences }
+            ]);
         } else {
-            // EDIT EXISTING
-            const originalBill = bills.find(b => b.id === billData.id);
-            const wasRecurring = originalBill?.isRecurring;
-            const isNowRecurring = billData.isRecurring;
-            
-            // 1. Handle Turning OFF Recurring
-            if (wasRecurring && !isNowRecurring) {
-                const confirmed = confirm("Wyłączyłeś opcję 'Powtarzalny'. Czy chcesz usunąć wszystkie przyszłe rachunki z tej serii?");
-                
-                if (confirmed) {
-                    let deleteQuery = supabase.from('bills').delete();
-                    const currentDueDate = billData.dueDate;
-
-                    if (originalBill?.seriesId) {
-                        deleteQuery = deleteQuery
-                            .eq('series_id', originalBill.seriesId)
-                            .gt('due_date', currentDueDate);
-                    } else {
-                        deleteQuery = deleteQuery
-                            .eq('name', originalBill?.name)
-                            .eq('amount', originalBill?.amount)
-                            .gt('due_date', currentDueDate);
-                    }
-
-                    const { error: deleteError } = await deleteQuery;
-                    if (deleteError) throw deleteError;
-                    
-                    // Unlink the series ID from this bill since it's now solo
-                    billData.seriesId = undefined; 
-                }
-            }
-
-            // 2. Handle Update Series (e.g. Price Change, Frequency Change)
-            if (wasRecurring && isNowRecurring && updateFuture && originalBill?.seriesId) {
-                 
-                 // Strategy: Update current -> Delete Future -> Regenerate Future
-                 // This ensures dates and amounts are consistent if frequency or price changed
-                 
-                 // A. Update Current Bill
-                 const { error: updateError } = await supabase
-                    .from('bills')
-                    .update(preparePayload(billData))
-                    .eq('id', billData.id);
-
-                 if (updateError) throw updateError;
-
-                 // B. Delete Future Bills in this series
-                 const { error: deleteError } = await supabase
-                    .from('bills')
-                    .delete()
-                    .eq('series_id', originalBill.seriesId)
-                    .gt('due_date', billData.dueDate); // strict greater than
-                 
-                 if (deleteError) throw deleteError;
-
-                 // C. Regenerate Future Bills
-                 const newBillsPayload = [];
-                 const startDate = new Date(billData.dueDate);
-                 const freq = billData.frequency || BillFrequency.MONTHLY;
-                 
-                 // Generate 1 year worth from current bill
-                 const count = Math.ceil(12 / freq); 
-
-                 for (let i = 1; i <= count; i++) { // Start from 1, future only
-                    const nextDate = new Date(startDate);
-                    nextDate.setMonth(startDate.getMonth() + (i * freq));
-                    
-                    newBillsPayload.push({
-                        ...preparePayload({ ...billData, seriesId: originalBill.seriesId }),
-                        due_date: nextDate.toISOString(),
-                        is_paid: false // Future bills default to unpaid
-                    });
-                 }
-
-                 if (newBillsPayload.length > 0) {
-                     const { error: insertError } = await supabase.from('bills').insert(newBillsPayload);
-                     if (insertError) throw insertError;
-                 }
-                 
-                 await fetchBills(true); // Full refresh required
-                 return; // Exit
-            }
-            
-            // 3. Simple Update (Single Bill or Series NO update future)
-            if (!(wasRecurring && isNowRecurring && updateFuture && originalBill?.seriesId)) {
-                const payload = preparePayload(billData);
-                // If it was recurring and now is not, we already handled delete future, 
-                // but we must ensure this specific bill is updated correctly to not be series
-                if (wasRecurring && !isNowRecurring) {
-                    payload.series_id = null;
-                }
-
-                const { error } = await supabase
-                    .from('bills')
-                    .update(payload)
-                    .eq('id', billData.id);
-                
-                if (error) throw error;
+            commitMutations([{ kind: 'insert', bills: [{ ...billData, id: createTempId(), seriesId: undefined }] }]);
+        }
+        return;
+    }
+
+    // EDIT EXISTING
+    const wasRecurring = originalBill?.isRecurring;
+    const isNowRecurring = billData.isRecurring;
+    const mutations: Mutation[] = [];
 
-                 // Update Local State Single
-                 const currentBills = bills.map(b => b.id === billData.id ? billData : b);
-                 setBills(currentBills);
-                 localStorage.setItem(CACHE_KEY, JSON.stringify(currentBills));
-            }
+    // 1. Handle Turning OFF Recurring
+    if (wasRecurring && !isNowRecurring) {
+        const confirmed = confirm(t('app.confirm.stopRecurring'));
+
+        if (confirmed) {
+            mutations.push({
+                kind: 'deleteFuture',
+                after: billData.dueDate,
+                match: originalBill?.seriesId
+                    ? { seriesId: originalBill.seriesId }
+                    : { name: originalBill?.name ?? '', amount: originalBill?.amount ?? 0 }
+            });
         }
-        setSyncSuccess(true);
-    } catch (err) {
-        console.error("Error saving bill:", err);
-        setSyncSuccess(false);
-        alert("Wystąpił błąd podczas zapisywania. Upewnij się, że dodałeś kolumnę 'frequency' do bazy danych.");
-    } finally {
-        setIsSyncing(false);
+
+        // The series ends here, keep its rule for history but stop extending it
+        const rule = seriesRules.find(s => s.id === originalBill?.seriesId);
+        if (confirmed && rule) {
+            mutations.push({ kind: 'saveSeries', series: { ...rule, isActive: false } });
+        }
+
+        // This bill is now solo, unlink it from the series
+        mutations.push({ kind: 'update', billId: id, changes: { ...changes, seriesId: null }, droppedAttachments });
+        commitMutations(mutations);
+        return;
     }
+
+    // 2. Handle Update Series (e.g. Price Change, Recurrence Change)
+    if (wasRecurring && isNowRecurring && updateFuture && originalBill?.seriesId) {
+        // Strategy: Update current -> Delete Future -> Re-anchor the rule -> Regenerate Future up to the horizon
+        // This ensures dates and amounts are consistent if the recurrence or price changed
+        const seriesId = originalBill.seriesId;
+        // Bills from before installment plans have no number yet, count them by position in the series
+        const installment = originalBill.installment
+            ?? bills.filter(b => b.seriesId === seriesId && new Date(b.dueDate) < new Date(originalBill.dueDate)).length + 1;
+        const series = seriesFromBill({ ...billData, installment }, seriesId, seriesEnd);
+        const numbering = { installment: installmentAt(series, 0), installmentCount: series.installmentCount };
+        const current = { ...billData, ...numbering };
+        const occurrences = extendSeries(series, [current], getHorizon());
+
+        commitMutations([
+            { kind: 'update', billId: id, changes: { ...changes, ...numbering }, droppedAttachments },
+            { kind: 'deleteFuture', after: billData.dueDate, match: { seriesId: originalBill.seriesId } },
+            { kind: 'saveSeries', series: markMaterialized(series, [current, ...occurrences]) },
+            { kind: 'insert', bills: occurrences }
+        ]);
+        return;
+    }
+
+    // 3. Simple Update (Single Bill or Series NO update future)
+    commitMutations([{ kind: 'update', billId: id, changes, droppedAttachments }]);
   };
 
   const openAddModal = () => {
@@ -469,9 +868,11 @@ const App: React.FC = () => {
                 
                 <div className="flex gap-2">
                     {/* Sync Indicator */}
-                    <div className="w-8 h-8 flex items-center justify-center rounded-full bg-white/5">
+                    <div className="relative w-8 h-8 flex items-center justify-center rounded-full bg-white/5" title={pendingCount > 0 ? t('app.pendingChanges', { n: pendingCount }) : undefined}>
                         {isSyncing ? (
                             <RefreshCw size={14} className="text-blue-400 animate-spin" />
+                        ) : pendingCount > 0 ? (
+                            <UploadCloud size={14} className="text-amber-400" />
                         ) : syncSuccess ? (
                             <CheckCircle2 size={16} className="text-green-400" />
                         ) : error ? (
@@ -479,15 +880,84 @@ const App: React.FC = () => {
                         ) : (
                              <div className="w-2 h-2 rounded-full bg-white/20" />
                         )}
+                        {pendingCount > 0 && (
+                            <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 flex items-center justify-center rounded-full bg-amber-500 text-black text-[9px] font-bold">
+                                {pendingCount}
+                            </span>
+                        )}
                     </div>
 
                     <button 
-                        onClick={handleExportCSV}
+                        onClick={() => bills.length === 0 ? alert(t('app.noDataToExport')) : setIsExportOpen(true)}
                         className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
-                        title="Pobierz backup CSV"
+                        title={t('app.action.exportCsv')}
                     >
                         <DownloadCloud size={18} />
                     </button>
+
+                    <button 
+                        onClick={() => setIsCalendarOpen(true)}
+                        className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
+                        title={t('app.action.calendar')}
+                    >
+                        <CalendarDays size={18} />
+                    </button>
+
+                    {canEdit && (!requiresAuth || session) && (
+                        <button 
+                            onClick={() => setIsImportOpen(true)}
+                            className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
+                            title={t('app.action.importCsv')}
+                        >
+                            <FileUp size={18} />
+                        </button>
+                    )}
+
+                    {isSupabaseConfigured && (
+                        <button 
+                            onClick={handleSwitchStorage}
+                            className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
+                            title={billRepository.backend === 'supabase' ? t('app.storage.cloud') : t('app.storage.local')}
+                        >
+                            {billRepository.backend === 'supabase' ? <Cloud size={18} /> : <HardDrive size={18} />}
+                        </button>
+                    )}
+
+                    {householdRepository && session && (
+                        <button 
+                            onClick={() => setIsHouseholdModalOpen(true)}
+                            className={`p-2 rounded-full hover:bg-white/10 transition-colors ${activeHousehold ? 'bg-blue-500/20 text-blue-300' : 'bg-white/5 text-white/50 hover:text-white'}`}
+                            title={activeHousehold ? activeHousehold.name : t('app.action.households')}
+                        >
+                            <Users size={18} />
+                        </button>
+                    )}
+
+                    <button 
+                        onClick={() => setIsSearchOpen(true)}
+                        className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
+                        title={t('app.action.search')}
+                    >
+                        <Search size={18} />
+                    </button>
+
+                    <button 
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
+                        title={t('app.action.settings')}
+                    >
+                        <Settings size={18} />
+                    </button>
+
+                    {session && (
+                        <button 
+                            onClick={handleSignOut}
+                            className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
+                            title={t('app.action.signOut', { email: session.user.email ?? '' })}
+                        >
+                            <LogOut size={18} />
+                        </button>
+                    )}
                 </div>
             </div>
             
@@ -505,10 +975,22 @@ const App: React.FC = () => {
                 >
                     <CalendarRange size={20} />
                 </button>
+                <button 
+                    onClick={() => setViewMode('forecast')}
+                    className={`p-2 rounded-full transition-all ${viewMode === 'forecast' ? 'bg-white/10 text-white' : 'text-white/40'}`}
+                    title={t('forecast.title')}
+                >
+                    <Wallet size={20} />
+                </button>
             </div>
           </div>
 
           {/* Date Selector */}
+          {viewMode === 'forecast' ? (
+            <div className="flex items-center justify-center bg-white/5 p-3 rounded-2xl border border-white/10">
+              <span className="font-semibold text-lg tracking-wide">{t('forecast.nextDays', { n: settings.forecast.days })}</span>
+            </div>
+          ) : (
           <div className={`flex items-center justify-between bg-white/5 p-1 rounded-2xl border border-white/10 transition-colors duration-500`}>
             <button onClick={handlePrev} className="p-2 rounded-xl hover:bg-white/10 transition-colors">
               <ChevronLeft size={20} className="text-white/70" />
@@ -520,22 +1002,25 @@ const App: React.FC = () => {
               <ChevronRight size={20} className="text-white/70" />
             </button>
           </div>
+          )}
         </header>
 
-        {loading ? (
+        {requiresAuth && authReady && !session ? (
+           <AuthScreen onUseLocally={isSupabaseConfigured ? handleSwitchStorage : undefined} />
+        ) : loading ? (
            <div className="flex flex-col items-center justify-center h-[50vh] text-white/50 gap-4 animate-pulse">
                <Loader2 className="animate-spin" size={32} />
-               <span>Ładowanie z chmury...</span>
+               <span>{t('app.loading')}</span>
            </div> 
         ) : error && bills.length === 0 ? (
            <div className="flex flex-col items-center justify-center h-[50vh] text-red-400 gap-4 p-6 text-center">
                <div className="p-4 bg-red-500/10 rounded-full border border-red-500/20"><WifiOff size={32} /></div>
-               <h3 className="text-xl font-bold text-white">Błąd Połączenia</h3>
+               <h3 className="text-xl font-bold text-white">{t('app.connectionError')}</h3>
                <p className="text-white/60 text-sm">{error}</p>
                
                {!isSupabaseConfigured && (
                  <div className="mt-4 p-4 bg-white/5 rounded-xl text-left border border-white/10">
-                    <p className="text-xs text-white/40 mb-2 font-bold uppercase">Konfiguracja Netlify:</p>
+                    <p className="text-xs text-white/40 mb-2 font-bold uppercase">{t('app.netlifyConfig')}</p>
                     <code className="text-[10px] text-blue-300 block mb-1">VITE_SUPABASE_URL</code>
                     <code className="text-[10px] text-blue-300 block">VITE_SUPABASE_ANON_KEY</code>
                  </div>
@@ -545,8 +1030,17 @@ const App: React.FC = () => {
                 onClick={() => fetchBills()}
                 className="mt-4 px-6 py-2 bg-white text-black font-bold rounded-xl text-sm hover:scale-105 transition-transform"
                >
-                 Spróbuj ponownie
+                 {t('app.retry')}
                </button>
+
+               {billRepository.backend === 'supabase' && (
+                 <button 
+                  onClick={handleSwitchStorage}
+                  className="text-xs text-white/50 underline hover:text-white transition-colors"
+                 >
+                   {t('app.useLocally')}
+                 </button>
+               )}
            </div>
         ) : viewMode === 'month' ? (
             <>
@@ -557,10 +1051,10 @@ const App: React.FC = () => {
                     <div className="p-2 rounded-full bg-green-500/20 text-green-400">
                         <PieChart size={18} />
                     </div>
-                    <span className="text-xs font-bold text-green-400/80 uppercase">Zapłacone</span>
+                    <span className="text-xs font-bold text-green-400/80 uppercase">{t('status.paid')}</span>
                     </div>
                     <div>
-                    <span className="text-2xl font-bold block">{formatCurrency(stats.paid)}</span>
+                    <span className="text-2xl font-bold block">{formatCurrency(stats.paid, baseCurrency)}</span>
                     <div className="w-full bg-green-900/30 h-1.5 mt-2 rounded-full overflow-hidden">
                         <div className="bg-green-400 h-full rounded-full transition-all duration-1000" style={{ width: `${percentagePaid}%` }}></div>
                     </div>
@@ -572,53 +1066,189 @@ const App: React.FC = () => {
                     <div className="p-2 rounded-full bg-red-500/20 text-red-400">
                         <PieChart size={18} />
                     </div>
-                    <span className="text-xs font-bold text-red-400/80 uppercase">Do zapłaty</span>
+                    <span className="text-xs font-bold text-red-400/80 uppercase">{t('status.unpaid')}</span>
                     </div>
                     <div>
-                    <span className="text-2xl font-bold block">{formatCurrency(stats.pending)}</span>
-                    <span className="text-xs text-white/40 mt-1 block">Z {formatCurrency(stats.total)}</span>
+                    <span className="text-2xl font-bold block">{formatCurrency(stats.pending, baseCurrency)}</span>
+                    <span className="text-xs text-white/40 mt-1 block">{t('app.outOf', { total: formatCurrency(stats.total, baseCurrency) })}</span>
                     </div>
                 </GlassCard>
+
+                {overdueTotal > 0 && (
+                    <GlassCard className="col-span-2 p-4 flex items-center justify-between bg-orange-900/10 border-orange-500/30">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 rounded-full bg-orange-500/20 text-orange-400">
+                                <AlertTriangle size={18} />
+                            </div>
+                            <span className="text-xs font-bold text-orange-400/80 uppercase">{t('status.overdue')}</span>
+                        </div>
+                        <div className="text-right">
+                            <span className="text-xl font-bold block">{formatCurrency(overdueTotal, baseCurrency)}</span>
+                            <span className="text-xs text-white/40">{t('app.overdueCount', { n: overdueBills.length })}</span>
+                        </div>
+                    </GlassCard>
+                )}
+
+                {tracksIncome && (
+                    <>
+                        <GlassCard className="p-4 flex flex-col justify-between bg-sky-900/10 border-sky-500/20">
+                            <span className="text-xs font-bold text-sky-300/80 uppercase">{t('app.net')}</span>
+                            <span className={`text-xl font-bold mt-2 ${stats.income - stats.total < 0 ? 'text-red-300' : ''}`}>
+                                {formatCurrency(stats.income - stats.total, baseCurrency)}
+                            </span>
+                        </GlassCard>
+
+                        <GlassCard className="p-4 flex flex-col justify-between bg-sky-900/10 border-sky-500/20">
+                            <span className="text-xs font-bold text-sky-300/80 uppercase">{t('app.leftAfterBills')}</span>
+                            <div className="mt-2">
+                                <span className={`text-xl font-bold block ${stats.incomeReceived - stats.total < 0 ? 'text-red-300' : ''}`}>
+                                    {formatCurrency(stats.incomeReceived - stats.total, baseCurrency)}
+                                </span>
+                                <span className="text-[10px] text-white/40">
+                                    {t('app.incomeReceived', { amount: formatCurrency(stats.incomeReceived, baseCurrency), total: formatCurrency(stats.income, baseCurrency) })}
+                                </span>
+                            </div>
+                        </GlassCard>
+                    </>
+                )}
+
+                {missingRates.length > 0 && (
+                    <p className="col-span-2 text-xs text-amber-300/80 text-center">
+                        {t('app.missingRates', { codes: missingRates.join(', ') })}
+                    </p>
+                )}
                 </div>
 
+                {/* Overdue bills carried over from past months */}
+                {carriedOverBills.length > 0 && (
+                    <div className="px-6 mt-8">
+                        <h2 className="text-sm font-bold text-orange-400/70 uppercase tracking-widest mb-4 ml-1 flex items-center gap-2 animate-enter-ios" style={{ animationDelay: '50ms' }}>
+                            <AlertTriangle size={14} /> {t('app.carriedOver')}
+                        </h2>
+                        <div className="space-y-4">
+                            {carriedOverBills.map((bill, index) => (
+                                <BillItem 
+                                    key={bill.id} 
+                                    bill={bill} 
+                                    category={findCategory(categoryList, bill.category)}
+                                    index={index}
+                                    onTogglePaid={toggleBillPaid}
+                                    onEdit={openEditModal}
+                                    readOnly={!canEdit}
+                                    paidByLabel={getPaidByLabel(bill)}
+                                    priceIncrease={findRecentIncrease(bill, priceChanges)}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <InstallmentPlans plans={installmentPlans} categories={categoryList} />
+
+                <BudgetProgress statuses={budgetStatuses} baseCurrency={baseCurrency} />
+
+                {monthIncomes.length > 0 && (
+                    <div className="px-6 mt-8">
+                        <h2 className="text-sm font-bold text-sky-300/70 uppercase tracking-widest mb-4 ml-1 animate-enter-ios" style={{ animationDelay: '50ms' }}>
+                            {t('app.income')}
+                        </h2>
+                        <div className="space-y-4">
+                            {monthIncomes.map((bill, index) => (
+                                <BillItem 
+                                    key={bill.id} 
+                                    bill={bill} 
+                                    category={findCategory(categoryList, bill.category)}
+                                    index={index}
+                                    onTogglePaid={toggleBillPaid}
+                                    onEdit={openEditModal}
+                                    readOnly={!canEdit}
+                                    paidByLabel={getPaidByLabel(bill)}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* List Section */}
                 <div className="px-6 mt-8">
                 <h2 className="text-sm font-bold text-white/40 uppercase tracking-widest mb-4 ml-1 flex justify-between animate-enter-ios" style={{ animationDelay: '100ms' }}>
-                    <span>Twoje Rachunki</span>
+                    <span>{t('app.yourBills')}</span>
+                    {canEdit && monthBills.length > 0 && (
+                        selectedIds === null ? (
+                            <button onClick={() => setSelectedIds([])} className="normal-case tracking-normal text-blue-300/80 hover:text-blue-300">
+                                {t('batch.select')}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => setSelectedIds(selectedIds.length === monthBills.length ? [] : monthBills.map(b => b.id))}
+                                className="normal-case tracking-normal text-blue-300/80 hover:text-blue-300"
+                            >
+                                {selectedIds.length === monthBills.length ? t('batch.selectNone') : t('batch.selectAll')}
+                            </button>
+                        )
+                    )}
                 </h2>
                 
-                {filteredBills.length === 0 ? (
+                {monthBills.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-12 text-center opacity-50 animate-enter-ios" style={{ animationDelay: '150ms' }}>
                         <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center mb-4">
                             <LayoutDashboard size={32} className="text-white/30" />
                         </div>
-                        <p className="text-white/60">Brak rachunków w tym miesiącu.</p>
-                        <p className="text-xs text-white/30 mt-1">Dodaj pierwszy przyciskiem poniżej.</p>
+                        <p className="text-white/60">{t('app.empty')}</p>
+                        <p className="text-xs text-white/30 mt-1">{t('app.emptyHint')}</p>
                     </div>
                 ) : (
-                    <div className="space-y-4 pb-8">
-                        {filteredBills.map((bill, index) => (
+                    <div className={`space-y-4 ${selectedIds ? 'pb-48' : 'pb-8'}`}>
+                        {monthBills.map((bill, index) => (
                             <BillItem 
                                 key={bill.id} 
                                 bill={bill} 
+                                category={findCategory(categoryList, bill.category)}
                                 index={index}
                                 onTogglePaid={toggleBillPaid}
                                 onEdit={openEditModal}
+                                readOnly={!canEdit}
+                                paidByLabel={getPaidByLabel(bill)}
+                                priceIncrease={findRecentIncrease(bill, priceChanges)}
+                                onSelect={selectedIds ? toggleSelected : undefined}
+                                selected={!!selectedIds?.includes(bill.id)}
                             />
                         ))}
                     </div>
                 )}
                 </div>
             </>
+        ) : viewMode === 'forecast' ? (
+            <div className="px-6 mt-4">
+                <ForecastView
+                    days={forecastDays}
+                    settings={settings.forecast}
+                    onChangeSettings={handleChangeForecast}
+                    categories={categoryList}
+                    baseCurrency={baseCurrency}
+                    readOnly={!canEdit}
+                    onTogglePaid={toggleBillPaid}
+                    onEdit={openEditModal}
+                />
+            </div>
         ) : (
             /* Year View */
             <div className="px-6 mt-4">
-                <YearlySummary bills={bills} year={currentDate.getFullYear()} />
+                <YearlySummary bills={bills} categories={categoryList} year={currentDate.getFullYear()} baseCurrency={baseCurrency} exchangeRates={exchangeRates} />
             </div>
         )}
 
         {/* Floating Action Button - Fixed above Safe Area */}
-        {viewMode === 'month' && !loading && (
+        {viewMode === 'month' && !loading && (!requiresAuth || session) && canEdit && selectedIds && (
+            <BatchActionBar
+                count={selectedIds.length}
+                categories={categoryList}
+                onApply={handleBatchAction}
+                onCancel={() => setSelectedIds(null)}
+            />
+        )}
+
+        {viewMode === 'month' && !loading && (!requiresAuth || session) && canEdit && !selectedIds && (
             <>
                 {/* Gradient Fade at bottom for smoother scroll effect */}
                 <div className="fixed bottom-0 left-0 right-0 h-32 bg-gradient-to-t from-black via-black/80 to-transparent z-30 pointer-events-none" />
@@ -636,15 +1266,119 @@ const App: React.FC = () => {
 
       </div>
 
+      {/* Before EditModal, so a bill opened from the results shows on top of the search */}
+      <SearchModal
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        bills={bills}
+        categories={categoryList}
+        baseCurrency={baseCurrency}
+        exchangeRates={exchangeRates}
+        onSelect={openEditModal}
+      />
+
       <EditModal 
         isOpen={isModalOpen} 
         onClose={() => setIsModalOpen(false)} 
         onSave={handleSaveBill}
         onDelete={handleDeleteBill}
         initialBill={editingBill}
+        series={seriesRules.find(s => s.id === editingBill?.seriesId)}
         currentDateContext={currentDate}
         existingBills={bills}
+        categories={categoryList}
+        defaultCurrency={baseCurrency}
+        exchangeRates={exchangeRates}
+        attachmentStore={attachmentStore}
+        readOnly={!canEdit}
+      />
+
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        bills={bills}
+        categories={categoryList}
+        onExport={handleExportCSV}
+      />
+
+      <CalendarModal
+        isOpen={isCalendarOpen}
+        onClose={() => setIsCalendarOpen(false)}
+        bills={bills}
+        seriesRules={seriesRules}
+        categories={categoryList}
+        options={settings.calendar}
+        onChangeOptions={handleChangeCalendarOptions}
+        feedAvailable={requiresAuth && !!session}
+        feedEnabled={settings.calendarFeedEnabled}
+        onFeedEnabledChange={handleCalendarFeedEnabled}
+      />
+
+      <ImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        existingBills={bills}
+        categories={categoryList}
+        currentUserId={userId}
+        onImport={handleImportBills}
+      />
+
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={settings}
+        onSave={handleSaveSettings}
+        onOpenBackup={() => setIsBackupOpen(true)}
+        onOpenCurrencies={() => setIsCurrencyOpen(true)}
+        onOpenCategories={() => setIsCategoriesOpen(true)}
+        locale={locale}
+        onChangeLocale={handleChangeLocale}
       />
+
+      <CurrencyModal
+        isOpen={isCurrencyOpen}
+        onClose={() => setIsCurrencyOpen(false)}
+        baseCurrency={baseCurrency}
+        exchangeRates={exchangeRates}
+        usedCurrencies={[...new Set(bills.map(getBillCurrency))]}
+        onSave={handleSaveCurrencies}
+      />
+
+      <CategoriesModal
+        isOpen={isCategoriesOpen}
+        onClose={() => setIsCategoriesOpen(false)}
+        categories={categoryList}
+        bills={bills}
+        baseCurrency={baseCurrency}
+        readOnly={!canEdit}
+        onSave={handleSaveCategory}
+        onDelete={handleDeleteCategory}
+      />
+
+      <BackupModal
+        isOpen={isBackupOpen}
+        onClose={() => setIsBackupOpen(false)}
+        bills={bills}
+        seriesRules={seriesRules}
+        categories={categories}
+        householdId={activeHouseholdId || undefined}
+        canRestore={canEdit}
+        onExport={handleExportBackup}
+        onRestore={handleRestoreBackup}
+      />
+
+      {householdRepository && (
+        <HouseholdModal
+          isOpen={isHouseholdModalOpen}
+          onClose={() => setIsHouseholdModalOpen(false)}
+          repository={householdRepository}
+          households={households}
+          activeHouseholdId={activeHouseholdId}
+          currentUserId={userId}
+          onSelectHousehold={handleSelectHousehold}
+          onHouseholdsChanged={loadHouseholds}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,65 @@
+import { Attachment } from './types';
+
+// Invoices and receipts kept with a bill. The bill stores the metadata, the file itself
+// goes to the attachment store of the storage backend (Supabase Storage or the device).
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const isImageAttachment = (attachment: Attachment): boolean => attachment.mimeType.startsWith('image/');
+
+export const isAcceptedAttachment = (file: Blob): boolean =>
+  file.type.startsWith('image/') || file.type === 'application/pdf';
+
+export const createAttachment = (file: Blob, name: string, path: string): Attachment => ({
+  id: crypto.randomUUID(),
+  name,
+  mimeType: file.type || 'application/octet-stream',
+  size: file.size,
+  path,
+  createdAt: new Date().toISOString()
+});
+
+// Unique name for a new file; store paths only get safe characters, the original name stays in the metadata
+export const createAttachmentFileName = (name: string): string => {
+  const safe = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'L')
+    .replace(/[^\w.-]+/g, '_')
+    .slice(-60);
+  return `${crypto.randomUUID()}-${safe || 'file'}`;
+};
+
+export const getAttachmentPaths = (bills: { attachments?: Attachment[] | null }[]): string[] =>
+  bills.flatMap(b => b.attachments ?? []).map(a => a.path);
+
+// Attachments removed from a bill in an edit, their files can go
+export const getDroppedAttachments = (before: Attachment[] = [], after: Attachment[] = []): Attachment[] =>
+  before.filter(a => !after.some(kept => kept.path === a.path));
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// --- Base64, used by the device store and by backups ---
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Data URL without its "data:<type>;base64," prefix
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
@@ -0,0 +1,50 @@
+import { Session } from '@supabase/supabase-js';
+import { Capacitor } from '@capacitor/core';
+import { supabase } from './supabaseClient';
+
+export type { Session };
+
+export const getSession = async (): Promise<Session | null> => {
+  const { data, error } = await supabase.auth.getSession();
+  if (error) throw error;
+  return data.session;
+};
+
+// Calls the listener on sign-in, sign-out and token refresh. Returns an unsubscribe function.
+export const onSessionChange = (listener: (session: Session | null) => void): (() => void) => {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(session));
+  return () => data.subscription.unsubscribe();
+};
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+};
+
+// Returns true when the account still has to be confirmed from the e-mail
+export const signUpWithPassword = async (email: string, password: string): Promise<boolean> => {
+  const { data, error } = await supabase.auth.signUp({ email, password });
+  if (error) throw error;
+  return !data.session;
+};
+
+// The link opens in the browser, which can't hand the session to the native app,
+// so the iOS build offers password sign-in only
+export const isMagicLinkAvailable = !Capacitor.isNativePlatform();
+
+export const sendMagicLink = async (email: string) => {
+  if (!isMagicLinkAvailable) throw new Error("MAGIC_LINK_UNAVAILABLE");
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin }
+  });
+  if (error) throw error;
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    // Offline: the server session can't be revoked, but at least forget it on this device
+    await supabase.auth.signOut({ scope: 'local' });
+  }
+};
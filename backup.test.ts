@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Attachment } from './types';
+import { BACKUP_VERSION, createBackup, parseBackup, planRestore } from './backup';
+import { DEFAULT_SETTINGS } from './settings';
+import { makeBill } from './testFixtures';
+
+const attachment = (path: string): Attachment => ({
+  id: path, name: `${path}.pdf`, mimeType: 'application/pdf', size: 1, path, createdAt: '2026-10-01T00:00:00.000Z'
+});
+
+describe('planRestore', () => {
+  it('removes files a merged bill no longer links to once the update is stored', () => {
+    const current = makeBill('a', { attachments: [attachment('kept'), attachment('dropped')] });
+    const backup = createBackup([makeBill('a', { attachments: [attachment('kept')] })], [], [], DEFAULT_SETTINGS);
+
+    const plan = planRestore(backup, [current], [], [], 'merge');
+    expect(plan.mutations).toEqual([
+      expect.objectContaining({ kind: 'update', billId: 'a', droppedAttachments: ['dropped'] })
+    ]);
+  });
+});
+
+describe('parseBackup', () => {
+  const file = (version: number) => JSON.stringify({ ...createBackup([makeBill('a')], [], [], DEFAULT_SETTINGS), version });
+
+  it('reads files of this and older versions', () => {
+    expect(parseBackup(file(BACKUP_VERSION)).bills).toHaveLength(1);
+    expect(parseBackup(file(1)).bills).toHaveLength(1);
+  });
+
+  it('rejects files written by a newer version', () => {
+    expect(() => parseBackup(file(BACKUP_VERSION + 1))).toThrow();
+  });
+});
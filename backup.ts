@@ -0,0 +1,281 @@
+import { Attachment, Bill, BillSeries, Category } from './types';
+import { AppSettings, DEFAULT_SETTINGS } from './settings';
+import { AttachmentStore, BillChanges } from './repositories';
+import { Mutation, createTempId } from './offlineQueue';
+import { findDuplicateBill } from './duplicates';
+import { t } from './i18n';
+import { withCategoryKey } from './categories';
+import { base64ToBlob, blobToBase64, getAttachmentPaths, getDroppedAttachments } from './attachments';
+
+// Bump when the file layout changes in a way older readers can't handle.
+// 2: series, categories, payments, currencies, income and attachments
+export const BACKUP_VERSION = 2;
+
+const BACKUP_APP = 'liquid-bills';
+
+export interface BackupFile {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: string;
+  bills: Bill[];
+  series: BillSeries[];
+  categories: Category[]; // Missing in files from before custom categories
+  settings: AppSettings;
+  attachments: BackupAttachment[]; // Missing in files from before attachments
+}
+
+// Content of an attached file, the bills keep its metadata
+export interface BackupAttachment {
+  path: string; // As referenced by the backed up bills
+  data: string; // Base64
+}
+
+export const createBackup = (
+  bills: Bill[],
+  series: BillSeries[],
+  categories: Category[],
+  settings: AppSettings,
+  attachments: BackupAttachment[] = []
+): BackupFile => ({
+  app: BACKUP_APP,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  bills,
+  series,
+  categories,
+  settings,
+  attachments
+});
+
+// Files that can't be read are left out, their bills then restore without them
+export const readBackupAttachments = async (bills: Bill[], store: AttachmentStore): Promise<BackupAttachment[]> => {
+  const files: BackupAttachment[] = [];
+  // One at a time, every file ends up in memory anyway
+  for (const attachment of bills.flatMap(b => b.attachments ?? [])) {
+    try {
+      files.push({ path: attachment.path, data: await blobToBase64(await store.read(attachment)) });
+    } catch (e) {
+      console.error("Attachment backup failed", attachment.path, e);
+    }
+  }
+  return files;
+};
+
+const isValidAttachment = (attachment: any): attachment is Attachment =>
+  !!attachment &&
+  typeof attachment.id === 'string' &&
+  typeof attachment.name === 'string' &&
+  typeof attachment.mimeType === 'string' &&
+  typeof attachment.path === 'string';
+
+const isValidBill = (bill: any): bill is Bill =>
+  !!bill &&
+  typeof bill.id === 'string' &&
+  typeof bill.name === 'string' &&
+  typeof bill.amount === 'number' &&
+  typeof bill.dueDate === 'string' && !isNaN(new Date(bill.dueDate).getTime()) &&
+  typeof bill.isPaid === 'boolean' &&
+  typeof bill.isRecurring === 'boolean' &&
+  typeof bill.category === 'string' &&
+  (bill.attachments === undefined || (Array.isArray(bill.attachments) && bill.attachments.every(isValidAttachment)));
+
+const isValidBackupAttachment = (file: any): file is BackupAttachment =>
+  !!file && typeof file.path === 'string' && typeof file.data === 'string';
+
+const isValidSeries = (series: any): series is BillSeries =>
+  !!series &&
+  typeof series.id === 'string' &&
+  typeof series.name === 'string' &&
+  typeof series.amount === 'number' &&
+  typeof series.anchorDate === 'string' &&
+  typeof series.isActive === 'boolean';
+
+const isValidCategory = (category: any): category is Category =>
+  !!category &&
+  typeof category.id === 'string' &&
+  typeof category.icon === 'string' &&
+  typeof category.color === 'string' &&
+  (category.budget === undefined || (typeof category.budget.amount === 'number' && typeof category.budget.currency === 'string'));
+
+// Throws with a message meant for the user
+export const parseBackup = (text: string): BackupFile => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('backup.error.notJson'));
+  }
+
+  if (data?.app !== BACKUP_APP || typeof data.version !== 'number') {
+    throw new Error(t('backup.error.notBackup'));
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error(t('backup.error.newerVersion', { version: data.version }));
+  }
+  if (!Array.isArray(data.bills) || !Array.isArray(data.series ?? []) || !Array.isArray(data.categories ?? []) || !Array.isArray(data.attachments ?? [])) {
+    throw new Error(t('backup.error.corrupted'));
+  }
+
+  const invalid = data.bills.findIndex((b: any) => !isValidBill(b));
+  if (invalid !== -1) throw new Error(t('backup.error.invalidBill', { n: invalid + 1 }));
+  if ((data.series ?? []).some((s: any) => !isValidSeries(s))) throw new Error(t('backup.error.invalidSeries'));
+  if ((data.categories ?? []).some((c: any) => !isValidCategory(c))) throw new Error(t('backup.error.invalidCategory'));
+  if ((data.attachments ?? []).some((f: any) => !isValidBackupAttachment(f))) throw new Error(t('backup.error.invalidAttachment'));
+
+  return {
+    app: BACKUP_APP,
+    version: data.version,
+    exportedAt: data.exportedAt,
+    bills: data.bills.map(withCategoryKey),
+    series: (data.series ?? []).map(withCategoryKey),
+    categories: data.categories ?? [],
+    settings: { ...DEFAULT_SETTINGS, ...data.settings },
+    attachments: data.attachments ?? []
+  };
+};
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestorePlan {
+  added: number;
+  changed: number;
+  removed: number; // Only when replacing
+  unchanged: number;
+  mutations: Mutation[];
+}
+
+// Key order and missing optional fields don't make two versions different
+const stableJson = (value: object): string => {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+};
+
+// Ids and household are store specific, the rest is content
+const billContent = ({ id, householdId, ...content }: Bill) => stableJson(content);
+
+const seriesContent = ({ householdId, ...content }: BillSeries) => stableJson(content);
+
+const categoryContent = ({ householdId, ...content }: Category) => stableJson(content);
+
+// Backup bills are matched by id first, then by name and month, so a backup restored into
+// another account or device updates bills instead of duplicating them.
+export const planRestore = (
+  backup: BackupFile,
+  currentBills: Bill[],
+  currentSeries: BillSeries[],
+  currentCategories: Category[],
+  mode: RestoreMode,
+  householdId?: string
+): RestorePlan => {
+  const plan: RestorePlan = { added: 0, changed: 0, removed: 0, unchanged: 0, mutations: [] };
+  const matched = new Set<string>();
+  const inserts: Bill[] = [];
+
+  // Series ids are unique across all accounts. A series the current scope doesn't have may still exist
+  // in the account the backup came from, so it's stored under a new id and its bills are relinked.
+  const seriesIds = new Map(
+    backup.series.filter(s => !currentSeries.some(c => c.id === s.id)).map(s => [s.id, crypto.randomUUID()])
+  );
+  const restoredSeries = backup.series.map(s => ({ ...s, id: seriesIds.get(s.id) ?? s.id }));
+  const restoredBills = backup.bills.map(b => b.seriesId && seriesIds.has(b.seriesId) ? { ...b, seriesId: seriesIds.get(b.seriesId) } : b);
+
+  backup.categories.forEach(category => {
+    const existing = currentCategories.find(c => c.id === category.id);
+    if (!existing || categoryContent(existing) !== categoryContent(category)) {
+      plan.mutations.push({ kind: 'saveCategory', category: { ...category, householdId } });
+    }
+  });
+
+  restoredSeries.forEach(series => {
+    const existing = currentSeries.find(s => s.id === series.id);
+    if (!existing || seriesContent(existing) !== seriesContent(series)) {
+      plan.mutations.push({ kind: 'saveSeries', series: { ...series, householdId } });
+    }
+  });
+
+  restoredBills.forEach(bill => {
+    const existing = currentBills.find(b => b.id === bill.id)
+      ?? findDuplicateBill(currentBills.filter(b => !matched.has(b.id)), bill.name, new Date(bill.dueDate));
+
+    if (!existing) {
+      inserts.push({ ...bill, id: createTempId(), householdId });
+      plan.added++;
+      return;
+    }
+
+    matched.add(existing.id);
+    if (billContent(existing) === billContent(bill)) {
+      plan.unchanged++;
+      return;
+    }
+    // Fields the backup doesn't have are cleared, so the bill ends up exactly as backed up
+    const cleared: Record<string, null> = {};
+    Object.keys(existing).filter(key => key !== 'id' && key !== 'householdId').forEach(key => { cleared[key] = null; });
+    const { id, householdId: backupHouseholdId, ...content } = bill;
+    const changes: BillChanges = { ...cleared, ...content };
+    // Files the restored bill no longer links to go once the update is stored, like after an edit
+    const droppedAttachments = getDroppedAttachments(existing.attachments, bill.attachments).map(a => a.path);
+    plan.mutations.push({ kind: 'update', billId: existing.id, changes, droppedAttachments });
+    plan.changed++;
+  });
+
+  if (inserts.length > 0) plan.mutations.push({ kind: 'insert', bills: inserts });
+
+  if (mode === 'replace') {
+    currentBills.filter(b => !matched.has(b.id)).forEach(b => {
+      plan.mutations.push({ kind: 'delete', billId: b.id });
+      plan.removed++;
+    });
+    const keptSeries = new Set(restoredSeries.map(s => s.id));
+    currentSeries.filter(s => !keptSeries.has(s.id)).forEach(s => {
+      plan.mutations.push({ kind: 'deleteSeries', seriesId: s.id });
+    });
+    // Older backups have no categories, the current ones stay then
+    if (backup.categories.length > 0) {
+      const keptCategories = new Set(backup.categories.map(c => c.id));
+      currentCategories.filter(c => !keptCategories.has(c.id)).forEach(c => {
+        plan.mutations.push({ kind: 'deleteCategory', categoryId: c.id });
+      });
+    }
+  }
+
+  return plan;
+};
+
+// Uploads the backed up files that restored bills link to and the store doesn't hold yet (another device,
+// account or household), then points the bills at the new paths. Attachments without a file are dropped.
+export const restoreAttachments = async (
+  backup: BackupFile,
+  mutations: Mutation[],
+  currentBills: Bill[],
+  store: AttachmentStore
+): Promise<Mutation[]> => {
+  const stored = new Set(getAttachmentPaths(currentBills));
+  const linked = mutations.flatMap(m =>
+    m.kind === 'insert' ? m.bills.flatMap(b => b.attachments ?? [])
+      : m.kind === 'update' ? m.changes.attachments ?? []
+      : []
+  );
+
+  const paths = new Map<string, string>();
+  for (const attachment of linked) {
+    if (stored.has(attachment.path) || paths.has(attachment.path)) continue;
+    const file = backup.attachments.find(f => f.path === attachment.path);
+    if (!file) continue;
+    const uploaded = await store.upload(base64ToBlob(file.data, attachment.mimeType), attachment.name);
+    paths.set(attachment.path, uploaded.path);
+  }
+
+  const relink = (attachments?: Attachment[]): Attachment[] | undefined => {
+    const kept = (attachments ?? [])
+      .filter(a => stored.has(a.path) || paths.has(a.path))
+      .map(a => ({ ...a, path: paths.get(a.path) ?? a.path }));
+    return kept.length > 0 ? kept : undefined;
+  };
+
+  return mutations.map(m => {
+    if (m.kind === 'insert') return { ...m, bills: m.bills.map(b => ({ ...b, attachments: relink(b.attachments) })) };
+    if (m.kind === 'update' && m.changes.attachments) return { ...m, changes: { ...m.changes, attachments: relink(m.changes.attachments) } };
+    return m;
+  });
+};
@@ -0,0 +1,65 @@
+import { Bill } from './types';
+import { BillBatch } from './repositories';
+import { paymentChanges, togglePaymentChanges } from './payments';
+import { t } from './i18n';
+
+// Bulk actions on bills selected in the month list, each sent as a single batch
+
+export type BatchAction =
+  | { kind: 'markPaid' }
+  | { kind: 'markUnpaid' }
+  | { kind: 'delete' }
+  | { kind: 'setCategory'; categoryId: string }
+  | { kind: 'shiftDueDate'; days: number };
+
+const shiftDate = (iso: string, days: number): string => {
+  const date = new Date(iso);
+  date.setDate(date.getDate() + days); // Calendar days, the time of day survives DST changes
+  return date.toISOString();
+};
+
+// Bills the action wouldn't change are left out, so they don't bump anyone's live view
+export const planBatch = (bills: Bill[], action: BatchAction, userId?: string): BillBatch => {
+  switch (action.kind) {
+    case 'markPaid':
+      return {
+        updates: bills.filter(b => !b.isPaid).map(b => ({ billId: b.id, changes: togglePaymentChanges(b, userId) })),
+        deleteIds: []
+      };
+    case 'markUnpaid':
+      return {
+        updates: bills.filter(b => b.isPaid || (b.payments?.length ?? 0) > 0).map(b => ({ billId: b.id, changes: paymentChanges(b, []) })),
+        deleteIds: []
+      };
+    case 'delete':
+      return { updates: [], deleteIds: bills.map(b => b.id) };
+    case 'setCategory':
+      return {
+        updates: bills.filter(b => b.category !== action.categoryId).map(b => ({ billId: b.id, changes: { category: action.categoryId } })),
+        deleteIds: []
+      };
+    case 'shiftDueDate':
+      return {
+        updates: action.days === 0 ? [] : bills.map(b => ({ billId: b.id, changes: { dueDate: shiftDate(b.dueDate, action.days) } })),
+        deleteIds: []
+      };
+  }
+};
+
+export const isEmptyBatch = (batch: BillBatch): boolean => batch.updates.length === 0 && batch.deleteIds.length === 0;
+
+// Text of the one confirmation shown for the whole batch
+export const describeBatchAction = (action: BatchAction, count: number, categoryName?: string): string => {
+  switch (action.kind) {
+    case 'markPaid':
+      return t('batch.confirm.markPaid', { n: count });
+    case 'markUnpaid':
+      return t('batch.confirm.markUnpaid', { n: count });
+    case 'delete':
+      return t('batch.confirm.delete', { n: count });
+    case 'setCategory':
+      return t('batch.confirm.setCategory', { n: count, name: categoryName ?? '' });
+    case 'shiftDueDate':
+      return t('batch.confirm.shift', { n: count, days: action.days > 0 ? `+${action.days}` : String(action.days) });
+  }
+};
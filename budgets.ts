@@ -0,0 +1,72 @@
+import { Bill, BudgetPeriod, Category, CategoryBudget } from './types';
+import { ExchangeRateTable, convertAmount, getBillCurrency } from './currency';
+import { getOutgoings } from './income';
+
+// Category budgets count every bill due in the period, paid or not, converted to the base currency
+
+export interface BudgetStatus {
+  category: Category;
+  period: BudgetPeriod;
+  limit: number; // In the base currency
+  spent: number;
+}
+
+// Start and end (exclusive) of the month or year that contains `date`
+const periodRange = (period: BudgetPeriod, date: Date): [Date, Date] => period === 'month'
+  ? [new Date(date.getFullYear(), date.getMonth(), 1), new Date(date.getFullYear(), date.getMonth() + 1, 1)]
+  : [new Date(date.getFullYear(), 0, 1), new Date(date.getFullYear() + 1, 0, 1)];
+
+export const getBudgetLimit = (budget: CategoryBudget, baseCurrency: string, rates: ExchangeRateTable): number =>
+  convertAmount(budget.amount, budget.currency, baseCurrency, rates);
+
+// Monthly budgets add up to twelve times their amount
+export const getYearlyBudgetLimit = (budget: CategoryBudget, baseCurrency: string, rates: ExchangeRateTable): number =>
+  getBudgetLimit(budget, baseCurrency, rates) * (budget.period === 'month' ? 12 : 1);
+
+const spentIn = (bills: Bill[], categoryId: string, [start, end]: [Date, Date], baseCurrency: string, rates: ExchangeRateTable): number =>
+  getOutgoings(bills)
+    .filter(b => b.category === categoryId)
+    .filter(b => {
+      const due = new Date(b.dueDate);
+      return due >= start && due < end;
+    })
+    .reduce((sum, b) => sum + convertAmount(b.amount, getBillCurrency(b), baseCurrency, rates), 0);
+
+const budgetStatus = (category: Category, bills: Bill[], date: Date, baseCurrency: string, rates: ExchangeRateTable): BudgetStatus | null => {
+  if (!category.budget) return null;
+  const { period } = category.budget;
+  return {
+    category,
+    period,
+    limit: getBudgetLimit(category.budget, baseCurrency, rates),
+    spent: spentIn(bills, category.id, periodRange(period, date), baseCurrency, rates)
+  };
+};
+
+// Every budgeted category, measured over its own month or year around `date`
+export const getBudgetStatuses = (
+  bills: Bill[],
+  categories: Category[],
+  date: Date,
+  baseCurrency: string,
+  rates: ExchangeRateTable
+): BudgetStatus[] =>
+  categories
+    .map(c => budgetStatus(c, bills, date, baseCurrency, rates))
+    .filter((s): s is BudgetStatus => s !== null)
+    .sort((a, b) => b.spent / b.limit - a.spent / a.limit);
+
+// The budget a bill would overrun once saved. `bill.id` is left out of the bills, so edits aren't counted twice.
+export const findBudgetOverrun = (
+  bill: Pick<Bill, 'id' | 'amount' | 'currency' | 'dueDate' | 'category'>,
+  bills: Bill[],
+  category: Category,
+  baseCurrency: string,
+  rates: ExchangeRateTable
+): BudgetStatus | null => {
+  const others = bills.filter(b => b.id !== bill.id);
+  const status = budgetStatus(category, others, new Date(bill.dueDate), baseCurrency, rates);
+  if (!status) return null;
+  const spent = status.spent + convertAmount(bill.amount, getBillCurrency(bill), baseCurrency, rates);
+  return spent > status.limit ? { ...status, spent } : null;
+};
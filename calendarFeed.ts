@@ -0,0 +1,63 @@
+import { supabase, getFunctionUrl } from './supabaseClient';
+
+// Subscribable calendar: the app publishes the rendered .ics to calendar_feeds and the
+// calendar-feed edge function serves it to calendar apps under a secret token.
+
+const FEED_TABLE = 'calendar_feeds';
+
+// Calendar apps subscribe to webcal:// links, plain https:// works for "add by URL"
+export const getFeedUrl = (token: string): string =>
+  `${getFunctionUrl('calendar-feed')}?token=${encodeURIComponent(token)}`;
+
+export const getWebcalUrl = (token: string): string => getFeedUrl(token).replace(/^https?:\/\//, 'webcal://');
+
+const requireUserId = async (): Promise<string> => {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) throw new Error("NOT_AUTHENTICATED");
+  return userId;
+};
+
+// Returns the token of the signed-in user's feed, null when the feed is off
+export const getCalendarFeedToken = async (): Promise<string | null> => {
+  const { data, error } = await supabase.from(FEED_TABLE).select('token').maybeSingle();
+  if (error) throw error;
+  return data?.token ?? null;
+};
+
+// Creates the feed (or refreshes its content) and returns its token
+export const enableCalendarFeed = async (ics: string): Promise<string> => {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from(FEED_TABLE)
+    .upsert({ owner_id: userId, ics, updated_at: new Date().toISOString() }, { onConflict: 'owner_id' })
+    .select('token')
+    .single();
+  if (error) throw error;
+  return data.token;
+};
+
+export const publishCalendarFeed = async (ics: string) => {
+  const userId = await requireUserId();
+  const { error } = await supabase
+    .from(FEED_TABLE)
+    .update({ ics, updated_at: new Date().toISOString() })
+    .eq('owner_id', userId);
+  if (error) throw error;
+};
+
+// A new token invalidates every subscription made with the old address
+export const regenerateCalendarFeedToken = async (): Promise<string> => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const token = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  const userId = await requireUserId();
+  const { error } = await supabase.from(FEED_TABLE).update({ token }).eq('owner_id', userId);
+  if (error) throw error;
+  return token;
+};
+
+export const disableCalendarFeed = async () => {
+  const userId = await requireUserId();
+  const { error } = await supabase.from(FEED_TABLE).delete().eq('owner_id', userId);
+  if (error) throw error;
+};
@@ -0,0 +1,66 @@
+import { Category, DEFAULT_CATEGORY_LABELS, DefaultCategory } from './types';
+import { allTranslations, getIntlLocale, t } from './i18n';
+
+// Categories are user data: bills refer to them by id, name, icon and color can be edited.
+// Every scope starts with the defaults below, stored like any other category.
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: DefaultCategory.HOUSE, icon: '🏠', color: '#60a5fa' },
+  { id: DefaultCategory.MEDIA, icon: '⚡', color: '#facc15' },
+  { id: DefaultCategory.INSURANCE, icon: '🛡️', color: '#34d399' },
+  { id: DefaultCategory.SUBSCRIPTION, icon: '🎬', color: '#f472b6' },
+  { id: DefaultCategory.CREDIT, icon: '🏦', color: '#fb923c' },
+  { id: DefaultCategory.OTHER, icon: '📦', color: '#a78bfa' },
+];
+
+// Offered in the category editor
+export const CATEGORY_COLORS = ['#60a5fa', '#22d3ee', '#34d399', '#a3e635', '#facc15', '#fb923c', '#f87171', '#f472b6', '#a78bfa', '#9ca3af'];
+
+// Categories used to be stored as their Polish labels, then as the default ids
+const LEGACY_CATEGORIES: Record<string, DefaultCategory> = {
+  'Dom': DefaultCategory.HOUSE,
+  'Media': DefaultCategory.MEDIA,
+  'Ubezpieczenia': DefaultCategory.INSURANCE,
+  'Subskrypcje': DefaultCategory.SUBSCRIPTION,
+  'Kredyt': DefaultCategory.CREDIT,
+  'Inne': DefaultCategory.OTHER
+};
+
+// Ids of user-defined categories are kept as they are, an empty value files the bill under "other"
+export const normalizeCategory = (value: string): string => LEGACY_CATEGORIES[value] ?? (value || DefaultCategory.OTHER);
+
+// For bills and series read from caches and files written before the keys existed
+export const withCategoryKey = <T extends { category: string }>(item: T): T => ({
+  ...item,
+  category: normalizeCategory(item.category)
+});
+
+const defaultLabel = (id: string): string | undefined => {
+  const key = DEFAULT_CATEGORY_LABELS[id as DefaultCategory];
+  return key ? t(key) : undefined;
+};
+
+export const getCategoryName = (category: Category): string =>
+  category.name || defaultLabel(category.id) || category.id;
+
+// Bills can outlive their category (deleted on another device), they still need something to show
+export const findCategory = (categories: Category[], id: string): Category =>
+  categories.find(c => c.id === id)
+  ?? DEFAULT_CATEGORIES.find(c => c.id === id)
+  ?? { id, name: t('category.unknown'), icon: '❔', color: '#9ca3af' };
+
+export const getCategoryLabel = (categories: Category[], id: string): string => getCategoryName(findCategory(categories, id));
+
+export const sortCategories = (categories: Category[]): Category[] =>
+  [...categories].sort((a, b) => getCategoryName(a).localeCompare(getCategoryName(b), getIntlLocale()));
+
+// Matches ids and names; default categories also by their label in any locale
+export const matchCategory = (categories: Category[], value: string): Category | undefined => {
+  const normalize = (text: string) => text.trim().toLowerCase();
+  const wanted = normalize(value);
+  return categories.find(c => {
+    const key = DEFAULT_CATEGORY_LABELS[c.id as DefaultCategory];
+    const names = [c.id, getCategoryName(c), ...(key && !c.name ? allTranslations(key) : [])];
+    return names.some(name => normalize(name) === wanted);
+  });
+};
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Paperclip, Camera, FileText, Trash2, Loader2 } from 'lucide-react';
+import { Attachment } from '../types';
+import { AttachmentStore } from '../repositories';
+import { ACCEPTED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE, formatFileSize, isAcceptedAttachment, isImageAttachment } from '../attachments';
+import { t } from '../i18n';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  store: AttachmentStore;
+  readOnly?: boolean;
+  onAdd: (attachment: Attachment) => void; // Called once the file is uploaded
+  onRemove: (attachment: Attachment) => void;
+}
+
+// Resolves the URL lazily, signed and object URLs only live as long as the thumbnail
+const AttachmentThumb: React.FC<{ attachment: Attachment; store: AttachmentStore }> = ({ attachment, store }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let resolved: string | null = null;
+    let cancelled = false;
+    store.getUrl(attachment)
+      .then(next => {
+        resolved = next;
+        if (cancelled) URL.revokeObjectURL(next);
+        else setUrl(next);
+      })
+      .catch(e => console.error("Attachment preview failed", e));
+    return () => {
+      cancelled = true;
+      if (resolved) URL.revokeObjectURL(resolved);
+    };
+  }, [attachment.path, store]);
+
+  return (
+    <a
+      href={url ?? undefined}
+      target="_blank"
+      rel="noreferrer"
+      title={attachment.name}
+      className="block w-full aspect-square rounded-xl overflow-hidden bg-white/5 border border-white/10"
+    >
+      {url && isImageAttachment(attachment) ? (
+        <img src={url} alt={attachment.name} className="w-full h-full object-cover" />
+      ) : (
+        <span className="w-full h-full flex flex-col items-center justify-center gap-1 p-2 text-white/50">
+          <FileText size={24} />
+          <span className="text-[10px] w-full text-center truncate">{attachment.name}</span>
+        </span>
+      )}
+    </a>
+  );
+};
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, store, readOnly = false, onAdd, onRemove }) => {
+  const [uploading, setUploading] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Picking the same file again still fires a change
+    setError(null);
+
+    for (const file of files) {
+      if (!isAcceptedAttachment(file)) {
+        setError(t('attachments.error.type', { name: file.name }));
+        continue;
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        setError(t('attachments.error.size', { name: file.name, max: formatFileSize(MAX_ATTACHMENT_SIZE) }));
+        continue;
+      }
+      setUploading(n => n + 1);
+      try {
+        onAdd(await store.upload(file, file.name));
+      } catch (err) {
+        console.error("Attachment upload failed", err);
+        setError(t('attachments.error.upload', { name: file.name }));
+      } finally {
+        setUploading(n => n - 1);
+      }
+    }
+  };
+
+  if (readOnly && attachments.length === 0) return null;
+
+  const buttonClass = "flex-1 flex items-center justify-center gap-2 py-2 rounded-xl text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 cursor-pointer transition-colors";
+
+  return (
+    <div className="p-4 bg-white/5 rounded-2xl border border-white/5 space-y-3">
+      <div className="flex items-center gap-2 text-white/60">
+        <Paperclip size={14} />
+        <span className="text-xs font-bold uppercase tracking-wide">{t('attachments.title')}</span>
+      </div>
+
+      {(attachments.length > 0 || uploading > 0) && (
+        <div className="grid grid-cols-3 gap-2">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="relative">
+              <AttachmentThumb attachment={attachment} store={store} />
+              <span className="block mt-1 text-[10px] text-white/40 truncate">{formatFileSize(attachment.size)}</span>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(attachment)}
+                  className="absolute top-1 right-1 p-1.5 rounded-lg bg-black/60 text-red-400 hover:bg-black/80"
+                  title={t('common.delete')}
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+          {uploading > 0 && (
+            <div className="w-full aspect-square rounded-xl bg-white/5 border border-dashed border-white/20 flex items-center justify-center text-white/40">
+              <Loader2 size={20} className="animate-spin" />
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {!readOnly && (
+        <div className="flex gap-2">
+          <label className={buttonClass}>
+            <Paperclip size={14} /> {t('attachments.addFile')}
+            <input type="file" accept={ACCEPTED_ATTACHMENT_TYPES} multiple onChange={handleFiles} className="hidden" />
+          </label>
+          <label className={buttonClass}>
+            <Camera size={14} /> {t('attachments.takePhoto')}
+            <input type="file" accept="image/*" capture="environment" onChange={handleFiles} className="hidden" />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
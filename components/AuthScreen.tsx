@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Mail, Lock, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { GlassCard } from './ui/GlassCard';
+import { isMagicLinkAvailable, sendMagicLink, signInWithPassword, signUpWithPassword } from '../auth';
+import { t } from '../i18n';
+
+type AuthMode = 'signIn' | 'signUp' | 'magicLink';
+
+interface AuthScreenProps {
+  onUseLocally?: () => void;
+}
+
+export const AuthScreen: React.FC<AuthScreenProps> = ({ onUseLocally }) => {
+  const [mode, setMode] = useState<AuthMode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setInfo(null);
+
+    if (!email || (mode !== 'magicLink' && !password)) {
+        setError(t('edit.error.required'));
+        return;
+    }
+
+    setBusy(true);
+    try {
+        if (mode === 'signIn') {
+            await signInWithPassword(email.trim(), password);
+        } else if (mode === 'signUp') {
+            const needsConfirmation = await signUpWithPassword(email.trim(), password);
+            if (needsConfirmation) setInfo(t('auth.confirmEmail'));
+        } else {
+            await sendMagicLink(email.trim());
+            setInfo(t('auth.linkSent'));
+        }
+    } catch (err: any) {
+        console.error("Auth error:", err);
+        setError(err?.message === 'Invalid login credentials'
+            ? t('auth.error.credentials')
+            : t('auth.error.failed'));
+    } finally {
+        setBusy(false);
+    }
+  };
+
+  const modes: { label: string; val: AuthMode }[] = [
+    { label: t('auth.mode.signIn'), val: 'signIn' },
+    { label: t('auth.mode.signUp'), val: 'signUp' },
+    ...(isMagicLinkAvailable ? [{ label: t('auth.mode.magicLink'), val: 'magicLink' as const }] : []),
+  ];
+
+  return (
+    <div className="px-6 mt-8 animate-enter-ios">
+      <GlassCard className="p-6">
+        <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400 mb-1">
+          {t('auth.title')}
+        </h2>
+        <p className="text-xs text-white/40 mb-6">{t('auth.hint')}</p>
+
+        <div className={`grid ${isMagicLinkAvailable ? 'grid-cols-3' : 'grid-cols-2'} gap-2 mb-5`}>
+          {modes.map((opt) => (
+            <button
+              key={opt.val}
+              type="button"
+              onClick={() => { setMode(opt.val); setError(null); setInfo(null); }}
+              className={`py-2 px-2 rounded-xl text-xs font-medium transition-all ${mode === opt.val ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+                <AlertCircle size={18} />
+                <span>{error}</span>
+            </div>
+        )}
+
+        {info && (
+            <div className="mb-4 p-3 bg-green-500/10 border border-green-500/20 rounded-xl flex items-center gap-3 text-green-400 text-sm">
+                <CheckCircle2 size={18} />
+                <span>{info}</span>
+            </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1 flex items-center gap-1">
+              <Mail size={12} /> E-mail
+            </label>
+            <input
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder={t('auth.emailPlaceholder')}
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:bg-white/10 transition-all"
+            />
+          </div>
+
+          {mode !== 'magicLink' && (
+            <div className="space-y-2">
+              <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1 flex items-center gap-1">
+                <Lock size={12} /> {t('auth.password')}
+              </label>
+              <input
+                type="password"
+                autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:bg-white/10 transition-all"
+              />
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full py-4 bg-white text-black font-bold rounded-2xl shadow-lg shadow-white/10 hover:scale-[1.02] transition-transform flex items-center justify-center gap-2 disabled:opacity-60"
+          >
+            {busy && <Loader2 size={18} className="animate-spin" />}
+            {mode === 'signIn' ? t('auth.submit.signIn') : mode === 'signUp' ? t('auth.submit.signUp') : t('auth.submit.magicLink')}
+          </button>
+        </form>
+
+        {onUseLocally && (
+          <button
+            onClick={onUseLocally}
+            className="w-full mt-4 text-xs text-white/50 underline hover:text-white transition-colors"
+          >
+            {t('app.useLocally')}
+          </button>
+        )}
+      </GlassCard>
+    </div>
+  );
+};
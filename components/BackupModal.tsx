@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Download, FileUp, AlertCircle, ArchiveRestore } from 'lucide-react';
+import { Bill, BillSeries, Category } from '../types';
+import { BackupFile, RestoreMode, RestorePlan, parseBackup, planRestore } from '../backup';
+import { getIntlLocale, t } from '../i18n';
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bills: Bill[];
+  seriesRules: BillSeries[];
+  categories: Category[];
+  householdId?: string;
+  canRestore: boolean; // Household viewers can only export
+  onExport: () => Promise<void>; // Reads every attachment, can take a while
+  onRestore: (backup: BackupFile, plan: RestorePlan) => Promise<void>; // Uploads attachments before changing anything
+}
+
+export const BackupModal: React.FC<BackupModalProps> = ({
+  isOpen,
+  onClose,
+  bills,
+  seriesRules,
+  categories,
+  householdId,
+  canRestore,
+  onExport,
+  onRestore
+}) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setBackup(null);
+      setFileName('');
+      setMode('merge');
+      setError(null);
+      setIsBusy(false);
+    }
+  }, [isOpen]);
+
+  const plan = useMemo(
+    () => backup ? planRestore(backup, bills, seriesRules, categories, mode, householdId) : null,
+    [backup, bills, seriesRules, categories, mode, householdId]
+  );
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setBackup(null);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setBackup(parseBackup(String(reader.result || '')));
+        setFileName(file.name);
+      } catch (err: any) {
+        setError(err?.message || t('backup.error.load'));
+      }
+    };
+    reader.onerror = () => setError(t('common.error.fileRead'));
+    reader.readAsText(file);
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await onExport();
+    } catch (err) {
+      console.error("Backup export failed", err);
+      setError(t('backup.error.export'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Settings are restored too, so this runs even when no bill changes
+  const handleRestore = async () => {
+    if (!backup || !plan) return;
+    if (mode === 'replace' && plan.removed > 0 && !confirm(t('backup.confirm.replace', { n: plan.removed }))) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      await onRestore(backup, plan);
+      onClose();
+    } catch (err) {
+      console.error("Backup restore failed", err);
+      setError(t('backup.error.attachments'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const optionClass = (selected: boolean) =>
+    `py-2 px-3 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  const summary = plan && [
+    t('backup.summary.added', { n: plan.added }),
+    t('backup.summary.changed', { n: plan.changed }),
+    mode === 'replace' ? t('backup.summary.removed', { n: plan.removed }) : null,
+    t('backup.summary.unchanged', { n: plan.unchanged })
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('backup.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+                <AlertCircle size={18} />
+                <span>{error}</span>
+            </div>
+        )}
+
+        <div className="space-y-5">
+          {/* Export */}
+          <div className="p-4 bg-white/5 rounded-2xl border border-white/5">
+            <p className="text-xs text-white/40 mb-3">{t('backup.exportHint')}</p>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isBusy}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-white/10 hover:bg-white/20 text-white text-sm font-bold rounded-xl transition-colors disabled:opacity-50"
+            >
+              <Download size={16} /> {isBusy ? t('backup.working') : t('backup.download', { n: bills.length })}
+            </button>
+          </div>
+
+          {/* Restore */}
+          {canRestore && (
+            <div className="p-4 bg-white/5 rounded-2xl border border-white/5 space-y-3">
+              <div className="flex items-center gap-2 text-white/60">
+                <ArchiveRestore size={14} />
+                <span className="text-xs font-bold uppercase tracking-wide">{t('backup.restoreTitle')}</span>
+              </div>
+
+              <label className="flex items-center justify-center gap-3 p-3 bg-white/5 hover:bg-white/10 rounded-xl border border-dashed border-white/20 cursor-pointer transition-colors">
+                <FileUp size={16} className="text-white/60" />
+                <span className="text-sm text-white/70 truncate">{fileName || t('backup.chooseFile')}</span>
+                <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+              </label>
+
+              {backup && plan && (
+                <>
+                  <p className="text-xs text-white/40">
+                    {t('backup.info', { date: new Date(backup.exportedAt).toLocaleString(getIntlLocale()), bills: backup.bills.length, series: backup.series.length })}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button type="button" onClick={() => setMode('merge')} className={optionClass(mode === 'merge')}>
+                      {t('backup.mode.merge')}
+                    </button>
+                    <button type="button" onClick={() => setMode('replace')} className={optionClass(mode === 'replace')}>
+                      {t('backup.mode.replace')}
+                    </button>
+                  </div>
+                  <p className="text-sm text-white font-medium text-center">{summary}</p>
+                  <button
+                    type="button"
+                    onClick={handleRestore}
+                    disabled={isBusy}
+                    className="w-full py-3 bg-white text-black font-bold rounded-xl transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:hover:scale-100"
+                  >
+                    {isBusy ? t('backup.working') : t('backup.restore')}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle2, Circle, Trash2, Tag, CalendarClock, X } from 'lucide-react';
+import { Category } from '../types';
+import { BatchAction } from '../batchActions';
+import { getCategoryName, sortCategories } from '../categories';
+import { t } from '../i18n';
+
+interface BatchActionBarProps {
+  count: number; // Selected bills
+  categories: Category[];
+  onApply: (action: BatchAction) => void;
+  onCancel: () => void;
+}
+
+type Panel = 'category' | 'shift' | null;
+
+export const BatchActionBar: React.FC<BatchActionBarProps> = ({ count, categories, onApply, onCancel }) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [days, setDays] = useState('7');
+
+  useEffect(() => {
+    if (count === 0) setPanel(null);
+  }, [count]);
+
+  const disabled = count === 0;
+  const shiftDays = parseInt(days);
+
+  const actionClass = "flex-1 flex flex-col items-center gap-1 py-2 rounded-xl text-[10px] font-medium text-white/70 hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  const togglePanel = (next: Panel) => setPanel(panel === next ? null : next);
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 z-50 px-4 pb-8 pt-4 bg-gradient-to-t from-black via-black/90 to-transparent">
+      <div className="max-w-md mx-auto bg-[#1a1a1a] border border-white/10 rounded-3xl shadow-2xl p-3 animate-slide-up">
+        {panel === 'category' && (
+          <div className="grid grid-cols-3 gap-2 mb-3 max-h-40 overflow-y-auto no-scrollbar">
+            {sortCategories(categories).map(cat => (
+              <button
+                key={cat.id}
+                type="button"
+                onClick={() => onApply({ kind: 'setCategory', categoryId: cat.id })}
+                className="py-2 px-2 rounded-xl text-xs font-medium bg-white/5 text-white/70 hover:bg-white/10 truncate"
+              >
+                {cat.icon} {getCategoryName(cat)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {panel === 'shift' && (
+          <div className="flex items-center gap-2 mb-3">
+            <input
+              type="number"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              className="w-20 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all"
+            />
+            <span className="text-xs text-white/50 flex-1">{t('batch.shiftDays')}</span>
+            <button
+              type="button"
+              disabled={!shiftDays}
+              onClick={() => onApply({ kind: 'shiftDueDate', days: shiftDays })}
+              className="px-4 py-2 rounded-xl text-xs font-bold bg-blue-500 text-white disabled:opacity-40"
+            >
+              {t('batch.apply')}
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between px-2 mb-2">
+          <span className="text-xs font-bold text-white/60">{t('batch.selected', { n: count })}</span>
+          <button type="button" onClick={onCancel} className="p-1 rounded-full hover:bg-white/10 text-white/50" title={t('common.cancel')}>
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex gap-1">
+          <button type="button" disabled={disabled} onClick={() => onApply({ kind: 'markPaid' })} className={actionClass}>
+            <CheckCircle2 size={18} className="text-green-300" /> {t('batch.markPaid')}
+          </button>
+          <button type="button" disabled={disabled} onClick={() => onApply({ kind: 'markUnpaid' })} className={actionClass}>
+            <Circle size={18} className="text-red-300" /> {t('batch.markUnpaid')}
+          </button>
+          <button type="button" disabled={disabled} onClick={() => togglePanel('category')} className={`${actionClass} ${panel === 'category' ? 'bg-white/10' : ''}`}>
+            <Tag size={18} /> {t('field.category')}
+          </button>
+          <button type="button" disabled={disabled} onClick={() => togglePanel('shift')} className={`${actionClass} ${panel === 'shift' ? 'bg-white/10' : ''}`}>
+            <CalendarClock size={18} /> {t('batch.shift')}
+          </button>
+          <button type="button" disabled={disabled} onClick={() => onApply({ kind: 'delete' })} className={actionClass}>
+            <Trash2 size={18} className="text-red-400" /> {t('common.delete')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
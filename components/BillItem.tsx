@@ -1,21 +1,44 @@
 import React from 'react';
-import { CheckCircle2, Circle, Edit2 } from 'lucide-react';
-import { Bill, CATEGORY_ICONS } from '../types';
+import { CheckCircle2, Circle, Edit2, Eye, AlertTriangle, TrendingUp, CheckSquare, Square } from 'lucide-react';
+import { Bill, Category } from '../types';
 import { formatCurrency, formatDate } from '../utils';
+import { describeRecurrence, getRecurrenceRule } from '../recurrence';
+import { getInstallmentLabel } from '../installments';
+import { getRemainingAmount, isPartiallyPaid } from '../payments';
+import { formatDaysOverdue, getDaysOverdue } from '../overdue';
+import { getBillCurrency } from '../currency';
+import { PriceChange } from '../priceChanges';
 import { GlassCard } from './ui/GlassCard';
+import { t } from '../i18n';
+import { getCategoryName } from '../categories';
 
 interface BillItemProps {
   bill: Bill;
+  category: Category; // Resolved from bill.category by the list
   onTogglePaid: (id: string) => void;
   onEdit: (bill: Bill) => void;
   index: number;
+  readOnly?: boolean; // Household viewers can only look at bills
+  paidByLabel?: string; // Who marked the bill as paid, shown in shared households
+  priceIncrease?: PriceChange; // Recent increase of the bill's series
+  onSelect?: (id: string) => void; // Set in selection mode, tapping then selects instead of toggling paid
+  selected?: boolean;
 }
 
-export const BillItem: React.FC<BillItemProps> = ({ bill, onTogglePaid, onEdit, index }) => {
+export const BillItem: React.FC<BillItemProps> = ({ bill, category, onTogglePaid, onEdit, index, readOnly = false, paidByLabel, priceIncrease, onSelect, selected = false }) => {
+  const installmentLabel = getInstallmentLabel(bill);
+  const isPartial = isPartiallyPaid(bill);
   const isPaid = bill.isPaid;
+  const isIncome = !!bill.isIncome; // Paid then means received
+  const daysOverdue = getDaysOverdue(bill);
+  const isOverdue = daysOverdue > 0;
   // Added !important to ensure colors override glass defaults on iOS
-  const statusColor = isPaid ? '!bg-green-500/30 !border-green-400/40' : '!bg-red-500/30 !border-red-400/40';
-  const iconColor = isPaid ? 'text-green-300' : 'text-red-300';
+  const statusColor = isPaid ? '!bg-green-500/30 !border-green-400/40' : isOverdue ? '!bg-orange-600/30 !border-orange-400/70' : isIncome ? '!bg-sky-500/20 !border-sky-400/40' : '!bg-red-500/30 !border-red-400/40';
+  const iconColor = isPaid ? 'text-green-300' : isOverdue ? 'text-orange-300' : isIncome ? 'text-sky-300' : 'text-red-300';
+  const statusLabel = isIncome
+    ? (isPaid ? t('status.received') : t('status.expected'))
+    : isPaid ? t('status.paid') : isOverdue ? t('status.overdue') : isPartial ? t('status.partial') : t('status.unpaid');
+  const currency = getBillCurrency(bill); // Always the original amount, totals elsewhere are converted
 
   return (
     <div 
@@ -23,9 +46,9 @@ export const BillItem: React.FC<BillItemProps> = ({ bill, onTogglePaid, onEdit,
       style={{ animationDelay: `${index * 60}ms` }}
     >
       <GlassCard 
-        className={`p-4 border ${statusColor}`}
-        interactive
-        onClick={() => onTogglePaid(bill.id)}
+        className={`p-4 border ${statusColor} ${selected ? 'ring-2 ring-blue-400' : ''}`}
+        interactive={!readOnly || !!onSelect}
+        onClick={onSelect ? () => onSelect(bill.id) : readOnly ? undefined : () => onTogglePaid(bill.id)}
       >
         {/* 
             Fix: Added an inner container with 'flex w-full' 
@@ -35,8 +58,12 @@ export const BillItem: React.FC<BillItemProps> = ({ bill, onTogglePaid, onEdit,
             
             {/* LEFT SIDE: Icon & Info */}
             <div className="flex items-center gap-4 flex-1 min-w-0">
-                <div className={`p-3 rounded-full bg-white/10 text-2xl shadow-inner shrink-0`}>
-                    {CATEGORY_ICONS[bill.category]}
+                <div
+                    className="p-3 rounded-full text-2xl shadow-inner shrink-0"
+                    style={{ backgroundColor: `${category.color}33` }}
+                    title={getCategoryName(category)}
+                >
+                    {category.icon}
                 </div>
                 
                 <div className="flex flex-col min-w-0 overflow-hidden">
@@ -44,8 +71,17 @@ export const BillItem: React.FC<BillItemProps> = ({ bill, onTogglePaid, onEdit,
                     {bill.name}
                     </span>
                     <span className="text-xs text-white/50 truncate">
-                    {formatDate(bill.dueDate)} • {bill.isRecurring ? '🔄 Cykliczny' : 'Jednorazowy'}
+                    {formatDate(bill.dueDate)} • {installmentLabel ? `🏁 ${installmentLabel}` : bill.isRecurring ? `🔄 ${describeRecurrence(getRecurrenceRule(bill))}` : t('bill.oneOff')}
                     </span>
+                    {priceIncrease && (
+                        <span className="text-[10px] text-amber-300/90 truncate flex items-center gap-1 mt-0.5">
+                            <TrendingUp size={10} className="shrink-0" />
+                            {t('priceChange.since', {
+                                amount: formatCurrency(priceIncrease.amount - priceIncrease.previousAmount, priceIncrease.currency),
+                                date: formatDate(priceIncrease.date)
+                            })} • {t('priceChange.perYear', { amount: formatCurrency(priceIncrease.annualImpact, priceIncrease.currency) })}
+                        </span>
+                    )}
                 </div>
             </div>
 
@@ -53,20 +89,36 @@ export const BillItem: React.FC<BillItemProps> = ({ bill, onTogglePaid, onEdit,
             <div className="flex items-center gap-3 ml-2 shrink-0">
                 <div className="flex flex-col items-end text-right">
                     <span className={`font-bold text-lg tracking-tight ${isPaid ? 'text-green-200' : 'text-white'}`}>
-                    {formatCurrency(bill.amount)}
+                    {isIncome && '+'}{formatCurrency(bill.amount, currency)}
                     </span>
                     <div className="flex items-center gap-1 mt-1">
                         {isPaid ? (
                             <CheckCircle2 size={14} className="text-green-300" />
+                        ) : isOverdue ? (
+                            <AlertTriangle size={14} className="text-orange-300" />
                         ) : (
                             <Circle size={14} className="text-red-300/70" />
                         )}
                         <span className={`text-[10px] uppercase tracking-wider font-bold ${iconColor}`}>
-                        {isPaid ? 'Zapłacone' : 'Do zapłaty'}
+                        {statusLabel}
                         </span>
                     </div>
+                    {isOverdue && (
+                        <span className="text-[10px] text-orange-300/80 mt-0.5">{t('overdue.pastDue', { days: formatDaysOverdue(daysOverdue) })}</span>
+                    )}
+                    {isPartial && (
+                        <span className="text-[10px] text-white/40 mt-0.5">{t('payments.remaining', { amount: formatCurrency(getRemainingAmount(bill), currency) })}</span>
+                    )}
+                    {isPaid && paidByLabel && (
+                        <span className="text-[10px] text-white/40 mt-0.5 max-w-[120px] truncate">{paidByLabel}</span>
+                    )}
                 </div>
 
+                {onSelect ? (
+                    <span className={`p-2.5 ml-1 ${selected ? 'text-blue-300' : 'text-white/40'}`}>
+                        {selected ? <CheckSquare size={18} /> : <Square size={18} />}
+                    </span>
+                ) : (
                 <button 
                     onClick={(e) => {
                         e.stopPropagation();
@@ -74,8 +126,9 @@ export const BillItem: React.FC<BillItemProps> = ({ bill, onTogglePaid, onEdit,
                     }}
                     className="p-2.5 ml-1 rounded-full bg-white/5 hover:bg-white/20 text-white/60 hover:text-white transition-all active:scale-90"
                 >
-                    <Edit2 size={16} />
+                    {readOnly ? <Eye size={16} /> : <Edit2 size={16} />}
                 </button>
+                )}
             </div>
         </div>
       </GlassCard>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { formatCurrency } from '../utils';
+import { BudgetStatus } from '../budgets';
+import { getCategoryName } from '../categories';
+import { GlassCard } from './ui/GlassCard';
+import { t } from '../i18n';
+
+interface BudgetProgressProps {
+  statuses: BudgetStatus[];
+  baseCurrency: string;
+}
+
+export const BudgetProgress: React.FC<BudgetProgressProps> = ({ statuses, baseCurrency }) => {
+  if (statuses.length === 0) return null;
+
+  return (
+    <div className="px-6 mt-8 animate-enter-ios" style={{ animationDelay: '50ms' }}>
+      <h2 className="text-sm font-bold text-white/40 uppercase tracking-widest mb-4 ml-1 flex items-center gap-2">
+        <Target size={14} /> {t('budget.title')}
+      </h2>
+      <GlassCard className="p-4 space-y-4">
+        {statuses.map(status => {
+          const isOver = status.spent > status.limit;
+          const progress = Math.min(100, (status.spent / status.limit) * 100);
+          return (
+            <div key={status.category.id}>
+              <div className="flex justify-between items-center text-sm mb-1">
+                <span className="flex items-center gap-2 text-white/80 min-w-0">
+                  <span>{status.category.icon}</span>
+                  <span className="truncate">{getCategoryName(status.category)}</span>
+                </span>
+                <span className={`font-bold shrink-0 ml-2 ${isOver ? 'text-red-300' : ''}`}>
+                  {t('budget.of', { spent: formatCurrency(status.spent, baseCurrency), limit: formatCurrency(status.limit, baseCurrency) })}
+                </span>
+              </div>
+              <div className="flex justify-between text-[10px] text-white/40 mb-1.5">
+                <span>{status.period === 'month' ? t('budget.thisMonth') : t('budget.thisYear')}</span>
+                <span className={isOver ? 'text-red-300/80' : ''}>
+                  {isOver
+                    ? t('budget.over', { amount: formatCurrency(status.spent - status.limit, baseCurrency) })
+                    : t('budget.left', { amount: formatCurrency(status.limit - status.spent, baseCurrency) })}
+                </span>
+              </div>
+              <div className="w-full bg-white/5 h-1.5 rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full transition-all duration-1000"
+                  style={{ width: `${progress}%`, backgroundColor: isOver ? '#f87171' : status.category.color }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </GlassCard>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, AlertCircle, CalendarPlus, Copy, RefreshCw, Loader2 } from 'lucide-react';
+import { Bill, BillSeries, Category } from '../types';
+import { CalendarOptions, PaidBillsMode, buildCalendar } from '../ical';
+import {
+  disableCalendarFeed,
+  enableCalendarFeed,
+  getCalendarFeedToken,
+  getFeedUrl,
+  getWebcalUrl,
+  regenerateCalendarFeedToken
+} from '../calendarFeed';
+import { MessageKey, t } from '../i18n';
+import { downloadFile } from '../utils';
+
+interface CalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bills: Bill[];
+  seriesRules: BillSeries[];
+  categories: Category[];
+  options: CalendarOptions;
+  onChangeOptions: (options: CalendarOptions) => void;
+  feedAvailable: boolean; // The feed lives in the cloud, so it needs a signed-in cloud account
+  feedEnabled: boolean;
+  onFeedEnabledChange: (enabled: boolean) => void;
+}
+
+const ALARM_OPTIONS: { label: MessageKey; params?: { n: number }; val: number | null }[] = [
+  { label: 'calendar.alarm.none', val: null },
+  { label: 'calendar.alarm.onDay', val: 0 },
+  { label: 'overdue.oneDay', val: 1 },
+  { label: 'overdue.days', params: { n: 3 }, val: 3 },
+  { label: 'overdue.days', params: { n: 7 }, val: 7 },
+];
+
+const PAID_OPTIONS: { label: MessageKey; val: PaidBillsMode }[] = [
+  { label: 'calendar.paid.completed', val: 'completed' },
+  { label: 'calendar.paid.exclude', val: 'exclude' },
+];
+
+export const CalendarModal: React.FC<CalendarModalProps> = ({
+  isOpen,
+  onClose,
+  bills,
+  seriesRules,
+  categories,
+  options,
+  onChangeOptions,
+  feedAvailable,
+  feedEnabled,
+  onFeedEnabledChange
+}) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setCopied(false);
+    if (!feedAvailable || !feedEnabled) {
+      setToken(null);
+      return;
+    }
+    getCalendarFeedToken()
+      .then(current => {
+        setToken(current);
+        // Turned off on another device or by another account signed in here
+        if (!current) onFeedEnabledChange(false);
+      })
+      .catch(err => {
+        console.error("Calendar feed load error:", err);
+        setError(t('calendar.error.load'));
+      });
+  }, [isOpen, feedAvailable, feedEnabled]);
+
+  // Wraps feed calls with a spinner and a user-facing error
+  const runFeedAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Calendar feed error:", err);
+      setError(t('calendar.error.action'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => runFeedAction(async () => {
+    setToken(await enableCalendarFeed(buildCalendar(bills, seriesRules, categories, options)));
+    onFeedEnabledChange(true);
+  });
+
+  const handleRegenerate = () => {
+    if (!confirm(t('calendar.confirm.regenerate'))) return;
+    runFeedAction(async () => {
+      setToken(await regenerateCalendarFeedToken());
+      setCopied(false);
+    });
+  };
+
+  const handleDisable = () => {
+    if (!confirm(t('calendar.confirm.disable'))) return;
+    runFeedAction(async () => {
+      await disableCalendarFeed();
+      setToken(null);
+      onFeedEnabledChange(false);
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(getFeedUrl(token));
+      setCopied(true);
+    } catch (e) {
+      setError(t('calendar.error.copy'));
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile(buildCalendar(bills, seriesRules, categories, options), `${t('calendar.fileName')}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  if (!isOpen) return null;
+
+  const optionClass = (selected: boolean) =>
+    `py-2 px-3 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('calendar.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+                <AlertCircle size={18} />
+                <span>{error}</span>
+            </div>
+        )}
+
+        <div className="space-y-5">
+          {/* Alarm */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('calendar.alarmLabel')}</label>
+            <div className="grid grid-cols-5 gap-2">
+              {ALARM_OPTIONS.map(opt => (
+                <button key={String(opt.val)} type="button" onClick={() => onChangeOptions({ ...options, alarmDaysBefore: opt.val })} className={optionClass(options.alarmDaysBefore === opt.val)}>
+                  {t(opt.label, opt.params)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Paid Bills */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('calendar.paidLabel')}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {PAID_OPTIONS.map(opt => (
+                <button key={opt.val} type="button" onClick={() => onChangeOptions({ ...options, paidBills: opt.val })} className={optionClass(options.paidBills === opt.val)}>
+                  {t(opt.label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="w-full py-4 bg-white text-black font-bold rounded-2xl shadow-lg shadow-white/10 hover:scale-[1.02] transition-transform flex items-center justify-center gap-2"
+          >
+            <Download size={18} /> {t('calendar.download')}
+          </button>
+
+          {/* Subscription */}
+          {feedAvailable && (
+            <div className="p-4 bg-white/5 rounded-2xl border border-white/5 space-y-3">
+              <div className="flex items-center gap-2 text-white/60">
+                <CalendarPlus size={14} />
+                <span className="text-xs font-bold uppercase tracking-wide">{t('calendar.feed')}</span>
+              </div>
+              <p className="text-xs text-white/40">
+                {t('calendar.feedHint')}
+              </p>
+
+              {!feedEnabled ? (
+                <button
+                  type="button"
+                  onClick={handleEnable}
+                  disabled={busy}
+                  className="w-full flex items-center justify-center gap-2 py-3 bg-white/10 hover:bg-white/20 text-white text-sm font-bold rounded-xl transition-colors disabled:opacity-40"
+                >
+                  {busy ? <Loader2 size={16} className="animate-spin" /> : <CalendarPlus size={16} />} {t('calendar.enable')}
+                </button>
+              ) : token ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <input
+                      readOnly
+                      value={getFeedUrl(token)}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-white/70 focus:outline-none"
+                    />
+                    <button type="button" onClick={handleCopy} className="p-2 rounded-xl bg-white/10 hover:bg-white/20 text-white/70 transition-colors" title={t('calendar.copy')}>
+                      <Copy size={16} />
+                    </button>
+                  </div>
+                  {copied && <p className="text-xs text-green-400">{t('calendar.copied')}</p>}
+                  <a
+                    href={getWebcalUrl(token)}
+                    className="block w-full text-center py-3 bg-white/10 hover:bg-white/20 text-white text-sm font-bold rounded-xl transition-colors"
+                  >
+                    {t('calendar.subscribe')}
+                  </a>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button type="button" onClick={handleRegenerate} disabled={busy} className="flex items-center justify-center gap-1 py-2 rounded-xl text-xs font-medium bg-white/5 text-white/50 hover:bg-white/10 transition-all disabled:opacity-40">
+                      <RefreshCw size={12} /> {t('calendar.regenerate')}
+                    </button>
+                    <button type="button" onClick={handleDisable} disabled={busy} className="py-2 rounded-xl text-xs font-medium bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-all disabled:opacity-40">
+                      {t('calendar.disable')}
+                    </button>
+                  </div>
+                </>
+              ) : !error && (
+                <div className="flex justify-center py-2">
+                  <Loader2 size={18} className="animate-spin text-white/40" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { Bill, BudgetPeriod, Category } from '../types';
+import { CATEGORY_COLORS, getCategoryName, sortCategories } from '../categories';
+import { formatCurrency } from '../utils';
+import { MessageKey, t } from '../i18n';
+
+interface CategoriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: Category[];
+  bills: Bill[]; // To tell how many bills a category has
+  baseCurrency: string; // New budgets are set in it
+  readOnly?: boolean;
+  onSave: (category: Category) => void;
+  onDelete: (id: string, replacementId?: string) => void; // Bills of the deleted category move to the replacement
+}
+
+interface Draft {
+  id?: string; // Missing for a new category
+  name: string;
+  icon: string;
+  color: string;
+  budget: string; // Empty means no budget
+  period: BudgetPeriod;
+}
+
+const emptyDraft = (): Draft => ({ name: '', icon: '🏷️', color: CATEGORY_COLORS[0], budget: '', period: 'month' });
+
+const PERIOD_LABELS: Record<BudgetPeriod, MessageKey> = {
+  month: 'budget.perMonth',
+  year: 'budget.perYear',
+};
+
+export const CategoriesModal: React.FC<CategoriesModalProps> = ({
+  isOpen,
+  onClose,
+  categories,
+  bills,
+  baseCurrency,
+  readOnly = false,
+  onSave,
+  onDelete
+}) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null); // Category waiting for a replacement
+  const [replacementId, setReplacementId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(null);
+      setDeleting(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const countBills = (id: string) => bills.filter(b => b.category === id).length;
+
+  const startEdit = (category: Category) => {
+    setDeleting(null);
+    setError(null);
+    setDraft({
+      id: category.id,
+      name: getCategoryName(category),
+      icon: category.icon,
+      color: category.color,
+      budget: category.budget ? String(category.budget.amount) : '',
+      period: category.budget?.period ?? 'month'
+    });
+  };
+
+  const startDelete = (category: Category) => {
+    setDraft(null);
+    setError(null);
+    if (countBills(category.id) === 0) {
+      if (confirm(t('categories.confirmDelete', { name: getCategoryName(category) }))) onDelete(category.id);
+      return;
+    }
+    setDeleting(category.id);
+    setReplacementId(sortCategories(categories).find(c => c.id !== category.id)?.id ?? '');
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const name = draft.name.trim();
+    const icon = draft.icon.trim();
+    if (!name || !icon) {
+      setError(t('categories.error.required'));
+      return;
+    }
+    if (categories.some(c => c.id !== draft.id && getCategoryName(c).toLowerCase() === name.toLowerCase())) {
+      setError(t('categories.error.duplicate', { name }));
+      return;
+    }
+    const budgetAmount = draft.budget.trim() ? parseFloat(draft.budget.replace(',', '.')) : null;
+    if (budgetAmount !== null && !(budgetAmount > 0)) {
+      setError(t('budget.error.amount'));
+      return;
+    }
+
+    const existing = categories.find(c => c.id === draft.id);
+    // An unchanged amount keeps the currency it was set in
+    const budget = budgetAmount === null ? undefined : {
+      amount: budgetAmount,
+      currency: existing?.budget?.amount === budgetAmount ? existing.budget.currency : baseCurrency,
+      period: draft.period
+    };
+    // An untouched default name stays unset, so it keeps following the app language
+    const keepsLabel = !!existing && !existing.name && getCategoryName(existing) === name;
+    onSave({
+      ...existing,
+      id: draft.id ?? crypto.randomUUID(),
+      name: keepsLabel ? undefined : name,
+      icon,
+      color: draft.color,
+      budget
+    });
+    setDraft(null);
+    setError(null);
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all";
+
+  const form = draft && (
+    <form onSubmit={handleSave} className="p-4 bg-white/5 rounded-2xl border border-white/10 space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft.icon}
+          onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+          aria-label={t('categories.icon')}
+          className={`${inputClass} w-14 text-center text-xl`}
+        />
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder={t('categories.name')}
+          autoFocus
+          className={inputClass}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {CATEGORY_COLORS.map(color => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => setDraft({ ...draft, color })}
+            className={`w-7 h-7 rounded-full transition-transform ${draft.color === color ? 'ring-2 ring-white scale-110' : ''}`}
+            style={{ backgroundColor: color }}
+            aria-label={color}
+          />
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={draft.budget}
+          onChange={(e) => setDraft({ ...draft, budget: e.target.value })}
+          placeholder={t('budget.placeholder', { currency: baseCurrency })}
+          className={inputClass}
+        />
+        {(['month', 'year'] as BudgetPeriod[]).map(period => (
+          <button
+            key={period}
+            type="button"
+            onClick={() => setDraft({ ...draft, period })}
+            className={`px-3 rounded-xl text-xs font-medium shrink-0 transition-all ${draft.period === period ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+          >
+            {t(PERIOD_LABELS[period])}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button type="button" onClick={() => { setDraft(null); setError(null); }} className="py-2 rounded-xl text-sm font-medium bg-white/5 text-white/60 hover:bg-white/10">
+          {t('common.cancel')}
+        </button>
+        <button type="submit" className="py-2 rounded-xl text-sm font-bold bg-white text-black">
+          {t('common.save')}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('categories.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+                <AlertCircle size={18} />
+                <span>{error}</span>
+            </div>
+        )}
+
+        <div className="space-y-2">
+          {sortCategories(categories).map(category => {
+            const count = countBills(category.id);
+            if (draft?.id === category.id) return <React.Fragment key={category.id}>{form}</React.Fragment>;
+            return (
+              <div key={category.id} className="p-3 bg-white/5 rounded-2xl border border-white/5">
+                <div className="flex items-center gap-3">
+                  <span className="w-10 h-10 rounded-full flex items-center justify-center text-xl shrink-0" style={{ backgroundColor: `${category.color}33` }}>
+                    {category.icon}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <span className="block font-semibold truncate">{getCategoryName(category)}</span>
+                    <span className="text-xs text-white/40">
+                      {t('categories.billCount', { n: count })}
+                      {category.budget && ` • ${formatCurrency(category.budget.amount, category.budget.currency)} ${t(PERIOD_LABELS[category.budget.period])}`}
+                    </span>
+                  </div>
+                  {!readOnly && (
+                    <>
+                      <button type="button" onClick={() => startEdit(category)} className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-white/60">
+                        <Pencil size={14} />
+                      </button>
+                      {categories.length > 1 && (
+                        <button type="button" onClick={() => startDelete(category)} className="p-2 rounded-full bg-white/5 hover:bg-red-500/10 text-red-400/70">
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {deleting === category.id && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-xs text-white/60">{t('categories.reassign', { n: count })}</p>
+                    <select
+                      value={replacementId}
+                      onChange={(e) => setReplacementId(e.target.value)}
+                      className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none appearance-none"
+                    >
+                      {sortCategories(categories).filter(c => c.id !== category.id).map(c => (
+                        <option key={c.id} value={c.id} className="bg-gray-900 text-white">
+                          {c.icon} {getCategoryName(c)}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button type="button" onClick={() => setDeleting(null)} className="py-2 rounded-xl text-sm font-medium bg-white/5 text-white/60 hover:bg-white/10">
+                        {t('common.cancel')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => { onDelete(category.id, replacementId); setDeleting(null); }}
+                        className="py-2 rounded-xl text-sm font-bold bg-red-500/20 text-red-300 hover:bg-red-500/30"
+                      >
+                        {t('categories.moveAndDelete')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {draft && !draft.id && form}
+
+          {!readOnly && !draft && (
+            <button
+              type="button"
+              onClick={() => { setDeleting(null); setError(null); setDraft(emptyDraft()); }}
+              className="w-full flex items-center justify-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-2xl border border-dashed border-white/20 text-sm text-white/70 transition-colors"
+            >
+              <Plus size={16} /> {t('categories.add')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { X, FileUp, AlertCircle } from 'lucide-react';
+import { CURRENCIES, DEFAULT_CURRENCY, ExchangeRateTable, parseNbpRates } from '../currency';
+import { t } from '../i18n';
+
+interface CurrencyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  baseCurrency: string;
+  exchangeRates: ExchangeRateTable;
+  usedCurrencies: string[]; // Currencies of existing bills, always listed so their rate can be filled in
+  onSave: (baseCurrency: string, exchangeRates: ExchangeRateTable) => void;
+}
+
+const toDrafts = (table: ExchangeRateTable): Record<string, string> =>
+  Object.fromEntries(Object.entries(table.rates).map(([code, rate]) => [code, String(rate)]));
+
+export const CurrencyModal: React.FC<CurrencyModalProps> = ({
+  isOpen,
+  onClose,
+  baseCurrency,
+  exchangeRates,
+  usedCurrencies,
+  onSave
+}) => {
+  const [base, setBase] = useState(baseCurrency);
+  const [rates, setRates] = useState<Record<string, string>>({});
+  const [effectiveDate, setEffectiveDate] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setBase(baseCurrency);
+      setRates(toDrafts(exchangeRates));
+      setEffectiveDate(exchangeRates.effectiveDate);
+      setError(null);
+    }
+  }, [isOpen, baseCurrency, exchangeRates]);
+
+  const codes = [...new Set([...CURRENCIES, ...usedCurrencies, ...Object.keys(rates)])]
+    .filter(code => code !== DEFAULT_CURRENCY);
+  // A full NBP table brings dozens of rates, only the usual currencies are offered as the base
+  const baseOptions = [...new Set([...CURRENCIES, ...usedCurrencies, base])];
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const table = parseNbpRates(String(reader.result || ''));
+        // Imported rates overwrite matching ones and keep the rest
+        setRates(prev => ({ ...prev, ...toDrafts(table) }));
+        setEffectiveDate(table.effectiveDate);
+      } catch (err: any) {
+        setError(err?.message || t('currency.error.load'));
+      }
+    };
+    reader.onerror = () => setError(t('common.error.fileRead'));
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed: Record<string, number> = {};
+    for (const [code, value] of Object.entries(rates)) {
+      if (!value.trim()) continue; // Cleared rates are removed
+      const rate = parseFloat(value.replace(',', '.'));
+      if (!(rate > 0)) {
+        setError(t('currency.error.invalidRate', { code }));
+        return;
+      }
+      parsed[code] = rate;
+    }
+    if (base !== DEFAULT_CURRENCY && !parsed[base]) {
+      setError(t('currency.error.baseRate', { code: base }));
+      return;
+    }
+    onSave(base, { rates: parsed, effectiveDate });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const optionClass = (selected: boolean) =>
+    `py-2 px-3 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('currency.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+                <AlertCircle size={18} />
+                <span>{error}</span>
+            </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {/* Base Currency */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('currency.base')}</label>
+            <div className="grid grid-cols-5 gap-2">
+              {baseOptions.map(code => (
+                <button key={code} type="button" onClick={() => setBase(code)} className={optionClass(base === code)}>
+                  {code}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Rates */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">
+              {t('currency.rates')} {effectiveDate && <span className="normal-case tracking-normal font-normal">{t('currency.tableDate', { date: effectiveDate })}</span>}
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {codes.map(code => (
+                <div key={code} className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-xl px-3 py-2">
+                  <span className="text-xs font-bold text-white/60 w-9">{code}</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={rates[code] ?? ''}
+                    onChange={(e) => setRates({ ...rates, [code]: e.target.value })}
+                    placeholder="-"
+                    className="w-full min-w-0 bg-transparent text-sm text-white text-right focus:outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-center gap-3 p-3 bg-white/5 hover:bg-white/10 rounded-xl border border-dashed border-white/20 cursor-pointer transition-colors">
+            <FileUp size={16} className="text-white/60" />
+            <span className="text-sm text-white/70">{t('currency.import')}</span>
+            <input type="file" accept=".json,.xml,application/json,text/xml" onChange={handleFile} className="hidden" />
+          </label>
+
+          <button
+            type="submit"
+            className="w-full py-4 bg-white text-black font-bold rounded-2xl shadow-lg shadow-white/10 hover:scale-[1.02] transition-transform"
+          >
+            {t('common.save')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
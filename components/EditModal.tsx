@@ -1,16 +1,52 @@
 
-import React, { useState, useEffect } from 'react';
-import { X, Calendar, DollarSign, Tag, Repeat, AlertCircle, Clock } from 'lucide-react';
-import { Bill, BillCategory, CATEGORY_ICONS, BillFrequency } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Calendar, DollarSign, Tag, Repeat, AlertCircle, AlertTriangle, Clock, Briefcase, Flag } from 'lucide-react';
+import { Attachment, Bill, BillSeries, Category, DefaultCategory, Payment, RecurrenceKind, RecurrenceRule, SeriesEnd } from '../types';
+import { getRecurrenceRule, getWeekOfMonthName, getWeekdayName, monthlyRule, toLegacyFrequency } from '../recurrence';
+import { coversAmount, getPayments } from '../payments';
+import { findDuplicateBill } from '../duplicates';
+import { CURRENCIES, ExchangeRateTable, getBillCurrency } from '../currency';
+import { PaymentHistory } from './PaymentHistory';
+import { AttachmentList } from './AttachmentList';
+import { AttachmentStore, discardAttachments } from '../repositories';
+import { t } from '../i18n';
+import { findCategory, getCategoryName, sortCategories } from '../categories';
+import { findBudgetOverrun } from '../budgets';
+import { formatCurrency } from '../utils';
+
+// Week of month (1-4, or -1 for the last one) that a date falls in
+const weekOfMonthFor = (date: Date): number => {
+  const week = Math.ceil(date.getDate() / 7);
+  return week > 4 ? -1 : week;
+};
+
+// Field by field: rules loaded from jsonb come back with their keys in another order
+const sameRule = (a: RecurrenceRule, b: RecurrenceRule): boolean =>
+  a.kind === b.kind
+  && a.interval === b.interval
+  && !!a.shiftToBusinessDay === !!b.shiftToBusinessDay
+  && (a.kind !== RecurrenceKind.NTH_WEEKDAY || (a.weekOfMonth === b.weekOfMonth && a.weekday === b.weekday));
+
+// Supabase returns timestamptz as "…+00:00" while the form produces "….000Z"; no date on either side is equal too
+const sameInstant = (a?: string, b?: string): boolean =>
+  (a ? new Date(a).getTime() : undefined) === (b ? new Date(b).getTime() : undefined);
+
+type EndMode = 'never' | 'count' | 'date';
 
 interface EditModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (bill: Bill, isNew: boolean, createRecurringSeries: boolean, updateFuture: boolean) => void;
+  onSave: (bill: Bill, isNew: boolean, createRecurringSeries: boolean, updateFuture: boolean, seriesEnd?: SeriesEnd) => void;
   onDelete: (id: string) => void;
   initialBill: Bill | null;
+  series?: BillSeries; // Rule of the edited bill's series, provides its current end
   currentDateContext: Date;
   existingBills: Bill[]; // Needed for duplicate check
+  categories: Category[];
+  defaultCurrency: string; // Preselected for new bills, budgets are compared in it
+  exchangeRates: ExchangeRateTable;
+  attachmentStore: AttachmentStore;
+  readOnly?: boolean; // Household viewers see the details without being able to change them
 }
 
 export const EditModal: React.FC<EditModalProps> = ({ 
@@ -19,34 +55,63 @@ export const EditModal: React.FC<EditModalProps> = ({
   onSave, 
   onDelete,
   initialBill,
+  series,
   currentDateContext,
-  existingBills
+  existingBills,
+  categories,
+  defaultCurrency,
+  exchangeRates,
+  attachmentStore,
+  readOnly = false
 }) => {
+  const [isIncome, setIsIncome] = useState(false);
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
-  const [category, setCategory] = useState<BillCategory>(BillCategory.OTHER);
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [category, setCategory] = useState<string>(DefaultCategory.OTHER);
   const [date, setDate] = useState('');
   const [isRecurring, setIsRecurring] = useState(false);
-  const [frequency, setFrequency] = useState<BillFrequency>(BillFrequency.MONTHLY);
-  const [isPaid, setIsPaid] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(monthlyRule());
+  const [customMonths, setCustomMonths] = useState(false); // "Every N months" with a free interval
+  const [endMode, setEndMode] = useState<EndMode>('never');
+  const [installmentCount, setInstallmentCount] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Files uploaded since the form opened; until the bill is saved nothing else references them
+  const unsavedUploads = useRef<string[]>([]);
+  const isOpenRef = useRef(isOpen);
+  isOpenRef.current = isOpen;
 
   useEffect(() => {
     if (isOpen) {
       setError(null);
+      unsavedUploads.current = [];
       if (initialBill) {
+        setIsIncome(!!initialBill.isIncome);
         setName(initialBill.name);
         setAmount(initialBill.amount.toString());
+        setCurrency(getBillCurrency(initialBill));
         setCategory(initialBill.category);
         setDate(initialBill.dueDate.split('T')[0]);
         setIsRecurring(initialBill.isRecurring);
-        setFrequency(initialBill.frequency || BillFrequency.MONTHLY);
-        setIsPaid(initialBill.isPaid);
+        const rule = getRecurrenceRule(initialBill);
+        setRecurrence(rule);
+        setCustomMonths(rule.kind === RecurrenceKind.MONTHLY && toLegacyFrequency(rule) === undefined);
+        const count = series?.installmentCount ?? initialBill.installmentCount;
+        setEndMode(count ? 'count' : series?.endDate ? 'date' : 'never');
+        setInstallmentCount(count ? count.toString() : '');
+        setEndDate(series?.endDate ? series.endDate.split('T')[0] : '');
+        setPayments(getPayments(initialBill));
+        setAttachments(initialBill.attachments ?? []);
       } else {
         // Reset for new bill
+        setIsIncome(false);
         setName('');
         setAmount('');
-        setCategory(BillCategory.OTHER);
+        setCurrency(defaultCurrency);
+        setCategory(categories.some(c => c.id === DefaultCategory.OTHER) ? DefaultCategory.OTHER : categories[0]?.id ?? DefaultCategory.OTHER);
         // Default to today or the first of the currently viewed month
         const defaultDate = new Date(currentDateContext);
         const today = new Date();
@@ -57,41 +122,80 @@ export const EditModal: React.FC<EditModalProps> = ({
             setDate(defaultDate.toISOString().split('T')[0]);
         }
         setIsRecurring(false);
-        setFrequency(BillFrequency.MONTHLY);
-        setIsPaid(false);
+        setRecurrence(monthlyRule());
+        setCustomMonths(false);
+        setEndMode('never');
+        setInstallmentCount('');
+        setEndDate('');
+        setPayments([]);
+        setAttachments([]);
       }
     }
-  }, [isOpen, initialBill, currentDateContext]);
+  }, [isOpen, initialBill, series, currentDateContext, defaultCurrency]);
+
+  const discardUnsavedUploads = () => {
+    discardAttachments(attachmentStore, unsavedUploads.current);
+    unsavedUploads.current = [];
+  };
+
+  const handleClose = () => {
+    discardUnsavedUploads();
+    onClose();
+  };
+
+  const handleAddAttachment = (attachment: Attachment) => {
+    // The upload finished after the form was closed
+    if (!isOpenRef.current) {
+      discardAttachments(attachmentStore, [attachment.path]);
+      return;
+    }
+    unsavedUploads.current.push(attachment.path);
+    setAttachments(prev => [...prev, attachment]);
+  };
+
+  // Files of saved attachments stay until the bill is saved without them
+  const handleRemoveAttachment = (attachment: Attachment) => {
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    if (unsavedUploads.current.includes(attachment.path)) {
+      unsavedUploads.current = unsavedUploads.current.filter(p => p !== attachment.path);
+      discardAttachments(attachmentStore, [attachment.path]);
+    }
+  };
 
   const validateDuplicate = (checkName: string, checkDateStr: string): boolean => {
-    const checkDate = new Date(checkDateStr);
-    const duplicate = existingBills.find(b => {
-        // Skip self if editing
-        if (initialBill && b.id === initialBill.id) return false;
-        
-        const bDate = new Date(b.dueDate);
-        const sameMonth = bDate.getMonth() === checkDate.getMonth();
-        const sameYear = bDate.getFullYear() === checkDate.getFullYear();
-        const sameName = b.name.trim().toLowerCase() === checkName.trim().toLowerCase();
-        
-        return sameMonth && sameYear && sameName;
-    });
-
-    return !!duplicate;
+    // Skip self if editing
+    return !!findDuplicateBill(existingBills, checkName, new Date(checkDateStr), initialBill?.id);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    if (readOnly) return;
 
     if (!name || !amount || !date) {
-        setError("Wypełnij wszystkie pola.");
+        setError(t('edit.error.required'));
+        return;
+    }
+
+    const seriesEnd: SeriesEnd = {
+      installmentCount: endMode === 'count' ? parseInt(installmentCount) : undefined,
+      // End of the chosen day, so an occurrence due that day still counts
+      endDate: endMode === 'date' ? new Date(`${endDate}T23:59:59`).toISOString() : undefined
+    };
+
+    if (isRecurring && endMode === 'count' && !(seriesEnd.installmentCount && seriesEnd.installmentCount > 0)) {
+        setError(t('edit.error.installments'));
+        return;
+    }
+
+    if (isRecurring && endMode === 'date' && (!endDate || endDate < date)) {
+        setError(t('edit.error.endDate'));
         return;
     }
 
     // Duplicate Check
     if (validateDuplicate(name, date)) {
-        setError(`Rachunek "${name}" już istnieje w tym miesiącu.`);
+        setError(t('edit.error.duplicate', { name }));
         return;
     }
 
@@ -99,12 +203,17 @@ export const EditModal: React.FC<EditModalProps> = ({
       id: initialBill ? initialBill.id : '',
       name: name.trim(),
       amount: parseFloat(amount),
+      currency,
       category,
       dueDate: new Date(date).toISOString(),
       isRecurring,
-      frequency: isRecurring ? frequency : undefined,
-      isPaid,
-      seriesId: initialBill?.seriesId
+      frequency: isRecurring ? toLegacyFrequency(recurrence) : undefined,
+      recurrence: isRecurring ? recurrence : undefined,
+      isPaid: coversAmount(payments, parseFloat(amount)),
+      payments,
+      seriesId: initialBill?.seriesId,
+      isIncome, // false, not undefined: switching back to a bill has to reach the server
+      attachments // Empty rather than undefined, removing the last one has to reach the server
     };
 
     let updateFuture = false;
@@ -112,33 +221,87 @@ export const EditModal: React.FC<EditModalProps> = ({
     if (initialBill && initialBill.seriesId && initialBill.isRecurring) {
         // Simple confirmation using window for now, could be a custom UI modal later
         // Only ask if critical data changed
-        if (initialBill.amount !== parseFloat(amount) || initialBill.name !== name) {
-             const result = window.confirm("To rachunek cykliczny. Czy chcesz zaktualizować cenę/nazwę również dla przyszłych rachunków z tej serii?");
+        const previousCount = series?.installmentCount ?? initialBill.installmentCount;
+        const ruleChanged = isRecurring && (
+            !sameRule(getRecurrenceRule(initialBill), recurrence)
+            || previousCount !== seriesEnd.installmentCount
+            || !sameInstant(series?.endDate, seriesEnd.endDate)
+        );
+        const currencyChanged = getBillCurrency(initialBill) !== currency;
+        const kindChanged = !!initialBill.isIncome !== isIncome;
+        if (initialBill.amount !== parseFloat(amount) || currencyChanged || initialBill.name !== name || ruleChanged || kindChanged) {
+             const result = window.confirm(t('edit.confirm.updateFuture'));
              updateFuture = result;
         }
     }
 
     const createSeries = !initialBill && isRecurring;
     
-    onSave(billData, !initialBill, createSeries, updateFuture);
+    onSave(billData, !initialBill, createSeries, updateFuture, isRecurring ? seriesEnd : undefined);
+    unsavedUploads.current = [];
     onClose();
   };
 
+  const selectPreset = (rule: RecurrenceRule) => {
+    setRecurrence({ ...rule, shiftToBusinessDay: recurrence.shiftToBusinessDay });
+    setCustomMonths(false);
+  };
+
+  const selectCustomMonths = () => {
+    setRecurrence({ kind: RecurrenceKind.MONTHLY, interval: 2, shiftToBusinessDay: recurrence.shiftToBusinessDay });
+    setCustomMonths(true);
+  };
+
+  // Defaults to the weekday and week of the chosen due date
+  const selectNthWeekday = () => {
+    const dueDate = date ? new Date(date) : new Date();
+    selectPreset({ kind: RecurrenceKind.NTH_WEEKDAY, interval: 1, weekOfMonth: weekOfMonthFor(dueDate), weekday: dueDate.getDay() });
+  };
+
   if (!isOpen) return null;
 
+  // A bill whose category was deleted elsewhere still shows it until another one is picked
+  const categoryOptions = sortCategories(categories.some(c => c.id === category) ? categories : [...categories, findCategory(categories, category)]);
+
+  // Only a warning, going over budget is allowed. Income doesn't count towards budgets.
+  const budgetOverrun = !readOnly && !isIncome && parseFloat(amount) > 0 && date
+    ? findBudgetOverrun(
+        { id: initialBill?.id ?? '', amount: parseFloat(amount), currency, dueDate: new Date(date).toISOString(), category },
+        existingBills, findCategory(categories, category), defaultCurrency, exchangeRates
+      )
+    : null;
+
+  const presets: { label: string; rule: RecurrenceRule }[] = [
+    { label: t('recurrence.weekly'), rule: { kind: RecurrenceKind.WEEKLY, interval: 1 } },
+    { label: t('recurrence.biweekly'), rule: { kind: RecurrenceKind.WEEKLY, interval: 2 } },
+    { label: t('recurrence.monthly'), rule: monthlyRule(1) },
+    { label: t('recurrence.quarterly'), rule: monthlyRule(3) },
+    { label: t('recurrence.semiannual'), rule: monthlyRule(6) },
+    { label: t('recurrence.annual'), rule: monthlyRule(12) },
+    { label: t('edit.lastDayOfMonth'), rule: { kind: RecurrenceKind.LAST_DAY_OF_MONTH, interval: 1 } },
+  ];
+
+  const isPresetSelected = (rule: RecurrenceRule) =>
+    !customMonths && recurrence.kind === rule.kind && recurrence.interval === rule.interval;
+
+  const optionClass = (selected: boolean) =>
+    `py-2 px-3 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  const selectClass = "flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all appearance-none";
+
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
       <div 
         className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity" 
-        onClick={onClose}
+        onClick={handleClose}
       />
 
       <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
-            {initialBill ? 'Edytuj Rachunek' : 'Nowy Rachunek'}
+            {readOnly ? t('edit.title.details') : initialBill ? t('edit.title.edit') : t('edit.title.new')}
           </h2>
-          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+          <button onClick={handleClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
             <X className="text-white/70" size={24} />
           </button>
         </div>
@@ -151,6 +314,17 @@ export const EditModal: React.FC<EditModalProps> = ({
         )}
 
         <form onSubmit={handleSubmit} className="space-y-5">
+          <fieldset disabled={readOnly} className="space-y-5 disabled:opacity-70">
+          {/* Bill or Income */}
+          <div className="grid grid-cols-2 gap-2">
+            <button type="button" onClick={() => setIsIncome(false)} className={optionClass(!isIncome)}>
+              {t('edit.kind.bill')}
+            </button>
+            <button type="button" onClick={() => setIsIncome(true)} className={optionClass(isIncome)}>
+              {t('edit.kind.income')}
+            </button>
+          </div>
+
           {/* Amount Input */}
           <div className="relative group">
             <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -162,19 +336,28 @@ export const EditModal: React.FC<EditModalProps> = ({
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               placeholder="0.00"
-              className="w-full bg-black/20 border border-white/10 rounded-2xl py-4 pl-12 pr-4 text-3xl font-bold text-white placeholder-white/20 focus:outline-none focus:border-blue-500/50 transition-all"
-              autoFocus={!initialBill}
+              className="w-full bg-black/20 border border-white/10 rounded-2xl py-4 pl-12 pr-24 text-3xl font-bold text-white placeholder-white/20 focus:outline-none focus:border-blue-500/50 transition-all"
+              autoFocus={!initialBill && !readOnly}
             />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="absolute inset-y-0 right-3 my-auto h-10 bg-white/5 border border-white/10 rounded-xl px-2 text-sm font-bold text-white/80 focus:outline-none [color-scheme:dark]"
+            >
+              {(CURRENCIES.includes(currency) ? CURRENCIES : [...CURRENCIES, currency]).map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
           </div>
 
           {/* Name Input */}
           <div className="space-y-2">
-            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">Nazwa</label>
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('field.name')}</label>
             <input 
               type="text" 
               value={name}
               onChange={(e) => setName(e.target.value)}
-              placeholder="np. Netflix, Czynsz..."
+              placeholder={t('edit.namePlaceholder')}
               className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:bg-white/10 transition-all"
             />
           </div>
@@ -183,7 +366,7 @@ export const EditModal: React.FC<EditModalProps> = ({
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1 flex items-center gap-1">
-                <Calendar size={12} /> Data
+                <Calendar size={12} /> {t('field.dueDate')}
               </label>
               <input 
                 type="date" 
@@ -195,22 +378,40 @@ export const EditModal: React.FC<EditModalProps> = ({
 
             <div className="space-y-2">
               <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1 flex items-center gap-1">
-                 <Tag size={12} /> Kategoria
+                 <Tag size={12} /> {t('field.category')}
               </label>
               <select 
                 value={category}
-                onChange={(e) => setCategory(e.target.value as BillCategory)}
+                onChange={(e) => setCategory(e.target.value)}
                 className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:bg-white/10 transition-all appearance-none"
               >
-                {Object.values(BillCategory).map((cat) => (
-                  <option key={cat} value={cat} className="bg-gray-900 text-white">
-                     {CATEGORY_ICONS[cat]} {cat}
+                {categoryOptions.map((cat) => (
+                  <option key={cat.id} value={cat.id} className="bg-gray-900 text-white">
+                     {cat.icon} {getCategoryName(cat)}
                   </option>
                 ))}
               </select>
             </div>
           </div>
 
+          {budgetOverrun && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl flex items-center gap-3 text-amber-300 text-sm">
+              <AlertTriangle size={18} className="shrink-0" />
+              <span>
+                {t(budgetOverrun.period === 'month' ? 'budget.warning.month' : 'budget.warning.year', {
+                  name: getCategoryName(budgetOverrun.category),
+                  spent: formatCurrency(budgetOverrun.spent, defaultCurrency),
+                  limit: formatCurrency(budgetOverrun.limit, defaultCurrency)
+                })}
+              </span>
+            </div>
+          )}
+
+          {/* Payments */}
+          {parseFloat(amount) > 0 && (
+            <PaymentHistory payments={payments} amount={parseFloat(amount)} currency={currency} onChange={setPayments} />
+          )}
+
           {/* Recurring Toggles */}
           <div className="space-y-3">
             <div className="flex justify-between items-center p-4 bg-white/5 rounded-2xl border border-white/5">
@@ -219,8 +420,8 @@ export const EditModal: React.FC<EditModalProps> = ({
                         <Repeat size={20} />
                     </div>
                     <div className="flex flex-col">
-                        <span className="text-sm font-medium text-white">Powtarzalny</span>
-                        <span className="text-xs text-white/40">Tworzy serię rachunków</span>
+                        <span className="text-sm font-medium text-white">{t('field.isRecurring')}</span>
+                        <span className="text-xs text-white/40">{t('edit.recurringHint')}</span>
                     </div>
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
@@ -234,47 +435,176 @@ export const EditModal: React.FC<EditModalProps> = ({
                  <div className="p-4 bg-white/5 rounded-2xl border border-white/5 animate-slide-up">
                     <div className="flex items-center gap-2 mb-3 text-white/60">
                          <Clock size={14} />
-                         <span className="text-xs font-bold uppercase tracking-wide">Częstotliwość</span>
+                         <span className="text-xs font-bold uppercase tracking-wide">{t('csv.header.frequency')}</span>
                     </div>
                     <div className="grid grid-cols-2 gap-2">
-                        {[
-                            { label: 'Co miesiąc', val: BillFrequency.MONTHLY },
-                            { label: 'Co kwartał', val: BillFrequency.QUARTERLY },
-                            { label: 'Co pół roku', val: BillFrequency.SEMIANNUAL },
-                            { label: 'Co rok', val: BillFrequency.ANNUAL },
-                        ].map((opt) => (
+                        {presets.map((opt) => (
                             <button
-                                key={opt.val}
+                                key={opt.label}
                                 type="button"
-                                onClick={() => setFrequency(opt.val)}
-                                className={`py-2 px-3 rounded-xl text-xs font-medium transition-all ${frequency === opt.val ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+                                onClick={() => selectPreset(opt.rule)}
+                                className={optionClass(isPresetSelected(opt.rule))}
                             >
                                 {opt.label}
                             </button>
                         ))}
+                        <button
+                            type="button"
+                            onClick={selectNthWeekday}
+                            className={optionClass(recurrence.kind === RecurrenceKind.NTH_WEEKDAY)}
+                        >
+                            {t('edit.nthWeekday')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={selectCustomMonths}
+                            className={optionClass(customMonths)}
+                        >
+                            {t('edit.everyNMonths')}
+                        </button>
+                    </div>
+
+                    {customMonths && (
+                        <div className="flex items-center gap-3 mt-3">
+                            <span className="text-xs text-white/50">{t('edit.every')}</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={120}
+                                value={recurrence.interval}
+                                onChange={(e) => setRecurrence({ ...recurrence, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                                className="w-20 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all"
+                            />
+                            <span className="text-xs text-white/50">{t('edit.months')}</span>
+                        </div>
+                    )}
+
+                    {recurrence.kind === RecurrenceKind.NTH_WEEKDAY && (
+                        <div className="flex gap-2 mt-3">
+                            <select
+                                value={recurrence.weekOfMonth ?? 1}
+                                onChange={(e) => setRecurrence({ ...recurrence, weekOfMonth: parseInt(e.target.value) })}
+                                className={selectClass}
+                            >
+                                {[1, 2, 3, 4, -1].map(week => (
+                                    <option key={week} value={week} className="bg-gray-900 text-white">{getWeekOfMonthName(week)}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={recurrence.weekday ?? 1}
+                                onChange={(e) => setRecurrence({ ...recurrence, weekday: parseInt(e.target.value) })}
+                                className={selectClass}
+                            >
+                                {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                                    <option key={day} value={day} className="bg-gray-900 text-white">{getWeekdayName(day)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    <label className="flex items-center justify-between gap-3 mt-4 pt-3 border-t border-white/5 cursor-pointer">
+                        <span className="flex items-center gap-2 text-xs text-white/60">
+                            <Briefcase size={14} /> {t('edit.shiftToBusinessDay')}
+                        </span>
+                        <input
+                            type="checkbox"
+                            checked={!!recurrence.shiftToBusinessDay}
+                            onChange={(e) => setRecurrence({ ...recurrence, shiftToBusinessDay: e.target.checked || undefined })}
+                            className="w-4 h-4 accent-blue-500"
+                        />
+                    </label>
+
+                    <div className="mt-4 pt-3 border-t border-white/5">
+                        <div className="flex items-center gap-2 mb-3 text-white/60">
+                            <Flag size={14} />
+                            <span className="text-xs font-bold uppercase tracking-wide">{t('edit.seriesEnd')}</span>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            {[
+                                { label: t('edit.end.never'), val: 'never' as EndMode },
+                                { label: t('edit.end.count'), val: 'count' as EndMode },
+                                { label: t('edit.end.date'), val: 'date' as EndMode },
+                            ].map((opt) => (
+                                <button
+                                    key={opt.val}
+                                    type="button"
+                                    onClick={() => setEndMode(opt.val)}
+                                    className={optionClass(endMode === opt.val)}
+                                >
+                                    {opt.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {endMode === 'count' && (
+                            <div className="flex items-center gap-3 mt-3">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={installmentCount}
+                                    onChange={(e) => setInstallmentCount(e.target.value)}
+                                    placeholder="24"
+                                    className="w-20 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all"
+                                />
+                                <span className="text-xs text-white/50">{t('edit.installmentsTotal')}</span>
+                            </div>
+                        )}
+
+                        {endMode === 'date' && (
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="w-full mt-3 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all [color-scheme:dark]"
+                            />
+                        )}
                     </div>
                  </div>
             )}
           </div>
 
+          </fieldset>
+
+          {/* Attachments */}
+          <AttachmentList
+            attachments={attachments}
+            store={attachmentStore}
+            readOnly={readOnly}
+            onAdd={handleAddAttachment}
+            onRemove={handleRemoveAttachment}
+          />
+
           {/* Actions */}
+          {readOnly ? (
+             <button 
+                type="button"
+                onClick={handleClose}
+                className="w-full py-4 bg-white/10 text-white font-bold rounded-2xl border border-white/10 transition-all"
+             >
+                {t('common.close')}
+             </button>
+          ) : (
           <div className="flex gap-4 pt-4">
              {initialBill && (
                  <button 
                     type="button"
-                    onClick={() => onDelete(initialBill.id)}
+                    onClick={() => {
+                      discardUnsavedUploads();
+                      onDelete(initialBill.id);
+                    }}
                     className="flex-1 py-4 bg-red-500/10 hover:bg-red-500/20 text-red-400 font-bold rounded-2xl border border-red-500/20 transition-all"
                  >
-                    Usuń
+                    {t('common.delete')}
                  </button>
              )}
              <button 
                 type="submit"
                 className="flex-[2] py-4 bg-white text-black font-bold rounded-2xl shadow-lg shadow-white/10 hover:scale-[1.02] transition-transform"
              >
-                {initialBill ? 'Zapisz Zmiany' : 'Dodaj Rachunek'}
+                {initialBill ? t('edit.saveChanges') : t('edit.add')}
              </button>
           </div>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Download } from 'lucide-react';
+import { Bill, Category } from '../types';
+import { CsvDelimiter, CsvExportOptions, CsvValueFormat, DEFAULT_CSV_EXPORT_OPTIONS, filterBillsForExport, formatCsvAmount, formatCsvDay } from '../csvExport';
+import { MessageKey, t } from '../i18n';
+import { getCategoryName, sortCategories } from '../categories';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bills: Bill[];
+  categories: Category[];
+  onExport: (options: CsvExportOptions) => void;
+}
+
+const DELIMITER_OPTIONS: { label: MessageKey; val: CsvDelimiter }[] = [
+  { label: 'export.delimiter.semicolon', val: ';' },
+  { label: 'export.delimiter.comma', val: ',' },
+  { label: 'export.delimiter.tab', val: '\t' },
+];
+
+const FORMAT_OPTIONS: CsvValueFormat[] = ['locale', 'iso'];
+
+// A sample value shows what each format looks like in the current language
+const formatSample = (format: CsvValueFormat): string =>
+  `${formatCsvAmount(1234.56, format)} • ${formatCsvDay('2026-10-19T12:00:00', format)}`;
+
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, bills, categories, onExport }) => {
+  const [options, setOptions] = useState<CsvExportOptions>(DEFAULT_CSV_EXPORT_OPTIONS);
+
+  useEffect(() => {
+    if (isOpen) setOptions(prev => ({ ...prev, categories: [] }));
+  }, [isOpen]);
+
+  const count = useMemo(() => filterBillsForExport(bills, options).length, [bills, options]);
+
+  const toggleCategory = (id: string) => {
+    const selected = options.categories.includes(id)
+      ? options.categories.filter(c => c !== id)
+      : [...options.categories, id];
+    setOptions({ ...options, categories: selected });
+  };
+
+  const handleExport = () => {
+    if (count === 0) return;
+    onExport(options);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const optionClass = (selected: boolean) =>
+    `py-2 px-3 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  const dateClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all [color-scheme:dark]";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('export.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          {/* Delimiter */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('export.delimiter')}</label>
+            <div className="grid grid-cols-3 gap-2">
+              {DELIMITER_OPTIONS.map(opt => (
+                <button key={opt.val} type="button" onClick={() => setOptions({ ...options, delimiter: opt.val })} className={optionClass(options.delimiter === opt.val)}>
+                  {t(opt.label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Number & Date Format */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('export.format')}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMAT_OPTIONS.map(format => (
+                <button key={format} type="button" onClick={() => setOptions({ ...options, format })} className={optionClass(options.format === format)}>
+                  {formatSample(format)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Date Range */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('export.dateRange')}</label>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="date"
+                value={options.from || ''}
+                onChange={(e) => setOptions({ ...options, from: e.target.value || undefined })}
+                className={dateClass}
+              />
+              <input
+                type="date"
+                value={options.to || ''}
+                onChange={(e) => setOptions({ ...options, to: e.target.value || undefined })}
+                className={dateClass}
+              />
+            </div>
+          </div>
+
+          {/* Categories */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">
+              {t('export.categories')} {options.categories.length === 0 && <span className="normal-case tracking-normal font-normal">{t('export.allCategories')}</span>}
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {sortCategories(categories).map(cat => (
+                <button key={cat.id} type="button" onClick={() => toggleCategory(cat.id)} className={`${optionClass(options.categories.includes(cat.id))} truncate`}>
+                  {cat.icon} {getCategoryName(cat)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between gap-3 p-4 bg-white/5 rounded-2xl border border-white/5 cursor-pointer">
+            <span className="text-sm text-white/80">{t('export.seriesColumns')}</span>
+            <input
+              type="checkbox"
+              checked={options.includeSeries}
+              onChange={(e) => setOptions({ ...options, includeSeries: e.target.checked })}
+              className="w-4 h-4 accent-blue-500"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3 p-4 bg-white/5 rounded-2xl border border-white/5 cursor-pointer">
+            <span className="text-sm text-white/80">{t('export.includeIncome')}</span>
+            <input
+              type="checkbox"
+              checked={options.includeIncome}
+              onChange={(e) => setOptions({ ...options, includeIncome: e.target.checked })}
+              className="w-4 h-4 accent-blue-500"
+            />
+          </label>
+
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={count === 0}
+            className="w-full py-4 bg-white text-black font-bold rounded-2xl shadow-lg shadow-white/10 hover:scale-[1.02] transition-transform flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:scale-100"
+          >
+            <Download size={18} />
+            {count === 0 ? t('export.empty') : t('export.download', { n: count })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
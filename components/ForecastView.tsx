@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { Wallet, TrendingDown, Sparkles } from 'lucide-react';
+import { Bill, Category } from '../types';
+import { FORECAST_WINDOWS, ForecastDay, ForecastSettings } from '../forecast';
+import { findCategory } from '../categories';
+import { getBillCurrency } from '../currency';
+import { formatCurrency, formatDate } from '../utils';
+import { GlassCard } from './ui/GlassCard';
+import { BillItem } from './BillItem';
+import { t } from '../i18n';
+
+interface ForecastViewProps {
+  days: ForecastDay[];
+  settings: ForecastSettings;
+  onChangeSettings: (settings: ForecastSettings) => void;
+  categories: Category[];
+  baseCurrency: string;
+  readOnly?: boolean;
+  onTogglePaid: (id: string) => void;
+  onEdit: (bill: Bill) => void;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+// Balance at the start of the window, then after each day
+const BalanceChart: React.FC<{ start: number; days: ForecastDay[] }> = ({ start, days }) => {
+  const values = [start, ...days.map(d => d.balance)];
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const range = max - min || 1;
+  const x = (i: number) => (i / (values.length - 1)) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - ((value - min) / range) * CHART_HEIGHT;
+  const points = values.map((value, i) => `${x(i)},${y(value)}`).join(' ');
+  const goesNegative = min < 0;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-28 overflow-visible">
+      <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="rgba(255,255,255,0.15)" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+      <polyline
+        points={points}
+        fill="none"
+        stroke={goesNegative ? '#f87171' : '#60a5fa'}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
+
+export const ForecastView: React.FC<ForecastViewProps> = ({
+  days,
+  settings,
+  onChangeSettings,
+  categories,
+  baseCurrency,
+  readOnly = false,
+  onTogglePaid,
+  onEdit
+}) => {
+  const [balanceDraft, setBalanceDraft] = useState(String(settings.startingBalance));
+
+  useEffect(() => {
+    setBalanceDraft(String(settings.startingBalance));
+  }, [settings.startingBalance]);
+
+  // Invalid input falls back to the stored balance
+  const commitBalance = () => {
+    const value = parseFloat(balanceDraft.replace(',', '.'));
+    if (isNaN(value)) {
+      setBalanceDraft(String(settings.startingBalance));
+      return;
+    }
+    if (value !== settings.startingBalance) onChangeSettings({ ...settings, startingBalance: value });
+  };
+
+  const dueDays = days.filter(d => d.entries.length > 0);
+  const total = days.length > 0 ? days[days.length - 1].runningTotal : 0;
+  const lowest = days.reduce((low, d) => d.balance < low.balance ? d : low, days[0]);
+  const income = days.reduce((sum, d) => sum + d.income, 0);
+  const endBalance = days.length > 0 ? days[days.length - 1].balance : settings.startingBalance;
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 py-2 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  let index = 0; // Keeps the entry animation running across day groups
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Window & Starting Balance */}
+      <div className="space-y-3 animate-enter-ios">
+        <div className="flex gap-2">
+          {FORECAST_WINDOWS.map(n => (
+            <button key={n} type="button" onClick={() => onChangeSettings({ ...settings, days: n })} className={optionClass(settings.days === n)}>
+              {t('forecast.days', { n })}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-xl px-4 py-3">
+          <Wallet size={16} className="text-white/40 shrink-0" />
+          <span className="text-sm text-white/60 flex-1">{t('forecast.startingBalance')}</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={balanceDraft}
+            onChange={(e) => setBalanceDraft(e.target.value)}
+            onBlur={commitBalance}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            className="w-32 bg-transparent text-right text-white font-bold focus:outline-none"
+          />
+          <span className="text-xs text-white/40">{baseCurrency}</span>
+        </label>
+      </div>
+
+      {/* Summary & Balance Curve */}
+      <GlassCard className={`p-5 animate-enter-ios ${endBalance < 0 ? 'bg-red-900/10 border-red-500/20' : ''}`}>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <span className="text-xs text-white/40 uppercase font-bold block">{t('forecast.due')}</span>
+            <span className="text-xl font-bold">{formatCurrency(total, baseCurrency)}</span>
+            {income > 0 && (
+              <span className="text-xs text-green-300/80 block">{t('forecast.income', { amount: formatCurrency(income, baseCurrency) })}</span>
+            )}
+          </div>
+          <div className="text-right">
+            <span className="text-xs text-white/40 uppercase font-bold block">{t('forecast.endBalance')}</span>
+            <span className={`text-xl font-bold ${endBalance < 0 ? 'text-red-300' : ''}`}>{formatCurrency(endBalance, baseCurrency)}</span>
+          </div>
+        </div>
+        {days.length > 0 && <BalanceChart start={settings.startingBalance} days={days} />}
+        {lowest && lowest.balance < 0 && (
+          <p className="mt-3 text-xs text-red-300/90 flex items-center gap-2">
+            <TrendingDown size={14} className="shrink-0" />
+            {t('forecast.shortfall', { amount: formatCurrency(-lowest.balance, baseCurrency), date: formatDate(lowest.date.toISOString()) })}
+          </p>
+        )}
+      </GlassCard>
+
+      {/* Bills by Day */}
+      {dueDays.length === 0 ? (
+        <p className="text-center text-white/40 text-sm py-8">{t('forecast.empty')}</p>
+      ) : (
+        dueDays.map(day => (
+          <div key={day.date.getTime()}>
+            <div className="flex justify-between items-end mb-3 ml-1">
+              <span className="text-sm font-bold text-white/60">{formatDate(day.date.toISOString())}</span>
+              <div className="text-right text-[10px] text-white/40">
+                <span className="block">{t('forecast.runningTotal', { amount: formatCurrency(day.runningTotal, baseCurrency) })}</span>
+                <span className={day.balance < 0 ? 'text-red-300' : ''}>{t('forecast.balance', { amount: formatCurrency(day.balance, baseCurrency) })}</span>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {day.entries.map(entry => {
+                const category = findCategory(categories, entry.bill.category);
+                if (!entry.projected) {
+                  return (
+                    <BillItem
+                      key={entry.bill.id}
+                      bill={entry.bill}
+                      category={category}
+                      index={index++}
+                      onTogglePaid={onTogglePaid}
+                      onEdit={onEdit}
+                      readOnly={readOnly}
+                    />
+                  );
+                }
+                // Projected occurrences don't exist yet, there is nothing to edit or mark as paid
+                return (
+                  <div key={entry.bill.id} className="flex items-center gap-4 p-4 rounded-2xl border border-dashed border-white/15 text-white/60">
+                    <span className="p-3 rounded-full text-2xl shrink-0 opacity-70" style={{ backgroundColor: `${category.color}22` }}>
+                      {category.icon}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <span className="block font-semibold truncate">{entry.bill.name}</span>
+                      <span className="text-[10px] uppercase tracking-wider flex items-center gap-1 text-blue-300/70">
+                        <Sparkles size={10} /> {t('forecast.projected')}
+                      </span>
+                    </div>
+                    <span className={`font-bold shrink-0 ${entry.bill.isIncome ? 'text-green-300' : ''}`}>
+                      {entry.bill.isIncome && '+'}{formatCurrency(entry.bill.amount, getBillCurrency(entry.bill))}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
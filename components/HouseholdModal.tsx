@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { X, Users, User, Check, Mail, Plus, Trash2, LogOut, AlertCircle } from 'lucide-react';
+import { Household, HouseholdInvitation, HouseholdMember, HouseholdRole, HOUSEHOLD_ROLE_LABELS } from '../types';
+import { HouseholdRepository } from '../repositories';
+import { t } from '../i18n';
+
+interface HouseholdModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  repository: HouseholdRepository;
+  households: Household[];
+  activeHouseholdId: string | null;
+  currentUserId?: string;
+  onSelectHousehold: (householdId: string | null) => void;
+  onHouseholdsChanged: () => void;
+}
+
+export const HouseholdModal: React.FC<HouseholdModalProps> = ({
+  isOpen,
+  onClose,
+  repository,
+  households,
+  activeHouseholdId,
+  currentUserId,
+  onSelectHousehold,
+  onHouseholdsChanged
+}) => {
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [invitations, setInvitations] = useState<HouseholdInvitation[]>([]);
+  const [newHouseholdName, setNewHouseholdName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>(HouseholdRole.EDITOR);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const activeHousehold = households.find(h => h.id === activeHouseholdId) || null;
+  const isOwner = activeHousehold?.role === HouseholdRole.OWNER;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setInfo(null);
+    repository.listPendingInvitations()
+      .then(setInvitations)
+      .catch(err => console.error("Error loading invitations:", err));
+  }, [isOpen, repository]);
+
+  useEffect(() => {
+    if (!isOpen || !activeHouseholdId) {
+      setMembers([]);
+      return;
+    }
+    repository.listMembers(activeHouseholdId)
+      .then(setMembers)
+      .catch(err => console.error("Error loading members:", err));
+  }, [isOpen, activeHouseholdId, repository]);
+
+  // Runs a repository action and reports failures inline instead of via alert()
+  const run = async (action: () => Promise<void>, successMessage?: string) => {
+    setError(null);
+    setInfo(null);
+    try {
+      await action();
+      if (successMessage) setInfo(successMessage);
+    } catch (err) {
+      console.error("Household action failed:", err);
+      setError(t('household.error.action'));
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newHouseholdName.trim()) return;
+    run(async () => {
+      const created = await repository.createHousehold(newHouseholdName.trim());
+      setNewHouseholdName('');
+      onHouseholdsChanged();
+      onSelectHousehold(created.id);
+    });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeHouseholdId || !inviteEmail.trim()) return;
+    run(async () => {
+      await repository.invite(activeHouseholdId, inviteEmail, inviteRole);
+      setInviteEmail('');
+    }, t('household.inviteSent', { email: inviteEmail.trim() }));
+  };
+
+  const handleAccept = (invitation: HouseholdInvitation) => {
+    run(async () => {
+      await repository.acceptInvitation(invitation.id);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+      onHouseholdsChanged();
+      onSelectHousehold(invitation.householdId);
+    });
+  };
+
+  const handleRoleChange = (member: HouseholdMember, role: HouseholdRole) => {
+    if (!activeHouseholdId) return;
+    run(async () => {
+      await repository.updateMemberRole(activeHouseholdId, member.userId, role);
+      setMembers(prev => prev.map(m => m.userId === member.userId ? { ...m, role } : m));
+    });
+  };
+
+  const handleRemove = (member: HouseholdMember) => {
+    if (!activeHouseholdId) return;
+    if (!confirm(t('household.confirm.remove', { email: member.email }))) return;
+    run(async () => {
+      await repository.removeMember(activeHouseholdId, member.userId);
+      setMembers(prev => prev.filter(m => m.userId !== member.userId));
+    });
+  };
+
+  const handleLeave = () => {
+    if (!activeHousehold) return;
+    if (!confirm(t('household.confirm.leave', { name: activeHousehold.name }))) return;
+    run(async () => {
+      await repository.leaveHousehold(activeHousehold.id);
+      onSelectHousehold(null);
+      onHouseholdsChanged();
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const optionClass = (selected: boolean) =>
+    `w-full flex items-center justify-between p-3 rounded-xl border transition-all ${selected ? 'bg-blue-500/20 border-blue-400/40 text-white' : 'bg-white/5 border-white/5 text-white/70 hover:bg-white/10'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('app.action.households')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+                <AlertCircle size={18} />
+                <span>{error}</span>
+            </div>
+        )}
+
+        {info && (
+            <div className="mb-4 p-3 bg-green-500/10 border border-green-500/20 rounded-xl flex items-center gap-3 text-green-400 text-sm">
+                <Check size={18} />
+                <span>{info}</span>
+            </div>
+        )}
+
+        <div className="space-y-6">
+          {/* Household Picker */}
+          <div className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('household.view')}</label>
+            <button onClick={() => onSelectHousehold(null)} className={optionClass(!activeHouseholdId)}>
+              <span className="flex items-center gap-3"><User size={16} /> {t('household.myBills')}</span>
+              {!activeHouseholdId && <Check size={16} className="text-blue-400" />}
+            </button>
+            {households.map(h => (
+              <button key={h.id} onClick={() => onSelectHousehold(h.id)} className={optionClass(h.id === activeHouseholdId)}>
+                <span className="flex items-center gap-3"><Users size={16} /> {h.name}</span>
+                <span className="flex items-center gap-2 text-xs text-white/40">
+                  {t(HOUSEHOLD_ROLE_LABELS[h.role])}
+                  {h.id === activeHouseholdId && <Check size={16} className="text-blue-400" />}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Pending Invitations */}
+          {invitations.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('household.invitations')}</label>
+              {invitations.map(inv => (
+                <div key={inv.id} className="flex items-center justify-between p-3 bg-white/5 rounded-xl border border-white/5">
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-sm text-white truncate">{inv.householdName || t('household.household')}</span>
+                    <span className="text-xs text-white/40">{t(HOUSEHOLD_ROLE_LABELS[inv.role])}</span>
+                  </div>
+                  <button
+                    onClick={() => handleAccept(inv)}
+                    className="px-3 py-1.5 bg-blue-500 text-white text-xs font-bold rounded-lg"
+                  >
+                    {t('household.join')}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Members of the active household */}
+          {activeHousehold && (
+            <div className="space-y-2">
+              <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('household.members')}</label>
+              {members.map(member => (
+                <div key={member.userId} className="flex items-center justify-between gap-2 p-3 bg-white/5 rounded-xl border border-white/5">
+                  <span className="text-sm text-white truncate">{member.email}</span>
+                  {isOwner && member.userId !== currentUserId ? (
+                    <div className="flex items-center gap-2 shrink-0">
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as HouseholdRole)}
+                        className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none appearance-none"
+                      >
+                        {Object.values(HouseholdRole).map(role => (
+                          <option key={role} value={role} className="bg-gray-900 text-white">{t(HOUSEHOLD_ROLE_LABELS[role])}</option>
+                        ))}
+                      </select>
+                      <button onClick={() => handleRemove(member)} className="p-1.5 rounded-lg text-red-400/70 hover:bg-red-500/10">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-white/40 shrink-0">{t(HOUSEHOLD_ROLE_LABELS[member.role])}</span>
+                  )}
+                </div>
+              ))}
+
+              {isOwner ? (
+                <form onSubmit={handleInvite} className="flex gap-2 pt-2">
+                  <div className="relative flex-1">
+                    <Mail size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/30" />
+                    <input
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder={t('household.emailPlaceholder')}
+                      className="w-full bg-white/5 border border-white/10 rounded-xl pl-8 pr-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all"
+                    />
+                  </div>
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as HouseholdRole)}
+                    className="bg-white/5 border border-white/10 rounded-xl px-2 text-xs text-white focus:outline-none appearance-none"
+                  >
+                    <option value={HouseholdRole.EDITOR} className="bg-gray-900 text-white">{t(HOUSEHOLD_ROLE_LABELS[HouseholdRole.EDITOR])}</option>
+                    <option value={HouseholdRole.VIEWER} className="bg-gray-900 text-white">{t(HOUSEHOLD_ROLE_LABELS[HouseholdRole.VIEWER])}</option>
+                  </select>
+                  <button type="submit" className="px-3 bg-white text-black text-xs font-bold rounded-xl">
+                    {t('household.invite')}
+                  </button>
+                </form>
+              ) : (
+                <button
+                  onClick={handleLeave}
+                  className="w-full flex items-center justify-center gap-2 py-3 bg-red-500/10 hover:bg-red-500/20 text-red-400 text-sm font-bold rounded-xl border border-red-500/20 transition-all"
+                >
+                  <LogOut size={14} /> {t('household.leave')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Create Household */}
+          <form onSubmit={handleCreate} className="space-y-2">
+            <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">{t('household.new')}</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newHouseholdName}
+                onChange={(e) => setNewHouseholdName(e.target.value)}
+                placeholder={t('household.namePlaceholder')}
+                className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all"
+              />
+              <button type="submit" className="p-2.5 bg-white/10 hover:bg-white/20 text-white rounded-xl transition-colors">
+                <Plus size={18} />
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, FileUp, AlertCircle, Copy, CheckCircle2 } from 'lucide-react';
+import { Bill, Category } from '../types';
+import { formatCurrency, formatDate } from '../utils';
+import { getBillCurrency } from '../currency';
+import { parseCsv } from '../csv';
+import {
+  ColumnMapping,
+  DuplicateMode,
+  IMPORT_FIELDS,
+  ImportPlan,
+  buildImportRows,
+  guessMapping,
+  looksLikeHeader,
+  planImport
+} from '../csvImport';
+import { t } from '../i18n';
+import { getCategoryLabel } from '../categories';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingBills: Bill[];
+  categories: Category[]; // Category cells are matched against these
+  currentUserId?: string;
+  onImport: (plan: ImportPlan) => void;
+}
+
+// Rows shown in the preview, the import itself covers the whole file
+const PREVIEW_LIMIT = 50;
+
+export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, existingBills, categories, currentUserId, onImport }) => {
+  const [rows, setRows] = useState<string[][]>([]);
+  const [fileName, setFileName] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRows([]);
+      setFileName('');
+      setMapping(null);
+      setDuplicateMode('skip');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const parsed = parseCsv(String(reader.result || ''));
+      if (parsed.length === 0) {
+        setError(t('import.error.empty'));
+        return;
+      }
+      const header = looksLikeHeader(parsed[0]);
+      setRows(parsed);
+      setFileName(file.name);
+      setHasHeader(header);
+      // Without headers, assume the column order of our own export
+      setMapping(header ? guessMapping(parsed[0]) : { name: 0, amount: 1, dueDate: 2, category: 3, isPaid: 4, isRecurring: 5, currency: null, isIncome: null });
+    };
+    reader.onerror = () => setError(t('common.error.fileRead'));
+    reader.readAsText(file);
+  };
+
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const columnLabel = (index: number) => hasHeader && rows[0]?.[index] ? rows[0][index] : t('import.column', { n: index + 1 });
+  const missingRequired = !!mapping && IMPORT_FIELDS.some(f => f.required && mapping[f.field] === null);
+
+  const importRows = useMemo(() => {
+    if (!mapping || missingRequired) return [];
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+    return buildImportRows(dataRows, mapping, existingBills, categories, hasHeader ? 2 : 1);
+  }, [rows, mapping, hasHeader, existingBills, categories, missingRequired]);
+
+  const plan = useMemo(() => planImport(importRows, duplicateMode, currentUserId), [importRows, duplicateMode, currentUserId]);
+  const invalidCount = importRows.filter(r => !r.bill).length;
+  const duplicateCount = importRows.filter(r => r.bill && (r.duplicateOf || r.duplicateInFile)).length;
+
+  const handleImport = () => {
+    if (plan.inserts.length === 0 && plan.merges.length === 0) return;
+    onImport(plan);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const optionClass = (selected: boolean) =>
+    `py-2 px-3 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('import.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400 text-sm">
+                <AlertCircle size={18} />
+                <span>{error}</span>
+            </div>
+        )}
+
+        <div className="space-y-5">
+          {/* File Picker */}
+          <label className="flex items-center justify-center gap-3 p-4 bg-white/5 hover:bg-white/10 rounded-2xl border border-dashed border-white/20 cursor-pointer transition-colors">
+            <FileUp size={18} className="text-white/60" />
+            <span className="text-sm text-white/70 truncate">{fileName || t('import.chooseFile')}</span>
+            <input type="file" accept=".csv,text/csv,text/plain" onChange={handleFile} className="hidden" />
+          </label>
+
+          {mapping && (
+            <>
+              {/* Column Mapping */}
+              <div className="p-4 bg-white/5 rounded-2xl border border-white/5 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-bold uppercase tracking-wide text-white/60">{t('import.columns')}</span>
+                  <label className="flex items-center gap-2 text-xs text-white/50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={hasHeader}
+                      onChange={(e) => setHasHeader(e.target.checked)}
+                      className="w-4 h-4 accent-blue-500"
+                    />
+                    {t('import.hasHeader')}
+                  </label>
+                </div>
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-white/80">{t(label)}{required && <span className="text-red-400"> *</span>}</span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                      className="w-40 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none appearance-none"
+                    >
+                      <option value="" className="bg-gray-900 text-white">{required ? t('import.choose') : t('import.skip')}</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i} className="bg-gray-900 text-white">{columnLabel(i)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Duplicates */}
+              {duplicateCount > 0 && (
+                <div className="p-4 bg-white/5 rounded-2xl border border-white/5">
+                  <div className="flex items-center gap-2 mb-1 text-white/60">
+                    <Copy size={14} />
+                    <span className="text-xs font-bold uppercase tracking-wide">{t('import.duplicates', { n: duplicateCount })}</span>
+                  </div>
+                  <p className="text-xs text-white/40 mb-3">{t('import.duplicatesHint')}</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button type="button" onClick={() => setDuplicateMode('skip')} className={optionClass(duplicateMode === 'skip')}>
+                      {t('import.skip')}
+                    </button>
+                    <button type="button" onClick={() => setDuplicateMode('merge')} className={optionClass(duplicateMode === 'merge')}>
+                      {t('import.merge')}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="space-y-2">
+                <label className="text-xs text-white/40 uppercase tracking-widest font-bold ml-1">
+                  {t('import.preview')} {invalidCount > 0 && <span className="text-red-400 normal-case tracking-normal">• {t('import.errors', { n: invalidCount })}</span>}
+                </label>
+                {missingRequired ? (
+                  <p className="text-xs text-white/40 p-3">{t('import.missingRequired')}</p>
+                ) : (
+                  importRows.slice(0, PREVIEW_LIMIT).map(row => (
+                    <div
+                      key={row.line}
+                      className={`p-3 rounded-xl border text-sm ${row.bill ? 'bg-white/5 border-white/5' : 'bg-red-500/10 border-red-500/20'}`}
+                    >
+                      {row.bill ? (
+                        <div className="flex justify-between items-center gap-2">
+                          <div className="flex flex-col min-w-0">
+                            <span className="text-white truncate">{row.bill.name}</span>
+                            <span className="text-[10px] text-white/40">
+                              {formatDate(row.bill.dueDate)} • {getCategoryLabel(categories, row.bill.category)}{row.bill.isPaid ? ` • ${t('status.paid')}` : ''}
+                              {(row.duplicateOf || row.duplicateInFile) && <span className="text-amber-400"> • {t('import.duplicate')}</span>}
+                            </span>
+                          </div>
+                          <span className="font-bold shrink-0">{formatCurrency(row.bill.amount, getBillCurrency(row.bill))}</span>
+                        </div>
+                      ) : (
+                        <span className="text-red-300 text-xs">{t('import.row', { n: row.line, errors: row.errors.join(', ') })}</span>
+                      )}
+                    </div>
+                  ))
+                )}
+                {importRows.length > PREVIEW_LIMIT && (
+                  <p className="text-xs text-white/30 text-center">{t('import.more', { n: importRows.length - PREVIEW_LIMIT })}</p>
+                )}
+              </div>
+
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={plan.inserts.length === 0 && plan.merges.length === 0}
+                className="w-full py-4 bg-white text-black font-bold rounded-2xl shadow-lg shadow-white/10 hover:scale-[1.02] transition-transform flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:scale-100"
+              >
+                <CheckCircle2 size={18} />
+                {t('import.submit', { n: plan.inserts.length })}{plan.merges.length > 0 ? t('import.submitMerge', { n: plan.merges.length }) : ''}
+              </button>
+              {plan.skipped > 0 && (
+                <p className="text-xs text-white/40 text-center -mt-2">{t('import.skipped', { n: plan.skipped })}</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Landmark } from 'lucide-react';
+import { Category } from '../types';
+import { formatCurrency } from '../utils';
+import { getBillCurrency } from '../currency';
+import { InstallmentPlanSummary } from '../installments';
+import { GlassCard } from './ui/GlassCard';
+import { getIntlLocale, t } from '../i18n';
+import { findCategory } from '../categories';
+
+interface InstallmentPlansProps {
+  plans: InstallmentPlanSummary[];
+  categories: Category[];
+}
+
+const formatPayoffDate = (dateString: string): string => {
+  return new Intl.DateTimeFormat(getIntlLocale(), { month: 'long', year: 'numeric' }).format(new Date(dateString));
+};
+
+export const InstallmentPlans: React.FC<InstallmentPlansProps> = ({ plans, categories }) => {
+  if (plans.length === 0) return null;
+
+  return (
+    <div className="px-6 mt-8 animate-enter-ios" style={{ animationDelay: '50ms' }}>
+      <h2 className="text-sm font-bold text-white/40 uppercase tracking-widest mb-4 ml-1 flex items-center gap-2">
+        <Landmark size={14} /> {t('installments.title')}
+      </h2>
+      <GlassCard className="p-4 space-y-4">
+        {plans.map(plan => {
+          const progress = plan.totalCount === 0 ? 0 : (plan.paidCount / plan.totalCount) * 100;
+          return (
+            <div key={plan.series.id}>
+              <div className="flex justify-between items-center text-sm mb-1">
+                <span className="flex items-center gap-2 text-white/80 min-w-0">
+                  <span>{findCategory(categories, plan.series.category).icon}</span>
+                  <span className="truncate">{plan.series.name}</span>
+                </span>
+                <span className="font-bold shrink-0 ml-2">{formatCurrency(plan.remainingAmount, getBillCurrency(plan.series))}</span>
+              </div>
+              <div className="flex justify-between text-[10px] text-white/40 mb-1.5">
+                <span>{t('installments.paid', { n: plan.paidCount, count: plan.totalCount })}</span>
+                <span>{t('installments.end', { date: formatPayoffDate(plan.payoffDate) })}</span>
+              </div>
+              <div className="w-full bg-white/5 h-1.5 rounded-full overflow-hidden">
+                <div className="bg-blue-400 h-full rounded-full transition-all duration-1000" style={{ width: `${progress}%` }}></div>
+              </div>
+            </div>
+          );
+        })}
+      </GlassCard>
+    </div>
+  );
+};
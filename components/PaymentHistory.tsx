@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { Wallet, Plus, Trash2 } from 'lucide-react';
+import { Payment, PaymentMethod, PAYMENT_METHOD_LABELS } from '../types';
+import { formatCurrency } from '../utils';
+import { createPayment } from '../payments';
+import { getIntlLocale, t } from '../i18n';
+
+interface PaymentHistoryProps {
+  payments: Payment[];
+  amount: number; // Bill amount the payments are measured against
+  currency: string;
+  onChange: (payments: Payment[]) => void;
+}
+
+const formatPaidAt = (dateString: string): string => {
+  return new Intl.DateTimeFormat(getIntlLocale(), { day: 'numeric', month: 'short', year: 'numeric' }).format(new Date(dateString));
+};
+
+export const PaymentHistory: React.FC<PaymentHistoryProps> = ({ payments, amount, currency, onChange }) => {
+  const paid = payments.reduce((sum, p) => sum + p.amount, 0);
+  const remaining = Math.max(0, amount - paid);
+
+  const [payAmount, setPayAmount] = useState('');
+  const [payDate, setPayDate] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>(PaymentMethod.TRANSFER);
+  const [reference, setReference] = useState('');
+
+  // The form always suggests paying off the rest today
+  useEffect(() => {
+    setPayAmount(remaining > 0 ? remaining.toFixed(2) : '');
+    setPayDate(new Date().toISOString().split('T')[0]);
+  }, [remaining]);
+
+  const handleAdd = () => {
+    const value = parseFloat(payAmount);
+    if (!value || value <= 0 || !payDate) return;
+    onChange([...payments, createPayment(value, method, new Date(payDate).toISOString(), reference)]);
+    setReference('');
+  };
+
+  const inputClass = "bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all";
+
+  return (
+    <div className="p-4 bg-white/5 rounded-2xl border border-white/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-white/60">
+          <Wallet size={14} />
+          <span className="text-xs font-bold uppercase tracking-wide">{t('payments.title')}</span>
+        </div>
+        <span className={`text-xs font-bold ${remaining > 0 ? 'text-red-300' : 'text-green-300'}`}>
+          {remaining > 0 ? t('payments.remaining', { amount: formatCurrency(remaining, currency) }) : t('payments.paidInFull')}
+        </span>
+      </div>
+
+      {payments.length > 0 && (
+        <div className="space-y-2">
+          {[...payments]
+            .sort((a, b) => new Date(a.paidAt).getTime() - new Date(b.paidAt).getTime())
+            .map(payment => (
+              <div key={payment.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="flex flex-col min-w-0">
+                  <span className="text-white/80">{formatPaidAt(payment.paidAt)} • {t(PAYMENT_METHOD_LABELS[payment.method])}</span>
+                  {payment.reference && <span className="text-[10px] text-white/40 truncate">{payment.reference}</span>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="font-bold">{formatCurrency(payment.amount, currency)}</span>
+                  <button
+                    type="button"
+                    onClick={() => onChange(payments.filter(p => p.id !== payment.id))}
+                    className="p-1.5 rounded-lg text-red-400/70 hover:bg-red-500/10"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {remaining > 0 && (
+        <div className="space-y-2 pt-2 border-t border-white/5">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              step="0.01"
+              value={payAmount}
+              onChange={(e) => setPayAmount(e.target.value)}
+              placeholder={t('field.amount')}
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={payDate}
+              onChange={(e) => setPayDate(e.target.value)}
+              className={`${inputClass} [color-scheme:dark]`}
+            />
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+              className={`${inputClass} appearance-none`}
+            >
+              {Object.values(PaymentMethod).map(m => (
+                <option key={m} value={m} className="bg-gray-900 text-white">{t(PAYMENT_METHOD_LABELS[m])}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder={t('payments.referencePlaceholder')}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="w-full flex items-center justify-center gap-2 py-2 bg-white/10 hover:bg-white/20 text-white text-xs font-bold rounded-xl transition-colors"
+          >
+            <Plus size={14} /> {t('payments.add')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
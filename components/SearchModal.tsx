@@ -0,0 +1,247 @@
+import React, { useState, useMemo } from 'react';
+import { X, Search, SlidersHorizontal, CheckCircle2, Circle } from 'lucide-react';
+import { Bill, Category } from '../types';
+import { BillSearchQuery, EMPTY_SEARCH_QUERY, PaidFilter, RecurringFilter, isEmptyQuery, searchBills } from '../search';
+import { ExchangeRateTable, getBillCurrency } from '../currency';
+import { findCategory, getCategoryName, sortCategories } from '../categories';
+import { formatCurrency, formatDate, getMonthYearLabel } from '../utils';
+import { MessageKey, t } from '../i18n';
+
+interface SearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bills: Bill[];
+  categories: Category[];
+  baseCurrency: string; // Amount filters and totals are in it
+  exchangeRates: ExchangeRateTable;
+  onSelect: (bill: Bill) => void; // Opens the bill on top of the search, which keeps its query
+}
+
+const PAID_OPTIONS: { label: MessageKey; val: PaidFilter }[] = [
+  { label: 'search.all', val: 'all' },
+  { label: 'status.paid', val: 'paid' },
+  { label: 'status.unpaid', val: 'unpaid' },
+];
+
+const RECURRING_OPTIONS: { label: MessageKey; val: RecurringFilter }[] = [
+  { label: 'search.all', val: 'all' },
+  { label: 'search.recurring', val: 'recurring' },
+  { label: 'bill.oneOff', val: 'oneOff' },
+];
+
+const parseAmount = (value: string): number | undefined => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? undefined : amount;
+};
+
+export const SearchModal: React.FC<SearchModalProps> = ({
+  isOpen,
+  onClose,
+  bills,
+  categories,
+  baseCurrency,
+  exchangeRates,
+  onSelect
+}) => {
+  const [filters, setFilters] = useState<BillSearchQuery>(EMPTY_SEARCH_QUERY);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+
+  const query = useMemo(
+    () => ({ ...filters, minAmount: parseAmount(minAmount), maxAmount: parseAmount(maxAmount) }),
+    [filters, minAmount, maxAmount]
+  );
+  const groups = useMemo(
+    () => isOpen && !isEmptyQuery(query) ? searchBills(bills, query, baseCurrency, exchangeRates) : [],
+    [isOpen, bills, query, baseCurrency, exchangeRates]
+  );
+  const resultCount = groups.reduce((sum, g) => sum + g.bills.length, 0);
+  const activeFilters = [
+    filters.categories.length > 0, filters.paid !== 'all', filters.recurring !== 'all',
+    query.minAmount !== undefined || query.maxAmount !== undefined, !!(filters.from || filters.to)
+  ].filter(Boolean).length;
+
+  const toggleCategory = (id: string) => {
+    const selected = filters.categories.includes(id)
+      ? filters.categories.filter(c => c !== id)
+      : [...filters.categories, id];
+    setFilters({ ...filters, categories: selected });
+  };
+
+  const clearFilters = () => {
+    setFilters({ ...EMPTY_SEARCH_QUERY, text: filters.text });
+    setMinAmount('');
+    setMaxAmount('');
+  };
+
+  if (!isOpen) return null;
+
+  const optionClass = (selected: boolean) =>
+    `py-2 px-3 rounded-xl text-xs font-medium transition-all ${selected ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`;
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:bg-white/10 transition-all [color-scheme:dark]";
+
+  const labelClass = "text-xs text-white/40 uppercase tracking-widest font-bold ml-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('search.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        {/* Text & Filter Toggle */}
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" />
+            <input
+              type="search"
+              value={filters.text}
+              onChange={(e) => setFilters({ ...filters, text: e.target.value })}
+              placeholder={t('search.placeholder')}
+              autoFocus
+              className="w-full bg-white/5 border border-white/10 rounded-xl pl-9 pr-3 py-3 text-white focus:outline-none focus:bg-white/10 transition-all"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowFilters(!showFilters)}
+            className={`relative px-3 rounded-xl transition-all ${showFilters ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`}
+            title={t('search.filters')}
+          >
+            <SlidersHorizontal size={18} />
+            {activeFilters > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-purple-500 text-[10px] font-bold text-white flex items-center justify-center">
+                {activeFilters}
+              </span>
+            )}
+          </button>
+        </div>
+
+        {/* Filters */}
+        {showFilters && (
+          <div className="mt-4 p-4 bg-white/5 rounded-2xl border border-white/5 space-y-4 animate-slide-up">
+            <div className="space-y-2">
+              <label className={labelClass}>
+                {t('field.category')} {filters.categories.length === 0 && <span className="normal-case tracking-normal font-normal">{t('export.allCategories')}</span>}
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {sortCategories(categories).map(cat => (
+                  <button key={cat.id} type="button" onClick={() => toggleCategory(cat.id)} className={`${optionClass(filters.categories.includes(cat.id))} truncate`}>
+                    {cat.icon} {getCategoryName(cat)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>{t('field.isPaid')}</label>
+              <div className="grid grid-cols-3 gap-2">
+                {PAID_OPTIONS.map(opt => (
+                  <button key={opt.val} type="button" onClick={() => setFilters({ ...filters, paid: opt.val })} className={optionClass(filters.paid === opt.val)}>
+                    {t(opt.label)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>{t('field.isRecurring')}</label>
+              <div className="grid grid-cols-3 gap-2">
+                {RECURRING_OPTIONS.map(opt => (
+                  <button key={opt.val} type="button" onClick={() => setFilters({ ...filters, recurring: opt.val })} className={optionClass(filters.recurring === opt.val)}>
+                    {t(opt.label)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>{t('search.amountRange', { currency: baseCurrency })}</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="text" inputMode="decimal" value={minAmount} onChange={(e) => setMinAmount(e.target.value)} placeholder={t('search.min')} className={inputClass} />
+                <input type="text" inputMode="decimal" value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)} placeholder={t('search.max')} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>{t('export.dateRange')}</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="date" value={filters.from || ''} onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })} className={inputClass} />
+                <input type="date" value={filters.to || ''} onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })} className={inputClass} />
+              </div>
+            </div>
+
+            {activeFilters > 0 && (
+              <button type="button" onClick={clearFilters} className="w-full py-2 rounded-xl text-sm font-medium bg-white/5 text-white/60 hover:bg-white/10">
+                {t('search.clearFilters')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Results */}
+        <div className="mt-6 space-y-6">
+          {isEmptyQuery(query) ? (
+            <p className="text-center text-white/40 text-sm py-8">{t('search.hint')}</p>
+          ) : groups.length === 0 ? (
+            <p className="text-center text-white/40 text-sm py-8">{t('search.empty')}</p>
+          ) : (
+            <>
+              <p className="text-xs text-white/40 ml-1">{t('search.results', { n: resultCount })}</p>
+              {groups.map(group => (
+                <div key={group.key}>
+                  <div className="flex justify-between items-baseline mb-2 ml-1">
+                    <span className="text-sm font-bold text-white/60 capitalize">{getMonthYearLabel(group.date)}</span>
+                    <span className="text-xs font-bold text-white/60">
+                      {formatCurrency(group.total, baseCurrency)}
+                      {group.income > 0 && <span className="text-green-300/80 ml-2">+{formatCurrency(group.income, baseCurrency)}</span>}
+                    </span>
+                  </div>
+                  <div className="space-y-2">
+                    {group.bills.map(bill => {
+                      const category = findCategory(categories, bill.category);
+                      return (
+                        <button
+                          key={bill.id}
+                          type="button"
+                          onClick={() => onSelect(bill)}
+                          className="w-full flex items-center gap-3 p-3 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/5 text-left transition-colors"
+                        >
+                          <span className="w-9 h-9 rounded-full flex items-center justify-center text-lg shrink-0" style={{ backgroundColor: `${category.color}33` }}>
+                            {category.icon}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <span className="block text-sm font-semibold truncate">{bill.name}</span>
+                            <span className="text-[10px] text-white/40">{formatDate(bill.dueDate)}</span>
+                          </div>
+                          <span className={`text-sm font-bold shrink-0 ${bill.isIncome ? 'text-green-300' : ''}`}>
+                            {bill.isIncome && '+'}{formatCurrency(bill.amount, getBillCurrency(bill))}
+                          </span>
+                          {bill.isPaid
+                            ? <CheckCircle2 size={14} className="text-green-300 shrink-0" />
+                            : <Circle size={14} className="text-red-300/70 shrink-0" />}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
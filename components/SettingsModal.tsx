@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { X, CalendarClock, ArchiveRestore, ChevronRight, Bell, Coins, Languages, Tags } from 'lucide-react';
+import { AppSettings } from '../settings';
+import { REMINDER_HOUR, ReminderSettings } from '../reminders';
+import { LOCALES, Locale, MessageKey, t } from '../i18n';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onOpenBackup: () => void;
+  onOpenCurrencies: () => void;
+  onOpenCategories: () => void;
+  locale: Locale;
+  onChangeLocale: (locale: Locale) => void; // Applied right away, not with the other settings
+}
+
+const HORIZON_OPTIONS = [6, 12, 18, 24, 36];
+const REMINDER_DAYS_OPTIONS: { label: MessageKey; params?: { n: number }; val: number | null }[] = [
+  { label: 'common.no', val: null },
+  { label: 'overdue.oneDay', val: 1 },
+  { label: 'overdue.days', params: { n: 2 }, val: 2 },
+  { label: 'overdue.days', params: { n: 3 }, val: 3 },
+  { label: 'overdue.days', params: { n: 7 }, val: 7 },
+];
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSave, onOpenBackup, onOpenCurrencies, onOpenCategories, locale, onChangeLocale }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  const setReminders = (changes: Partial<ReminderSettings>) =>
+    setDraft({ ...draft, reminders: { ...draft.reminders, ...changes } });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div 
+        className="absolute inset-0 bg-black/60 backdrop-blur-md transition-opacity" 
+        onClick={onClose}
+      />
+
+      <div className="relative w-full sm:max-w-md bg-[#1a1a1a] sm:rounded-3xl rounded-t-3xl border-t sm:border border-white/10 shadow-2xl p-6 animate-slide-up max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
+            {t('app.action.settings')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors">
+            <X className="text-white/70" size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {/* Language */}
+          <div className="p-4 bg-white/5 rounded-2xl border border-white/5">
+            <div className="flex items-center gap-2 mb-3 text-white/60">
+              <Languages size={14} />
+              <span className="text-xs font-bold uppercase tracking-wide">{t('settings.language')}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {LOCALES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => onChangeLocale(id)}
+                  className={`py-2 rounded-xl text-xs font-medium transition-all ${locale === id ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Recurrence Horizon */}
+          <div className="p-4 bg-white/5 rounded-2xl border border-white/5">
+            <div className="flex items-center gap-2 mb-1 text-white/60">
+              <CalendarClock size={14} />
+              <span className="text-xs font-bold uppercase tracking-wide">{t('settings.horizon')}</span>
+            </div>
+            <p className="text-xs text-white/40 mb-3">{t('settings.horizonHint')}</p>
+            <div className="grid grid-cols-5 gap-2">
+              {HORIZON_OPTIONS.map((months) => (
+                <button
+                  key={months}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, recurrenceHorizonMonths: months })}
+                  className={`py-2 rounded-xl text-xs font-medium transition-all ${draft.recurrenceHorizonMonths === months ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+                >
+                  {t('settings.months', { n: months })}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Reminders */}
+          <div className="p-4 bg-white/5 rounded-2xl border border-white/5 space-y-3">
+            <label className="flex items-center justify-between gap-3 cursor-pointer">
+              <span className="flex items-center gap-2 text-white/60">
+                <Bell size={14} />
+                <span className="text-xs font-bold uppercase tracking-wide">{t('settings.reminders')}</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={draft.reminders.enabled}
+                onChange={(e) => setReminders({ enabled: e.target.checked })}
+                className="w-4 h-4 accent-blue-500"
+              />
+            </label>
+
+            {draft.reminders.enabled && (
+              <>
+                <p className="text-xs text-white/40">{t('settings.remindersHint', { hour: `${REMINDER_HOUR}:00` })}</p>
+                <div className="grid grid-cols-5 gap-2">
+                  {REMINDER_DAYS_OPTIONS.map((opt) => (
+                    <button
+                      key={String(opt.val)}
+                      type="button"
+                      onClick={() => setReminders({ daysBefore: opt.val })}
+                      className={`py-2 rounded-xl text-xs font-medium transition-all ${draft.reminders.daysBefore === opt.val ? 'bg-blue-500 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+                    >
+                      {t(opt.label, opt.params)}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center justify-between gap-3 cursor-pointer">
+                  <span className="text-sm text-white/80">{t('settings.onDueDate')}</span>
+                  <input
+                    type="checkbox"
+                    checked={draft.reminders.onDueDate}
+                    onChange={(e) => setReminders({ onDueDate: e.target.checked })}
+                    className="w-4 h-4 accent-blue-500"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-3 cursor-pointer">
+                  <span className="text-sm text-white/80">{t('settings.overdueSummary')}</span>
+                  <input
+                    type="checkbox"
+                    checked={draft.reminders.overdueSummary}
+                    onChange={(e) => setReminders({ overdueSummary: e.target.checked })}
+                    className="w-4 h-4 accent-blue-500"
+                  />
+                </label>
+              </>
+            )}
+          </div>
+
+          {/* Categories */}
+          <button
+            type="button"
+            onClick={() => { onClose(); onOpenCategories(); }}
+            className="w-full flex items-center justify-between p-4 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/5 transition-colors"
+          >
+            <span className="flex items-center gap-2 text-white/60">
+              <Tags size={14} />
+              <span className="text-xs font-bold uppercase tracking-wide">{t('categories.title')}</span>
+            </span>
+            <ChevronRight size={16} className="text-white/40" />
+          </button>
+
+          {/* Currencies */}
+          <button
+            type="button"
+            onClick={() => { onClose(); onOpenCurrencies(); }}
+            className="w-full flex items-center justify-between p-4 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/5 transition-colors"
+          >
+            <span className="flex items-center gap-2 text-white/60">
+              <Coins size={14} />
+              <span className="text-xs font-bold uppercase tracking-wide">{t('currency.title')}</span>
+            </span>
+            <span className="flex items-center gap-2 text-xs text-white/40">
+              {settings.baseCurrency}
+              <ChevronRight size={16} />
+            </span>
+          </button>
+
+          {/* Backup */}
+          <button
+            type="button"
+            onClick={() => { onClose(); onOpenBackup(); }}
+            className="w-full flex items-center justify-between p-4 bg-white/5 hover:bg-white/10 rounded-2xl border border-white/5 transition-colors"
+          >
+            <span className="flex items-center gap-2 text-white/60">
+              <ArchiveRestore size={14} />
+              <span className="text-xs font-bold uppercase tracking-wide">{t('settings.backup')}</span>
+            </span>
+            <ChevronRight size={16} className="text-white/40" />
+          </button>
+
+          <button 
+            type="submit"
+            className="w-full py-4 bg-white text-black font-bold rounded-2xl shadow-lg shadow-white/10 hover:scale-[1.02] transition-transform"
+          >
+            {t('common.save')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,69 +1,126 @@
 import React, { useMemo } from 'react';
-import { Bill, BillCategory, CATEGORY_ICONS } from '../types';
-import { formatCurrency } from '../utils';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { Bill, Category } from '../types';
+import { formatCurrency, formatDate } from '../utils';
+import { getPaidAmount } from '../payments';
+import { DEFAULT_CURRENCY, ExchangeRateTable, convertAmount, toBaseAmount } from '../currency';
 import { GlassCard } from './ui/GlassCard';
+import { getIntlLocale, t } from '../i18n';
+import { findCategory, getCategoryName } from '../categories';
+import { getYearlyBudgetLimit } from '../budgets';
+import { getPriceChanges } from '../priceChanges';
+import { getSavingsRate, isIncome } from '../income';
 
 interface YearlySummaryProps {
   bills: Bill[];
+  categories: Category[];
   year: number;
+  baseCurrency: string; // All totals are converted to it
+  exchangeRates: ExchangeRateTable;
 }
 
-export const YearlySummary: React.FC<YearlySummaryProps> = ({ bills, year }) => {
-  // Filter bills for the specific year
-  const yearlyBills = useMemo(() => {
+export const YearlySummary: React.FC<YearlySummaryProps> = ({ bills, categories, year, baseCurrency, exchangeRates }) => {
+  // Filter bills for the specific year, income is summed up separately
+  const yearlyEntries = useMemo(() => {
     return bills.filter(b => new Date(b.dueDate).getFullYear() === year);
   }, [bills, year]);
+  const yearlyBills = useMemo(() => yearlyEntries.filter(b => !isIncome(b)), [yearlyEntries]);
+
+  const monthlyIncome = useMemo(() => {
+    const data = new Array(12).fill(0);
+    yearlyEntries.filter(isIncome).forEach(entry => {
+      data[new Date(entry.dueDate).getMonth()] += toBaseAmount(entry, entry.amount, baseCurrency, exchangeRates);
+    });
+    return data;
+  }, [yearlyEntries, baseCurrency, exchangeRates]);
 
   // Calculate monthly totals for the chart
   const monthlyData = useMemo(() => {
     const data = new Array(12).fill(0);
     yearlyBills.forEach(bill => {
       const monthIndex = new Date(bill.dueDate).getMonth();
-      data[monthIndex] += bill.amount;
+      data[monthIndex] += toBaseAmount(bill, bill.amount, baseCurrency, exchangeRates);
     });
     return data;
-  }, [yearlyBills]);
+  }, [yearlyBills, baseCurrency, exchangeRates]);
 
   // Calculate category totals
   const categoryData = useMemo(() => {
-    const categories: Record<string, number> = {};
+    const totals: Record<string, number> = {};
     let total = 0;
 
     yearlyBills.forEach(bill => {
-      categories[bill.category] = (categories[bill.category] || 0) + bill.amount;
-      total += bill.amount;
+      const amount = toBaseAmount(bill, bill.amount, baseCurrency, exchangeRates);
+      totals[bill.category] = (totals[bill.category] || 0) + amount;
+      total += amount;
     });
 
-    return Object.entries(categories)
-      .map(([cat, amount]) => ({
-        category: cat as BillCategory,
-        amount,
-        percentage: total === 0 ? 0 : (amount / total) * 100
-      }))
+    return Object.entries(totals)
+      .map(([id, amount]) => {
+        const category = findCategory(categories, id);
+        return {
+          category,
+          amount,
+          percentage: total === 0 ? 0 : (amount / total) * 100,
+          budget: category.budget ? getYearlyBudgetLimit(category.budget, baseCurrency, exchangeRates) : null
+        };
+      })
       .sort((a, b) => b.amount - a.amount);
-  }, [yearlyBills]);
+  }, [yearlyBills, categories, baseCurrency, exchangeRates]);
+
+  // Changes that took effect this year; series always have their full history in `bills`
+  const priceChanges = useMemo(
+    () => getPriceChanges(bills).filter(c => new Date(c.date).getFullYear() === year),
+    [bills, year]
+  );
+  const priceImpact = priceChanges.reduce((sum, c) => sum + convertAmount(c.annualImpact, c.currency, baseCurrency, exchangeRates), 0);
 
   const totalYearly = monthlyData.reduce((a, b) => a + b, 0);
+  // Partial payments count with what was actually paid
+  const paidYearly = yearlyBills.reduce((sum, bill) => sum + toBaseAmount(bill, Math.min(bill.amount, getPaidAmount(bill)), baseCurrency, exchangeRates), 0);
   const maxMonthValue = Math.max(...monthlyData, 1); // Avoid division by zero
-  const monthNames = ['Sty', 'Lut', 'Mar', 'Kwi', 'Maj', 'Cze', 'Lip', 'Sie', 'Wrz', 'Paź', 'Lis', 'Gru'];
+  const incomeYearly = monthlyIncome.reduce((a, b) => a + b, 0);
+  const savingsRate = getSavingsRate(incomeYearly, totalYearly);
+  const monthlyNet = monthlyIncome.map((income, index) => income - monthlyData[index]);
+  const maxNetValue = Math.max(...monthlyNet.map(Math.abs), 1);
+  const monthFormat = new Intl.DateTimeFormat(getIntlLocale(), { month: 'short' });
+  const monthNames = monthlyData.map((_, index) => monthFormat.format(new Date(year, index, 1)).replace('.', ''));
 
   return (
     <div className="space-y-6 animate-slide-up">
       {/* Total Year Card */}
       <GlassCard className="p-6 text-center bg-blue-900/10 border-blue-500/20">
-        <span className="text-sm font-bold text-blue-300 uppercase tracking-widest">Wydano w {year}</span>
+        <span className="text-sm font-bold text-blue-300 uppercase tracking-widest">{t('yearly.spentIn', { year })}</span>
         <h2 className="text-4xl font-extrabold mt-2 text-white drop-shadow-lg">
-          {formatCurrency(totalYearly)}
+          {formatCurrency(totalYearly, baseCurrency)}
         </h2>
         <p className="text-xs text-white/50 mt-1">
-          Średnio {formatCurrency(totalYearly / 12)} / msc
+          {t('yearly.average', { amount: formatCurrency(totalYearly / 12, baseCurrency) })}
+        </p>
+        <p className="text-xs text-white/50 mt-1">
+          {t('yearly.paid', { amount: formatCurrency(paidYearly, baseCurrency) })} • {t('status.unpaid')} {formatCurrency(totalYearly - paidYearly, baseCurrency)}
         </p>
       </GlassCard>
 
+      {/* Savings Rate */}
+      {savingsRate !== null && (
+        <GlassCard className="p-4 flex items-center justify-between bg-sky-900/10 border-sky-500/20">
+          <div>
+            <span className="text-xs font-bold text-sky-300/80 uppercase block">{t('yearly.savingsRate')}</span>
+            <span className="text-[10px] text-white/40">
+              {t('yearly.incomeVsBills', { income: formatCurrency(incomeYearly, baseCurrency), bills: formatCurrency(totalYearly, baseCurrency) })}
+            </span>
+          </div>
+          <span className={`text-2xl font-bold ${savingsRate < 0 ? 'text-red-300' : 'text-green-300'}`}>
+            {Math.round(savingsRate * 100)}%
+          </span>
+        </GlassCard>
+      )}
+
       {/* Monthly Chart */}
       <div className="bg-white/5 border border-white/10 rounded-3xl p-6">
         <h3 className="text-sm font-bold text-white/40 uppercase tracking-widest mb-6 ml-1">
-          Wykres miesięczny
+          {t('yearly.chart')}
         </h3>
         <div className="flex items-end justify-between h-48 gap-2">
           {monthlyData.map((amount, index) => {
@@ -80,7 +137,7 @@ export const YearlySummary: React.FC<YearlySummaryProps> = ({ bills, year }) =>
                      {/* Tooltip for value */}
                      {amount > 0 && (
                         <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-black/80 text-white text-[10px] py-1 px-2 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none border border-white/10 z-10">
-                            {Math.round(amount)} zł
+                            {Math.round(amount)} {baseCurrency === DEFAULT_CURRENCY ? 'zł' : baseCurrency}
                         </div>
                      )}
                   </div>
@@ -92,31 +149,105 @@ export const YearlySummary: React.FC<YearlySummaryProps> = ({ bills, year }) =>
         </div>
       </div>
 
+      {/* Monthly Net: income minus bills, above or below the zero line */}
+      {incomeYearly > 0 && (
+        <div className="bg-white/5 border border-white/10 rounded-3xl p-6">
+          <h3 className="text-sm font-bold text-white/40 uppercase tracking-widest mb-6 ml-1">
+            {t('yearly.netChart')}
+          </h3>
+          <div className="flex justify-between h-40 gap-2">
+            {monthlyNet.map((net, index) => {
+              const heightPercentage = (Math.abs(net) / maxNetValue) * 50;
+              return (
+                <div key={index} className="flex-1 flex flex-col items-center gap-2 group">
+                  <div className="w-full relative h-full">
+                    <div className="absolute left-0 right-0 top-1/2 h-px bg-white/10" />
+                    <div
+                      style={{ height: `${heightPercentage}%`, [net >= 0 ? 'bottom' : 'top']: '50%' }}
+                      className={`absolute w-full transition-all duration-1000 ease-out ${net >= 0 ? 'rounded-t-md bg-green-400/40' : 'rounded-b-md bg-red-400/40'}`}
+                    />
+                    {net !== 0 && (
+                      <div className="absolute top-0 left-1/2 -translate-x-1/2 bg-black/80 text-white text-[10px] py-1 px-2 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none border border-white/10 z-10">
+                        {Math.round(net)} {baseCurrency === DEFAULT_CURRENCY ? 'zł' : baseCurrency}
+                      </div>
+                    )}
+                  </div>
+                  <span className="text-[9px] text-white/30 font-medium uppercase">{monthNames[index]}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Price Changes */}
+      {priceChanges.length > 0 && (
+        <div>
+          <h3 className="text-sm font-bold text-white/40 uppercase tracking-widest mb-4 ml-1 flex justify-between">
+            <span>{t('priceChange.title')}</span>
+            <span className={priceImpact > 0 ? 'text-amber-300/80' : 'text-green-300/80'}>
+              {t('priceChange.perYear', { amount: formatCurrency(priceImpact, baseCurrency) })}
+            </span>
+          </h3>
+          <GlassCard className="p-4 space-y-3">
+            {priceChanges.map(change => {
+              const isIncrease = change.amount > change.previousAmount;
+              return (
+                <div key={`${change.seriesId}-${change.date}`} className="flex items-center gap-3 text-sm">
+                  {isIncrease
+                    ? <TrendingUp size={16} className="text-amber-300 shrink-0" />
+                    : <TrendingDown size={16} className="text-green-300 shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    <span className="block truncate text-white/80">{change.name}</span>
+                    <span className="text-[10px] text-white/40">
+                      {formatDate(change.date)} • {formatCurrency(change.previousAmount, change.currency)} → {formatCurrency(change.amount, change.currency)}
+                    </span>
+                  </div>
+                  <span className={`text-xs font-bold shrink-0 ${isIncrease ? 'text-amber-300' : 'text-green-300'}`}>
+                    {t('priceChange.perYear', { amount: formatCurrency(change.annualImpact, change.currency) })}
+                  </span>
+                </div>
+              );
+            })}
+          </GlassCard>
+        </div>
+      )}
+
       {/* Category Breakdown */}
       <div>
         <h3 className="text-sm font-bold text-white/40 uppercase tracking-widest mb-4 ml-1">
-          Według Kategorii
+          {t('yearly.byCategory')}
         </h3>
         <div className="space-y-3">
           {categoryData.length === 0 ? (
-             <p className="text-white/30 text-center py-4 text-sm">Brak danych dla tego roku.</p>
+             <p className="text-white/30 text-center py-4 text-sm">{t('yearly.empty')}</p>
           ) : (
             categoryData.map((item) => (
-                <GlassCard key={item.category} className="p-4 flex items-center gap-4">
-                <div className="text-2xl bg-white/5 p-2 rounded-full">
-                    {CATEGORY_ICONS[item.category]}
+                <GlassCard key={item.category.id} className="p-4 flex items-center gap-4">
+                <div className="text-2xl p-2 rounded-full" style={{ backgroundColor: `${item.category.color}33` }}>
+                    {item.category.icon}
                 </div>
                 <div className="flex-1">
                     <div className="flex justify-between items-center mb-1">
-                        <span className="font-semibold">{item.category}</span>
-                        <span className="font-bold text-white/80">{formatCurrency(item.amount)}</span>
+                        <span className="font-semibold">{getCategoryName(item.category)}</span>
+                        <span className="font-bold text-white/80">{formatCurrency(item.amount, baseCurrency)}</span>
                     </div>
                     <div className="w-full bg-white/5 h-1.5 rounded-full overflow-hidden">
                         <div 
-                            className="bg-purple-400 h-full rounded-full" 
-                            style={{ width: `${item.percentage}%` }}
+                            className="h-full rounded-full" 
+                            style={{ width: `${item.percentage}%`, backgroundColor: item.category.color }}
                         />
                     </div>
+                    {item.budget !== null && (
+                        <div className={`flex justify-between text-[10px] mt-1.5 ${item.amount > item.budget ? 'text-red-300' : 'text-white/40'}`}>
+                            <span>{t('yearly.budget', { amount: formatCurrency(item.budget, baseCurrency) })}</span>
+                            <span>
+                                {item.amount > item.budget
+                                    ? t('budget.over', { amount: formatCurrency(item.amount - item.budget, baseCurrency) })
+                                    : t('yearly.budgetUsed', { percent: Math.round((item.amount / item.budget) * 100) })}
+                            </span>
+                        </div>
+                    )}
                 </div>
                 </GlassCard>
             ))
@@ -0,0 +1,67 @@
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, line breaks inside quotes, CRLF or LF.
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheets in Polish locales write ';', our own export writes ','
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts = DELIMITERS.map(d => firstLine.split(d).length - 1);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+export const parseCsv = (input: string, delimiter: string = detectDelimiter(input)): string[][] => {
+  const text = input.replace(/^\uFEFF/, ''); // Excel adds a byte order mark
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const needsQuotes = (value: string, delimiter: string): boolean =>
+  value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r');
+
+export const escapeCsvField = (value: string, delimiter: string): string => {
+  return needsQuotes(value, delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// CRLF line endings as RFC 4180 asks, with a byte order mark so Excel reads UTF-8
+export const toCsv = (rows: string[][], delimiter: string = ',', withBom: boolean = true): string => {
+  const body = rows.map(row => row.map(cell => escapeCsvField(cell, delimiter)).join(delimiter)).join('\r\n');
+  return (withBom ? '\uFEFF' : '') + body + '\r\n';
+};
@@ -0,0 +1,84 @@
+import { Bill, Category } from './types';
+import { describeRecurrence, getRecurrenceRule } from './recurrence';
+import { toCsv } from './csv';
+import { getBillCurrency } from './currency';
+import { MessageKey, getIntlLocale, t } from './i18n';
+import { getCategoryLabel } from './categories';
+import { getOutgoings } from './income';
+import { toDayString } from './utils';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// `locale` writes numbers and dates the way a spreadsheet in the app's language expects, `iso` suits scripts
+export type CsvValueFormat = 'locale' | 'iso';
+
+export interface CsvExportOptions {
+  delimiter: CsvDelimiter;
+  format: CsvValueFormat;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, inclusive
+  categories: string[]; // Category ids, empty exports every category
+  includeSeries: boolean; // Adds frequency and series columns
+  includeIncome: boolean; // Income rows are told apart by the type column, the importer reads it back
+}
+
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = {
+  delimiter: ';',
+  format: 'locale',
+  categories: [],
+  includeSeries: true,
+  includeIncome: true
+};
+
+// The first columns keep the names and order of the original export, so older files and the importer line up
+const BASE_HEADERS: MessageKey[] = ['field.name', 'field.amount', 'field.dueDate', 'field.category', 'field.isPaid', 'field.isRecurring', 'field.currency', 'field.isIncome'];
+const SERIES_HEADERS: MessageKey[] = ['csv.header.frequency', 'csv.header.series'];
+
+// No grouping: thousands separators would clash with the delimiter and confuse the importer
+export const formatCsvAmount = (amount: number, format: CsvValueFormat): string => {
+  if (format === 'iso') return amount.toFixed(2);
+  return new Intl.NumberFormat(getIntlLocale(), { minimumFractionDigits: 2, maximumFractionDigits: 2, useGrouping: false }).format(amount);
+};
+
+// e.g. 19.10.2026 in Polish, 19/10/2026 in English
+export const formatCsvDay = (dueDate: string, format: CsvValueFormat): string => {
+  const day = toDayString(dueDate);
+  if (format === 'iso') return day;
+  const [year, month, date] = day.split('-').map(Number);
+  return new Intl.DateTimeFormat(getIntlLocale(), { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(Date.UTC(year, month - 1, date)));
+};
+
+export const filterBillsForExport = (bills: Bill[], options: CsvExportOptions): Bill[] => {
+  return (options.includeIncome ? bills : getOutgoings(bills))
+    .filter(bill => {
+      const day = toDayString(bill.dueDate);
+      if (options.from && day < options.from) return false;
+      if (options.to && day > options.to) return false;
+      return options.categories.length === 0 || options.categories.includes(bill.category);
+    })
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+};
+
+export const buildCsvExport = (bills: Bill[], categories: Category[], options: CsvExportOptions): string => {
+  const headers = (options.includeSeries ? [...BASE_HEADERS, ...SERIES_HEADERS] : BASE_HEADERS).map(key => t(key));
+
+  const rows = filterBillsForExport(bills, options).map(bill => {
+    const row = [
+      bill.name,
+      formatCsvAmount(bill.amount, options.format),
+      formatCsvDay(bill.dueDate, options.format),
+      getCategoryLabel(categories, bill.category),
+      bill.isPaid ? t('status.paid') : t('status.unpaid'),
+      bill.isRecurring ? t('common.yes') : t('common.no'),
+      getBillCurrency(bill),
+      bill.isIncome ? t('edit.kind.income') : t('edit.kind.bill')
+    ];
+    if (options.includeSeries) {
+      row.push(bill.isRecurring ? describeRecurrence(getRecurrenceRule(bill)) : '', bill.seriesId || '');
+    }
+    return row;
+  });
+
+  return toCsv([headers, ...rows], options.delimiter);
+};
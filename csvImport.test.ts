@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DefaultCategory } from './types';
+import { buildImportRows, guessMapping, parseAmount, parseDate } from './csvImport';
+import { DEFAULT_CSV_EXPORT_OPTIONS, buildCsvExport, filterBillsForExport, formatCsvAmount, formatCsvDay } from './csvExport';
+import { setLocale } from './i18n';
+import { parseCsv } from './csv';
+import { DEFAULT_CATEGORIES } from './categories';
+import { makeBill } from './testFixtures';
+
+describe('parseAmount', () => {
+  it.each([
+    ['1234.5', 1234.5],
+    ['12,50', 12.5],
+    ['1 234,50 zł', 1234.5],
+    ['1.234,50', 1234.5],
+    ['1,234.50', 1234.5],
+    ['1.234.567', 1234567],
+    ['1,234,567.89', 1234567.89],
+    ['-45,99 PLN', -45.99],
+    ['250', 250]
+  ])('reads %s', (value, expected) => {
+    expect(parseAmount(value)).toBe(expected);
+  });
+
+  it.each(['1,234', '1.234', '12.34,5.6', '1,23.45', '1.2345,6', ',5', '5,', 'abc', ''])('rejects %s', value => {
+    expect(parseAmount(value)).toBeNull();
+  });
+});
+
+describe('export round trip', () => {
+  it('keeps income entries apart from bills', () => {
+    const bills = [
+      makeBill('a', { name: 'Rent', category: DefaultCategory.OTHER }),
+      makeBill('b', { name: 'Salary', isIncome: true, category: DefaultCategory.OTHER })
+    ];
+    const csv = buildCsvExport(bills, DEFAULT_CATEGORIES, { ...DEFAULT_CSV_EXPORT_OPTIONS, includeSeries: false });
+    const [headers, ...rows] = parseCsv(csv);
+    const imported = buildImportRows(rows, guessMapping(headers), [], DEFAULT_CATEGORIES);
+
+    expect(imported.map(row => row.errors)).toEqual([[], []]);
+    expect(imported.map(row => [row.bill?.name, !!row.bill?.isIncome])).toEqual([['Rent', false], ['Salary', true]]);
+  });
+
+  it('leaves income out when asked to', () => {
+    const bills = [makeBill('a'), makeBill('b', { isIncome: true })];
+    expect(filterBillsForExport(bills, { ...DEFAULT_CSV_EXPORT_OPTIONS, includeIncome: false }).map(b => b.id)).toEqual(['a']);
+  });
+});
+
+describe('locale value format', () => {
+  afterEach(() => setLocale('pl'));
+
+  it('follows the app language and reads back', () => {
+    const dueDate = new Date(2026, 9, 19, 12).toISOString();
+    expect([formatCsvAmount(1234.5, 'locale'), formatCsvDay(dueDate, 'locale')]).toEqual(['1234,50', '19.10.2026']);
+
+    setLocale('en');
+    expect([formatCsvAmount(1234.5, 'locale'), formatCsvDay(dueDate, 'locale')]).toEqual(['1234.50', '19/10/2026']);
+    expect(parseAmount(formatCsvAmount(1234.5, 'locale'))).toBe(1234.5);
+    expect(parseDate(formatCsvDay(dueDate, 'locale'))).toBe(parseDate('2026-10-19'));
+  });
+});
@@ -0,0 +1,262 @@
+import { Bill, Category, DefaultCategory } from './types';
+import { BillChanges } from './repositories';
+import { createTempId } from './offlineQueue';
+import { findDuplicateBill } from './duplicates';
+import { togglePaymentChanges } from './payments';
+import { MessageKey, allTranslations, t } from './i18n';
+import { matchCategory } from './categories';
+
+export type ImportField = 'name' | 'amount' | 'dueDate' | 'category' | 'isPaid' | 'isRecurring' | 'currency' | 'isIncome';
+
+// Labels double as the CSV export headers
+export const IMPORT_FIELDS: { field: ImportField; label: MessageKey; required: boolean }[] = [
+  { field: 'name', label: 'field.name', required: true },
+  { field: 'amount', label: 'field.amount', required: true },
+  { field: 'dueDate', label: 'field.dueDate', required: true },
+  { field: 'category', label: 'field.category', required: false },
+  { field: 'isPaid', label: 'field.isPaid', required: false },
+  { field: 'isRecurring', label: 'field.isRecurring', required: false },
+  { field: 'currency', label: 'field.currency', required: false },
+  { field: 'isIncome', label: 'field.isIncome', required: false },
+];
+
+// Column index per field, null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// Headers of our own CSV export are matched through the field labels, in every locale
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['nazwa', 'name', 'rachunek', 'opis', 'tytuł'],
+  amount: ['kwota', 'amount', 'cena', 'suma', 'wartość'],
+  dueDate: ['data', 'termin', 'date', 'due date', 'data płatności', 'termin płatności'],
+  category: ['kategoria', 'category'],
+  isPaid: ['status', 'zapłacone', 'zapłacony', 'paid', 'opłacone'],
+  isRecurring: ['powtarzalny', 'cykliczny', 'recurring'],
+  currency: ['waluta', 'currency'],
+  isIncome: ['typ', 'type', 'rodzaj'],
+};
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalize);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field, label }) => {
+    const aliases = [...HEADER_ALIASES[field], ...allTranslations(label).map(normalize)];
+    const index = normalized.findIndex(h => aliases.includes(h));
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+export const looksLikeHeader = (row: string[]): boolean => {
+  return Object.values(guessMapping(row)).some(index => index !== null);
+};
+
+// Accepts "1234.5", "1 234,50 zł", "1.234,50" and "1,234.50": the last separator is the decimal one
+// and any other separator has to group thousands. "1,234" or "1.234" could be either, so it's rejected.
+export const parseAmount = (value: string): number | null => {
+  const cleaned = value.replace(/\s|zł|pln/gi, '');
+  const negative = cleaned.startsWith('-');
+  const digits = negative ? cleaned.slice(1) : cleaned;
+  if (!/^[\d.,]+$/.test(digits)) return null;
+
+  const separators = digits.match(/[.,]/g) ?? [];
+  const last = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  let integer = digits;
+  let fraction: string | null = null;
+  // A separator used more than once only groups thousands ("1.234.567")
+  if (last !== -1 && separators.filter(s => s === digits[last]).length === 1) {
+    integer = digits.slice(0, last);
+    fraction = digits.slice(last + 1);
+    if (separators.length === 1 && fraction.length === 3) return null;
+  }
+
+  const group = integer.match(/[.,]/)?.[0];
+  if (group) {
+    if (!new RegExp(`^\\d{1,3}(\\${group}\\d{3})+$`).test(integer)) return null;
+    integer = integer.split(group).join('');
+  }
+  if (!/^\d+$/.test(integer) || (fraction !== null && !/^\d+$/.test(fraction))) return null;
+
+  const amount = parseFloat(fraction === null ? integer : `${integer}.${fraction}`);
+  return negative ? -amount : amount;
+};
+
+// Accepts pl-PL dates ("19.10.2026"), "19/10/2026", "19-10-2026" and ISO dates.
+// Returns the same ISO form the bill form produces for a picked day.
+export const parseDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const local = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString();
+};
+
+// Returns the category id. Default categories also match their labels in any locale,
+// so exports made in either language import back.
+export const parseCategory = (value: string, categories: Category[]): string | null => {
+  if (!value.trim()) return DefaultCategory.OTHER;
+  return matchCategory(categories, value)?.id ?? null;
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { 'zł': 'PLN', '€': 'EUR', '$': 'USD', '£': 'GBP' };
+
+// ISO codes or common symbols; an empty cell leaves the bill in PLN
+export const parseCurrency = (value: string): string | undefined | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const code = CURRENCY_SYMBOLS[trimmed.toLowerCase()] ?? trimmed.toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+};
+
+// Type column of the export; an empty cell is a bill
+export const parseKind = (value: string): boolean | null => {
+  const normalized = normalize(value);
+  if (!normalized || allTranslations('edit.kind.bill').some(v => normalize(v) === normalized)) return false;
+  if (allTranslations('edit.kind.income').some(v => normalize(v) === normalized)) return true;
+  return null;
+};
+
+const TRUE_VALUES = ['tak', 'zapłacone', 'zapłacony', 'opłacone', 'yes', 'true', '1', 'x'];
+const FALSE_VALUES = ['nie', 'do zapłaty', 'niezapłacone', 'no', 'false', '0', ''];
+
+// Besides the fixed values, status and yes/no words of every locale are recognised
+export const parseFlag = (value: string): boolean | null => {
+  const normalized = normalize(value);
+  const matches = (values: string[], keys: MessageKey[]) =>
+    values.includes(normalized) || keys.some(key => allTranslations(key).some(v => normalize(v) === normalized));
+  if (matches(TRUE_VALUES, ['status.paid', 'common.yes'])) return true;
+  if (matches(FALSE_VALUES, ['status.unpaid', 'common.no'])) return false;
+  return null;
+};
+
+export interface ImportRow {
+  line: number; // 1-based line in the file, for error messages
+  bill: Bill | null; // Null when the row has errors
+  errors: string[];
+  duplicateOf?: Bill; // Existing bill with the same name in the same month
+  duplicateInFile?: boolean; // An earlier row of the file already has this name and month
+}
+
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingBills: Bill[],
+  categories: Category[],
+  firstLine: number = 1
+): ImportRow[] => {
+  const accepted: Bill[] = [];
+
+  return rows.map((cells, i) => {
+    const cell = (field: ImportField) => {
+      const index = mapping[field];
+      return index === null ? '' : (cells[index] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const name = cell('name');
+    if (!name) errors.push(t('import.error.noName'));
+
+    const amount = parseAmount(cell('amount'));
+    if (amount === null) errors.push(t('import.error.amount', { value: cell('amount') }));
+
+    const dueDate = parseDate(cell('dueDate'));
+    if (!dueDate) errors.push(t('import.error.date', { value: cell('dueDate') }));
+
+    const category = parseCategory(cell('category'), categories);
+    if (!category) errors.push(t('import.error.category', { value: cell('category') }));
+
+    const isPaid = parseFlag(cell('isPaid'));
+    if (isPaid === null) errors.push(t('import.error.status', { value: cell('isPaid') }));
+
+    const isRecurring = parseFlag(cell('isRecurring'));
+    if (isRecurring === null) errors.push(t('import.error.value', { value: cell('isRecurring') }));
+
+    const currency = parseCurrency(cell('currency'));
+    if (currency === null) errors.push(t('import.error.currency', { value: cell('currency') }));
+
+    const isIncome = parseKind(cell('isIncome'));
+    if (isIncome === null) errors.push(t('import.error.value', { value: cell('isIncome') }));
+
+    const line = firstLine + i;
+    if (errors.length > 0) return { line, bill: null, errors };
+
+    const bill: Bill = {
+      id: createTempId(),
+      name,
+      amount: amount as number,
+      currency: currency ?? undefined,
+      dueDate: dueDate as string,
+      category: category as string,
+      isPaid: isPaid as boolean,
+      isRecurring: isRecurring as boolean,
+      isIncome: isIncome || undefined
+    };
+
+    const date = new Date(bill.dueDate);
+    const duplicateInFile = !!findDuplicateBill(accepted, name, date);
+    accepted.push(bill);
+
+    return {
+      line,
+      bill,
+      errors,
+      duplicateOf: findDuplicateBill(existingBills, name, date),
+      duplicateInFile
+    };
+  });
+};
+
+export type DuplicateMode = 'skip' | 'merge';
+
+export interface ImportPlan {
+  inserts: Bill[];
+  merges: { billId: string; changes: BillChanges }[];
+  skipped: number; // Invalid rows and skipped duplicates
+}
+
+// Merging updates amount, currency and category of the existing bill. It can mark it paid, but never
+// un-pays it, so importing an older spreadsheet doesn't throw away recorded payments.
+export const planImport = (rows: ImportRow[], mode: DuplicateMode, userId?: string): ImportPlan => {
+  const plan: ImportPlan = { inserts: [], merges: [], skipped: 0 };
+
+  rows.forEach(row => {
+    if (!row.bill || row.duplicateInFile) {
+      plan.skipped++;
+      return;
+    }
+    if (!row.duplicateOf) {
+      plan.inserts.push({ ...row.bill, paidBy: row.bill.isPaid ? userId : undefined });
+      return;
+    }
+    if (mode === 'skip') {
+      plan.skipped++;
+      return;
+    }
+
+    const existing = row.duplicateOf;
+    const merged = { ...existing, amount: row.bill.amount, currency: row.bill.currency ?? existing.currency, category: row.bill.category };
+    plan.merges.push({
+      billId: existing.id,
+      changes: {
+        amount: merged.amount,
+        currency: merged.currency,
+        category: merged.category,
+        ...(row.bill.isPaid && !existing.isPaid ? togglePaymentChanges(merged, userId) : {})
+      }
+    });
+  });
+
+  return plan;
+};
@@ -0,0 +1,121 @@
+import { Bill } from './types';
+import { t } from './i18n';
+
+// Bills keep the currency they're paid in; totals are converted to the base currency
+// with a user-maintained table of NBP mid rates.
+
+export const DEFAULT_CURRENCY = 'PLN';
+
+export const CURRENCIES = ['PLN', 'EUR', 'USD', 'GBP', 'CHF', 'CZK', 'SEK', 'NOK', 'DKK'];
+
+export interface ExchangeRateTable {
+  rates: Record<string, number>; // PLN per one unit of the currency, like NBP mid rates
+  effectiveDate?: string; // Date of the NBP table the rates came from
+}
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = { rates: {} };
+
+// Bills from before currencies existed are all in złoty
+export const getBillCurrency = (bill: { currency?: string }): string => bill.currency || DEFAULT_CURRENCY;
+
+const rateInPln = (currency: string, table: ExchangeRateTable): number | undefined =>
+  currency === DEFAULT_CURRENCY ? 1 : table.rates[currency];
+
+// Amounts without a known rate are left as they are; getMissingRates tells the user about them
+export const convertAmount = (amount: number, from: string, to: string, table: ExchangeRateTable): number => {
+  if (from === to) return amount;
+  const fromRate = rateInPln(from, table);
+  const toRate = rateInPln(to, table);
+  if (!fromRate || !toRate) return amount;
+  return (amount * fromRate) / toRate;
+};
+
+export const toBaseAmount = (bill: Bill, amount: number, baseCurrency: string, table: ExchangeRateTable): number =>
+  convertAmount(amount, getBillCurrency(bill), baseCurrency, table);
+
+export const getMissingRates = (bills: Bill[], baseCurrency: string, table: ExchangeRateTable): string[] => {
+  const used = new Set([baseCurrency, ...bills.map(getBillCurrency)]);
+  return [...used].filter(c => !rateInPln(c, table)).sort();
+};
+
+// Sums per currency, e.g. "120,00 zł + 15,99 €", for places without a conversion at hand
+export const formatMixedAmounts = (entries: { amount: number; currency: string }[], format: (amount: number, currency: string) => string): string => {
+  const totals = new Map<string, number>();
+  entries.forEach(e => totals.set(e.currency, (totals.get(e.currency) || 0) + e.amount));
+  return [...totals].map(([currency, amount]) => format(amount, currency)).join(' + ');
+};
+
+// --- NBP rate files ---
+
+const parseRate = (value: string): number => parseFloat(value.trim().replace(',', '.'));
+
+const fromEntries = (entries: { code: string; mid: number }[], effectiveDate?: string): ExchangeRateTable => {
+  const rates: Record<string, number> = {};
+  entries
+    .filter(e => /^[A-Z]{3}$/.test(e.code) && e.mid > 0)
+    .forEach(e => { rates[e.code] = e.mid; });
+  if (Object.keys(rates).length === 0) throw new Error(t('currency.error.noRates'));
+  return { rates, effectiveDate };
+};
+
+// api.nbp.pl JSON: a table (or an array with one) with `rates: [{ code, mid }]`,
+// or a single-currency series with `code` and `rates: [{ effectiveDate, mid }]`
+const parseNbpJson = (data: any): ExchangeRateTable => {
+  const table = Array.isArray(data) ? data[data.length - 1] : data;
+  if (!table || !Array.isArray(table.rates)) throw new Error(t('currency.error.unknownFormat'));
+
+  if (typeof table.code === 'string') {
+    const latest = table.rates[table.rates.length - 1];
+    return fromEntries([{ code: table.code, mid: Number(latest?.mid) }], latest?.effectiveDate);
+  }
+  return fromEntries(
+    table.rates.map((r: any) => ({ code: String(r.code), mid: Number(r.mid) })),
+    table.effectiveDate
+  );
+};
+
+const tagValue = (xml: string, tag: string): string | undefined =>
+  xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`, 'i'))?.[1];
+
+const tagBlocks = (xml: string, tag: string): string[] =>
+  xml.match(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'gi')) || [];
+
+// api.nbp.pl XML (<Rate><Code/><Mid/></Rate>) and the older nbp.pl tables
+// (<pozycja><kod_waluty/><przelicznik/><kurs_sredni/></pozycja>), where rates may be per 100 units
+const parseNbpXml = (xml: string): ExchangeRateTable => {
+  const apiRates = tagBlocks(xml, 'Rate');
+  if (apiRates.length > 0) {
+    const code = tagValue(xml, 'Code');
+    // Single-currency series keep the code once, outside the rates
+    const entries = apiRates.map(block => ({
+      code: tagValue(block, 'Code') ?? code ?? '',
+      mid: parseRate(tagValue(block, 'Mid') ?? '')
+    }));
+    const dates = apiRates.map(block => tagValue(block, 'EffectiveDate')).filter(Boolean);
+    return fromEntries(entries, dates.length > 0 ? dates[dates.length - 1] : tagValue(xml, 'EffectiveDate'));
+  }
+
+  const positions = tagBlocks(xml, 'pozycja');
+  if (positions.length > 0) {
+    return fromEntries(
+      positions.map(block => ({
+        code: (tagValue(block, 'kod_waluty') ?? '').trim(),
+        mid: parseRate(tagValue(block, 'kurs_sredni') ?? '') / (parseRate(tagValue(block, 'przelicznik') ?? '1') || 1)
+      })),
+      tagValue(xml, 'data_publikacji')
+    );
+  }
+  throw new Error(t('currency.error.unknownFormat'));
+};
+
+// Throws with a message meant for the user
+export const parseNbpRates = (text: string): ExchangeRateTable => {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  if (content.startsWith('<')) return parseNbpXml(content);
+  try {
+    return parseNbpJson(JSON.parse(content));
+  } catch (e) {
+    if (e instanceof SyntaxError) throw new Error(t('currency.error.notNbp'));
+    throw e;
+  }
+};
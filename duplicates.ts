@@ -0,0 +1,15 @@
+import { Bill } from './types';
+
+// Two bills with the same name due in the same month are treated as the same bill
+export const isSameBill = (bill: Pick<Bill, 'name' | 'dueDate'>, name: string, date: Date): boolean => {
+  const billDate = new Date(bill.dueDate);
+  return (
+    billDate.getMonth() === date.getMonth() &&
+    billDate.getFullYear() === date.getFullYear() &&
+    bill.name.trim().toLowerCase() === name.trim().toLowerCase()
+  );
+};
+
+export const findDuplicateBill = (bills: Bill[], name: string, date: Date, excludeId?: string): Bill | undefined => {
+  return bills.find(b => b.id !== excludeId && isSameBill(b, name, date));
+};
@@ -0,0 +1,90 @@
+import { Bill, BillSeries } from './types';
+import { extendSeries } from './recurrence';
+import { getRemainingAmount } from './payments';
+import { ExchangeRateTable, toBaseAmount } from './currency';
+import { isIncome } from './income';
+
+// Cash-flow view: what still has to be paid in the coming days, what comes in, and what that leaves in the account
+
+export const FORECAST_WINDOWS = [14, 30, 60, 90];
+
+export interface ForecastSettings {
+  days: number; // Length of the window, starting today
+  startingBalance: number; // In the base currency
+}
+
+export const DEFAULT_FORECAST_SETTINGS: ForecastSettings = { days: 30, startingBalance: 0 };
+
+export interface ForecastEntry {
+  bill: Bill;
+  amount: number; // Still to pay or to receive, in the base currency
+  projected: boolean; // Occurrence of a series past its materialized bills, not stored anywhere
+}
+
+export interface ForecastDay {
+  date: Date;
+  entries: ForecastEntry[];
+  total: number; // Bills only
+  income: number;
+  runningTotal: number; // Every bill due up to and including this day
+  balance: number; // Starting balance minus the running total, plus the income received so far
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayStart = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const dayIndex = (from: Date, date: Date) => Math.round((dayStart(date).getTime() - from.getTime()) / DAY_MS);
+
+// One entry per day of the window. Overdue bills are due right away, so they land on the first day;
+// income that should have come in already isn't counted on.
+export const buildForecast = (
+  bills: Bill[],
+  rules: BillSeries[],
+  settings: ForecastSettings,
+  baseCurrency: string,
+  rates: ExchangeRateTable,
+  today: Date = new Date()
+): ForecastDay[] => {
+  const from = dayStart(today);
+  const end = new Date(from);
+  end.setDate(end.getDate() + settings.days);
+  end.setMilliseconds(-1); // Last moment of the final day
+
+  const projected = rules
+    .flatMap(series => extendSeries(series, bills, end))
+    .filter(b => new Date(b.dueDate) >= from);
+
+  const days: ForecastDay[] = Array.from({ length: settings.days }, (_, i) => ({
+    date: new Date(from.getFullYear(), from.getMonth(), from.getDate() + i),
+    entries: [],
+    total: 0,
+    income: 0,
+    runningTotal: 0,
+    balance: 0
+  }));
+
+  const addEntry = (bill: Bill, isProjected: boolean) => {
+    const due = new Date(bill.dueDate);
+    if (due > end || (isIncome(bill) && due < from)) return;
+    const amount = toBaseAmount(bill, getRemainingAmount(bill), baseCurrency, rates);
+    if (amount <= 0) return;
+    const day = days[Math.max(0, dayIndex(from, due))];
+    day.entries.push({ bill, amount, projected: isProjected });
+    if (isIncome(bill)) day.income += amount;
+    else day.total += amount;
+  };
+  bills.filter(b => !b.isPaid).forEach(b => addEntry(b, false));
+  projected.forEach(b => addEntry(b, true));
+
+  let runningTotal = 0;
+  let runningIncome = 0;
+  days.forEach(day => {
+    day.entries.sort((a, b) => new Date(a.bill.dueDate).getTime() - new Date(b.bill.dueDate).getTime());
+    runningTotal += day.total;
+    runningIncome += day.income;
+    day.runningTotal = runningTotal;
+    day.balance = settings.startingBalance - runningTotal + runningIncome;
+  });
+  return days;
+};
@@ -0,0 +1,73 @@
+// Polish public holidays (dni ustawowo wolne od pracy), used to shift due dates to business days.
+
+// Easter Sunday, anonymous Gregorian algorithm
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const dayKey = (date: Date): string => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const holidayCache = new Map<number, Set<string>>();
+
+const getHolidayKeys = (year: number): Set<string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const fixed: [number, number][] = [
+    [0, 1],   // Nowy Rok
+    [0, 6],   // Trzech Króli
+    [4, 1],   // Święto Pracy
+    [4, 3],   // Święto Konstytucji 3 Maja
+    [7, 15],  // Wniebowzięcie NMP
+    [10, 1],  // Wszystkich Świętych
+    [10, 11], // Święto Niepodległości
+    [11, 25], // Boże Narodzenie
+    [11, 26], // Drugi dzień Bożego Narodzenia
+  ];
+  if (year >= 2025) fixed.push([11, 24]); // Wigilia, wolna od 2025
+
+  const easter = getEasterSunday(year);
+  const fromEaster = (days: number) => new Date(year, easter.getMonth(), easter.getDate() + days);
+
+  const keys = new Set<string>([
+    ...fixed.map(([month, day]) => dayKey(new Date(year, month, day))),
+    dayKey(easter),
+    dayKey(fromEaster(1)),  // Poniedziałek Wielkanocny
+    dayKey(fromEaster(49)), // Zielone Świątki
+    dayKey(fromEaster(60)), // Boże Ciało
+  ]);
+  holidayCache.set(year, keys);
+  return keys;
+};
+
+export const isPolishPublicHoliday = (date: Date): boolean => {
+  return getHolidayKeys(date.getFullYear()).has(dayKey(date));
+};
+
+export const isBusinessDay = (date: Date): boolean => {
+  const weekday = date.getDay();
+  return weekday !== 0 && weekday !== 6 && !isPolishPublicHoliday(date);
+};
+
+// The same date when it's a business day, otherwise the first business day after it
+export const nextBusinessDay = (date: Date): Date => {
+  const result = new Date(date);
+  while (!isBusinessDay(result)) {
+    result.setDate(result.getDate() + 1);
+  }
+  return result;
+};
@@ -0,0 +1,47 @@
+import { pl } from './locales/pl';
+import { en } from './locales/en';
+
+// UI translations. Polish is the source catalog, every other locale has to provide the same keys.
+
+export type Locale = 'pl' | 'en';
+
+export type MessageKey = keyof typeof pl;
+export type Messages = Record<MessageKey, string>;
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'pl', label: 'Polski' },
+  { id: 'en', label: 'English' },
+];
+
+const LOCALE_KEY = 'liquid_bills_locale';
+const CATALOGS: Record<Locale, Messages> = { pl, en };
+// Formatting locales for Intl; British English keeps day-month order and 24h time like Polish
+const INTL_LOCALES: Record<Locale, string> = { pl: 'pl-PL', en: 'en-GB' };
+
+const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  return stored === 'en' ? 'en' : 'pl';
+};
+
+let currentLocale: Locale = loadLocale();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const getIntlLocale = (): string => INTL_LOCALES[currentLocale];
+
+// Components read the locale while rendering, so the caller re-renders the app after switching
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  localStorage.setItem(LOCALE_KEY, locale);
+  document.documentElement.lang = locale;
+};
+
+// Fills `{name}` placeholders from `params`
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const template = CATALOGS[currentLocale][key] ?? pl[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+// All translations of a key, for parsing values written in any language
+export const allTranslations = (key: MessageKey): string[] => Object.values(CATALOGS).map(catalog => catalog[key]);
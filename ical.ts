@@ -0,0 +1,254 @@
+import { Bill, BillSeries, Category, RecurrenceKind, RecurrenceRule } from './types';
+import { occurrenceDate } from './recurrence';
+import { formatCurrency } from './utils';
+import { getBillCurrency } from './currency';
+import { t } from './i18n';
+import { getCategoryLabel } from './categories';
+import { getOutgoings, isIncome } from './income';
+
+// iCalendar (RFC 5545) export of due dates as all-day events
+
+export type PaidBillsMode = 'exclude' | 'completed';
+
+export interface CalendarOptions {
+  alarmDaysBefore: number | null; // null = no reminder
+  paidBills: PaidBillsMode;
+}
+
+export const DEFAULT_CALENDAR_OPTIONS: CalendarOptions = {
+  alarmDaysBefore: 1,
+  paidBills: 'completed'
+};
+
+const UID_DOMAIN = 'liquidbills';
+const ALARM_HOUR = 9; // Reminders fire at 9:00 local time
+const MAX_SLOTS = 1000;
+
+// --- Formatting ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// All-day values use the day the app shows on this device
+const formatDay = (date: Date): string => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatTimestamp = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const nextDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+// --- Recurrence ---
+
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Business-day shifts depend on the holiday calendar, which RRULE can't express
+export const canExpressAsRRule = (rule: RecurrenceRule): boolean => !rule.shiftToBusinessDay;
+
+export const toRRule = (rule: RecurrenceRule, anchor: Date): string => {
+  const interval = `INTERVAL=${Math.max(1, rule.interval)}`;
+  switch (rule.kind) {
+    case RecurrenceKind.WEEKLY:
+      return `FREQ=WEEKLY;${interval}`;
+    case RecurrenceKind.MONTHLY: {
+      const day = anchor.getDate();
+      // Days past the 28th fall back to the last day of shorter months, like the app does
+      if (day <= 28) return `FREQ=MONTHLY;${interval};BYMONTHDAY=${day}`;
+      const candidates = Array.from({ length: day - 27 }, (_, i) => 28 + i).join(',');
+      return `FREQ=MONTHLY;${interval};BYMONTHDAY=${candidates};BYSETPOS=-1`;
+    }
+    case RecurrenceKind.LAST_DAY_OF_MONTH:
+      return `FREQ=MONTHLY;${interval};BYMONTHDAY=-1`;
+    case RecurrenceKind.NTH_WEEKDAY:
+      return `FREQ=MONTHLY;${interval};BYDAY=${rule.weekOfMonth ?? 1}${ICAL_WEEKDAYS[rule.weekday ?? anchor.getDay()]}`;
+  }
+};
+
+// Number of occurrences of a finite series counted from its anchor, undefined when open-ended
+const seriesCount = (series: BillSeries): number | undefined => {
+  let count = series.installmentCount ? series.installmentCount - (series.firstInstallment ?? 1) + 1 : undefined;
+  if (series.endDate) {
+    const end = new Date(series.endDate).getTime();
+    let withinEnd = 0;
+    while (withinEnd < MAX_SLOTS && occurrenceDate(series, withinEnd).getTime() <= end) withinEnd++;
+    count = count === undefined ? withinEnd : Math.min(count, withinEnd);
+  }
+  return count;
+};
+
+// --- Events ---
+
+const describeBill = (amount: number, currency: string, category: string, isPaid: boolean): string => [
+  `${t('field.amount')}: ${formatCurrency(amount, currency)}`,
+  `${t('field.category')}: ${category}`,
+  `${t('field.isPaid')}: ${isPaid ? t('status.paid') : t('status.unpaid')}`
+].join('\n');
+
+const alarmLines = (options: CalendarOptions, name: string): string[] => {
+  if (options.alarmDaysBefore === null) return [];
+  // Offset from midnight of the due day, e.g. one day before at 9:00 is 15 hours earlier
+  const hours = options.alarmDaysBefore * 24 - ALARM_HOUR;
+  const trigger = hours > 0 ? `-PT${hours}H` : `PT${-hours}H`;
+  return ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(t('calendar.alarm', { name }))}`, `TRIGGER:${trigger}`, 'END:VALARM'];
+};
+
+interface EventFields {
+  uid: string;
+  day: Date;
+  name: string;
+  amount: number;
+  currency: string;
+  category: string; // Display name
+  isPaid: boolean;
+  recurrenceId?: Date;
+  extra?: string[];
+}
+
+const eventLines = (e: EventFields, options: CalendarOptions, stamp: string): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${e.uid}`,
+  `DTSTAMP:${stamp}`,
+  ...(e.recurrenceId ? [`RECURRENCE-ID;VALUE=DATE:${formatDay(e.recurrenceId)}`] : []),
+  `DTSTART;VALUE=DATE:${formatDay(e.day)}`,
+  `DTEND;VALUE=DATE:${formatDay(nextDay(e.day))}`,
+  `SUMMARY:${escapeText(`${e.isPaid ? '✓ ' : ''}${e.name} (${formatCurrency(e.amount, e.currency)})`)}`,
+  `DESCRIPTION:${escapeText(describeBill(e.amount, e.currency, e.category, e.isPaid))}`,
+  `CATEGORIES:${escapeText(e.category)}`,
+  'TRANSP:TRANSPARENT',
+  ...(e.extra || []),
+  ...(e.isPaid ? [] : alarmLines(options, e.name)),
+  'END:VEVENT'
+];
+
+const billEvent = (bill: Bill, categories: Category[], options: CalendarOptions, stamp: string): string[] =>
+  eventLines({
+    uid: `${bill.id}@${UID_DOMAIN}`,
+    day: new Date(bill.dueDate),
+    name: bill.name,
+    amount: bill.amount,
+    currency: getBillCurrency(bill),
+    category: getCategoryLabel(categories, bill.category),
+    isPaid: bill.isPaid
+  }, options, stamp);
+
+// One recurring event per series. Materialized bills that differ from the rule become overrides,
+// skipped or excluded slots become EXDATEs, and bills that moved off the schedule become separate events.
+const seriesEvents = (series: BillSeries, bills: Bill[], categories: Category[], options: CalendarOptions, stamp: string): string[] => {
+  const uid = `series-${series.id}@${UID_DOMAIN}`;
+  const start = occurrenceDate(series, 0);
+  const startDay = formatDay(start);
+  const own = bills.filter(b => b.seriesId === series.id);
+
+  // Bills from before the series was last re-anchored follow an older rule
+  const before = own.filter(b => formatDay(new Date(b.dueDate)) < startDay);
+  const onSchedule = own.filter(b => formatDay(new Date(b.dueDate)) >= startDay);
+  const lastDay = onSchedule.reduce((last, b) => {
+    const day = formatDay(new Date(b.dueDate));
+    return day > last ? day : last;
+  }, '');
+
+  const count = seriesCount(series);
+  const slots: Date[] = [];
+  for (let i = 0; i < MAX_SLOTS && (count === undefined || i < count); i++) {
+    const date = occurrenceDate(series, i);
+    if (formatDay(date) > lastDay) break;
+    slots.push(date);
+  }
+
+  const byDay = new Map(onSchedule.map(b => [formatDay(new Date(b.dueDate)), b]));
+  const matched = new Set<string>();
+  const exdates: Date[] = [];
+  const overrides: string[][] = [];
+
+  slots.forEach(slot => {
+    const bill = byDay.get(formatDay(slot));
+    if (!bill) {
+      exdates.push(slot);
+      return;
+    }
+    matched.add(bill.id);
+    if (bill.isPaid && options.paidBills === 'exclude') {
+      exdates.push(slot);
+    } else if (bill.isPaid || bill.amount !== series.amount || getBillCurrency(bill) !== getBillCurrency(series) || bill.name !== series.name) {
+      overrides.push(eventLines({
+        uid,
+        day: slot,
+        name: bill.name,
+        amount: bill.amount,
+        currency: getBillCurrency(bill),
+        category: getCategoryLabel(categories, bill.category),
+        isPaid: bill.isPaid,
+        recurrenceId: slot
+      }, options, stamp));
+    }
+  });
+
+  const rrule = `RRULE:${toRRule(series.recurrence, start)}${count !== undefined ? `;COUNT=${count}` : ''}`;
+  const master = eventLines({
+    uid,
+    day: start,
+    name: series.name,
+    amount: series.amount,
+    currency: getBillCurrency(series),
+    category: getCategoryLabel(categories, series.category),
+    isPaid: false,
+    extra: [rrule, ...exdates.map(d => `EXDATE;VALUE=DATE:${formatDay(d)}`)]
+  }, options, stamp);
+
+  const loose = [...before, ...onSchedule.filter(b => !matched.has(b.id))]
+    .filter(b => !(b.isPaid && options.paidBills === 'exclude'))
+    .flatMap(b => billEvent(b, categories, options, stamp));
+
+  return [...master, ...overrides.flat(), ...loose];
+};
+
+export const buildCalendar = (
+  bills: Bill[],
+  seriesRules: BillSeries[],
+  categories: Category[],
+  options: CalendarOptions,
+  now: Date = new Date()
+): string => {
+  const stamp = formatTimestamp(now);
+  const asRules = seriesRules.filter(s => s.isActive && !isIncome(s) && canExpressAsRRule(s.recurrence));
+  const ruleIds = new Set(asRules.map(s => s.id));
+
+  const single = getOutgoings(bills)
+    .filter(b => !b.seriesId || !ruleIds.has(b.seriesId))
+    .filter(b => !(b.isPaid && options.paidBills === 'exclude'))
+    .flatMap(b => billEvent(b, categories, options, stamp));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Liquid Bills//PL',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(t('calendar.name'))}`,
+    ...asRules.flatMap(series => seriesEvents(series, bills, categories, options, stamp)),
+    ...single,
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,14 @@
+import { Bill } from './types';
+
+// Incomes are stored as bills flagged `isIncome`, so series, payments and sync work the same for both.
+// Everything that is about money going out (budgets, overdue, reminders, exports) skips them.
+
+export const isIncome = (bill: { isIncome?: boolean }): boolean => !!bill.isIncome;
+
+export const getOutgoings = (bills: Bill[]): Bill[] => bills.filter(b => !isIncome(b));
+
+export const getIncomes = (bills: Bill[]): Bill[] => bills.filter(isIncome);
+
+// Share of the income that was not spent on bills, null without any income
+export const getSavingsRate = (income: number, spent: number): number | null =>
+  income > 0 ? (income - spent) / income : null;
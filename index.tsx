@@ -1,6 +1,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { getLocale } from './i18n';
+
+document.documentElement.lang = getLocale(); // index.html ships with the default "pl"
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
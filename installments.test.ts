@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { BillSeries, PaymentMethod, RecurrenceKind } from './types';
+import { summarizeInstallmentPlan } from './installments';
+import { makeBill } from './testFixtures';
+
+const loan: BillSeries = {
+  id: 'loan',
+  name: 'Loan',
+  amount: 100,
+  category: 'other',
+  recurrence: { kind: RecurrenceKind.MONTHLY, interval: 1 },
+  anchorDate: new Date(2026, 9, 10).toISOString(),
+  isActive: true,
+  installmentCount: 3
+};
+
+const installment = (n: number, overrides = {}) => makeBill(`i${n}`, {
+  seriesId: 'loan', isRecurring: true, installment: n, installmentCount: 3,
+  dueDate: new Date(2026, 8 + n, 10).toISOString(), ...overrides
+});
+
+describe('summarizeInstallmentPlan', () => {
+  it('counts only what is left of a partially paid installment', () => {
+    const partial = installment(2, { payments: [{ id: 'p', amount: 40, paidAt: '2026-11-01T00:00:00.000Z', method: PaymentMethod.TRANSFER }] });
+    const summary = summarizeInstallmentPlan(loan, [installment(1, { isPaid: true }), partial, installment(3)]);
+
+    expect(summary).toMatchObject({ paidCount: 1, totalCount: 3, remainingAmount: 160 });
+  });
+});
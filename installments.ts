@@ -0,0 +1,50 @@
+import { Bill, BillSeries } from './types';
+import { extendSeries, isFiniteSeries } from './recurrence';
+import { getRemainingAmount } from './payments';
+import { t } from './i18n';
+
+export interface InstallmentPlanSummary {
+  series: BillSeries;
+  paidCount: number;
+  totalCount: number; // Paid, materialized and not yet generated occurrences
+  remainingAmount: number;
+  payoffDate: string; // ISO date of the last occurrence
+}
+
+// Far enough to reach the end of any finite series, extendSeries stops at the series end first
+const END_OF_TIME = new Date(8.64e15);
+
+export const getInstallmentLabel = (bill: Bill): string | null => {
+  if (!bill.installment || !bill.installmentCount) return null;
+  return t('installment.label', { n: bill.installment, count: bill.installmentCount });
+};
+
+// Remaining total and payoff date of a series with an end, counting occurrences beyond the horizon too
+export const summarizeInstallmentPlan = (series: BillSeries, bills: Bill[]): InstallmentPlanSummary | null => {
+  if (!isFiniteSeries(series)) return null;
+
+  const materialized = bills.filter(b => b.seriesId === series.id);
+  const upcoming = extendSeries(series, materialized, END_OF_TIME);
+  const unpaid = [...materialized.filter(b => !b.isPaid), ...upcoming];
+  const all = [...materialized, ...upcoming];
+  if (all.length === 0) return null;
+
+  const payoff = all.reduce((latest, b) => new Date(b.dueDate) > new Date(latest.dueDate) ? b : latest);
+
+  return {
+    series,
+    paidCount: materialized.length - materialized.filter(b => !b.isPaid).length,
+    totalCount: series.installmentCount ?? all.length,
+    remainingAmount: unpaid.reduce((sum, b) => sum + getRemainingAmount(b), 0), // Partial payments count
+    payoffDate: payoff.dueDate
+  };
+};
+
+// Plans that still have something to pay, the soonest payoff first. Income that ends (e.g. a benefit) is no plan.
+export const getOpenInstallmentPlans = (rules: BillSeries[], bills: Bill[]): InstallmentPlanSummary[] => {
+  return rules
+    .filter(series => series.isActive && !series.isIncome)
+    .map(series => summarizeInstallmentPlan(series, bills))
+    .filter((plan): plan is InstallmentPlanSummary => !!plan && plan.remainingAmount > 0)
+    .sort((a, b) => new Date(a.payoffDate).getTime() - new Date(b.payoffDate).getTime());
+};
@@ -0,0 +1,396 @@
+import type { Messages } from '../i18n';
+
+export const en: Messages = {
+  'category.house': 'Home',
+  'category.media': 'Utilities',
+  'category.insurance': 'Insurance',
+  'category.subscription': 'Subscriptions',
+  'category.credit': 'Loans',
+  'category.other': 'Other',
+  'category.unknown': 'Deleted category',
+  'categories.title': 'Categories',
+  'categories.name': 'Category name',
+  'categories.icon': 'Icon',
+  'categories.add': 'New category',
+  'categories.billCount': 'Bills: {n}',
+  'categories.confirmDelete': 'Delete the category "{name}"?',
+  'categories.reassign': 'This category has bills ({n}). Move them to:',
+  'categories.moveAndDelete': 'Move and delete',
+  'categories.error.required': 'Enter a name and an icon for the category.',
+  'categories.error.duplicate': 'The category "{name}" already exists.',
+  'budget.title': 'Budgets',
+  'budget.placeholder': 'Budget ({currency}), optional',
+  'budget.perMonth': '/ month',
+  'budget.perYear': '/ year',
+  'budget.thisMonth': 'This month',
+  'budget.thisYear': 'This year',
+  'budget.of': '{spent} of {limit}',
+  'budget.left': '{amount} left',
+  'budget.over': 'Over by {amount}',
+  'budget.warning.month': 'This bill puts {name} over its monthly budget: {spent} of {limit}.',
+  'budget.warning.year': 'This bill puts {name} over its yearly budget: {spent} of {limit}.',
+  'budget.error.amount': 'The budget has to be an amount greater than zero.',
+
+  'paymentMethod.transfer': 'Bank transfer',
+  'paymentMethod.card': 'Card',
+  'paymentMethod.blik': 'BLIK',
+  'paymentMethod.directDebit': 'Direct debit',
+  'paymentMethod.cash': 'Cash',
+  'paymentMethod.other': 'Other',
+
+  'role.owner': 'Owner',
+  'role.editor': 'Editor',
+  'role.viewer': 'Viewer',
+
+  'weekday.sunday': 'Sunday',
+  'weekday.monday': 'Monday',
+  'weekday.tuesday': 'Tuesday',
+  'weekday.wednesday': 'Wednesday',
+  'weekday.thursday': 'Thursday',
+  'weekday.friday': 'Friday',
+  'weekday.saturday': 'Saturday',
+
+  'weekOfMonth.first': 'First',
+  'weekOfMonth.second': 'Second',
+  'weekOfMonth.third': 'Third',
+  'weekOfMonth.fourth': 'Fourth',
+  'weekOfMonth.last': 'Last',
+
+  'recurrence.weekly': 'Weekly',
+  'recurrence.biweekly': 'Every 2 weeks',
+  'recurrence.everyWeeks': 'Every {n} weeks',
+  'recurrence.monthly': 'Monthly',
+  'recurrence.quarterly': 'Quarterly',
+  'recurrence.semiannual': 'Every 6 months',
+  'recurrence.annual': 'Yearly',
+  'recurrence.everyMonths': 'Every {n} months',
+  'recurrence.lastDay': 'Last day of month',
+  'recurrence.lastDayEvery': 'Last day, {every}',
+  'recurrence.businessDays': '{label} (business days)',
+
+  'installment.label': 'Instalment {n}/{count}',
+
+  'overdue.oneDay': '1 day',
+  'overdue.days': '{n} days',
+  'overdue.pastDue': '{days} overdue',
+
+  'backup.error.notJson': 'This is not a JSON file.',
+  'backup.error.notBackup': 'This is not a Liquid Bills backup.',
+  'backup.error.newerVersion': 'The backup comes from a newer version of the app (format {version}). Please update the app.',
+  'backup.error.corrupted': 'The backup is damaged.',
+  'backup.error.invalidBill': 'Invalid bill no. {n} in the backup.',
+  'backup.error.invalidSeries': 'Invalid series in the backup.',
+  'backup.error.invalidCategory': 'Invalid category in the backup.',
+  'backup.error.load': 'Could not load the backup.',
+  'backup.error.invalidAttachment': 'Invalid attachment in the backup.',
+  'backup.error.export': 'Could not prepare the backup.',
+  'backup.error.attachments': 'Could not restore the attachments. Nothing was changed.',
+  'backup.confirm.replace': 'Delete {n} bills that are not in the backup?',
+  'backup.summary.added': '+{n} new',
+  'backup.summary.changed': '{n} changed',
+  'backup.summary.removed': '-{n} removed',
+  'backup.summary.unchanged': '{n} unchanged',
+  'backup.title': 'Backup',
+  'backup.exportHint': 'Full copy of bills, series, attachments and settings as JSON.',
+  'backup.working': 'One moment…',
+  'backup.download': 'Download backup ({n} bills)',
+  'backup.restoreTitle': 'Restore',
+  'backup.chooseFile': 'Choose a backup file (.json)',
+  'backup.info': 'Backup from {date}: {bills} bills, {series} series.',
+  'backup.mode.merge': 'Merge with current',
+  'backup.mode.replace': 'Replace everything',
+  'backup.restore': 'Restore',
+
+  'currency.error.noRates': 'The file contains no exchange rates.',
+  'currency.error.unknownFormat': 'Unknown NBP file format.',
+  'currency.error.notNbp': 'The file is not an NBP rate table (JSON or XML).',
+  'currency.error.load': 'Could not load the rates.',
+  'currency.error.invalidRate': 'Invalid {code} rate.',
+  'currency.error.baseRate': 'Enter the {code} rate to convert to this currency.',
+  'currency.title': 'Currencies and rates',
+  'currency.base': 'Summary currency',
+  'currency.rates': 'Mid rate in PLN',
+  'currency.tableDate': '(table of {date})',
+  'currency.import': 'Load an NBP table (.json, .xml)',
+
+  'field.name': 'Name',
+  'field.amount': 'Amount',
+  'field.dueDate': 'Date',
+  'field.category': 'Category',
+  'field.isPaid': 'Status',
+  'field.isRecurring': 'Recurring',
+  'field.currency': 'Currency',
+  'field.isIncome': 'Type',
+
+  'csv.header.frequency': 'Frequency',
+  'csv.header.series': 'Series',
+
+  'status.paid': 'Paid',
+  'status.unpaid': 'Unpaid',
+  'status.overdue': 'Overdue',
+  'status.partial': 'Partial',
+  'status.received': 'Received',
+  'status.expected': 'Expected',
+
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.error.fileRead': 'Could not read the file.',
+
+  'import.error.noName': 'Missing name',
+  'import.error.amount': 'Invalid or ambiguous amount "{value}"',
+  'import.error.date': 'Invalid date "{value}"',
+  'import.error.category': 'Unknown category "{value}"',
+  'import.error.status': 'Unknown status "{value}"',
+  'import.error.value': 'Invalid value "{value}"',
+  'import.error.currency': 'Unknown currency "{value}"',
+  'import.error.empty': 'The file is empty.',
+  'import.column': 'Column {n}',
+  'import.title': 'CSV Import',
+  'import.chooseFile': 'Choose a CSV file',
+  'import.columns': 'Columns',
+  'import.hasHeader': 'First row contains headers',
+  'import.choose': 'Choose…',
+  'import.skip': 'Skip',
+  'import.duplicates': 'Duplicates ({n})',
+  'import.duplicatesHint': 'A bill with the same name already exists in the same month.',
+  'import.merge': 'Merge (amount, status)',
+  'import.preview': 'Preview',
+  'import.errors': 'errors: {n}',
+  'import.missingRequired': 'Pick the name, amount and date columns.',
+  'import.duplicate': 'duplicate',
+  'import.row': 'Row {n}: {errors}',
+  'import.more': '…and {n} more',
+  'import.submit': 'Import {n}',
+  'import.submitMerge': ', merge {n}',
+  'import.skipped': 'Skipped rows: {n}',
+
+  'calendar.alarm': 'Payment due: {name}',
+  'calendar.name': 'Bills',
+  'calendar.alarm.none': 'None',
+  'calendar.alarm.onDay': 'On the day',
+  'calendar.paid.completed': 'Mark as paid',
+  'calendar.paid.exclude': 'Leave out paid',
+  'calendar.error.load': 'Could not load the calendar address.',
+  'calendar.error.action': 'The calendar operation failed. Check your connection.',
+  'calendar.error.copy': 'Could not copy the address.',
+  'calendar.confirm.regenerate': 'The old address will stop working in every calendar subscribed to it. Continue?',
+  'calendar.confirm.disable': 'Turn off the subscription? Calendars will stop receiving bills.',
+  'calendar.fileName': 'bills',
+  'calendar.title': 'Calendar',
+  'calendar.alarmLabel': 'Reminder before due date',
+  'calendar.paidLabel': 'Paid bills',
+  'calendar.download': 'Download .ics file',
+  'calendar.feed': 'Subscription',
+  'calendar.feedHint': 'A fixed address your calendar refreshes by itself. It updates when the app syncs changes. Anyone who knows the address can see your bills.',
+  'calendar.enable': 'Turn on subscription',
+  'calendar.copy': 'Copy address',
+  'calendar.copied': 'Address copied.',
+  'calendar.subscribe': 'Add to calendar',
+  'calendar.regenerate': 'New address',
+  'calendar.disable': 'Turn off',
+
+  'reminder.tomorrow': '{name} - due tomorrow',
+  'reminder.inDays': '{name} - due in {n} days',
+  'reminder.today': '{name} - due today',
+  'reminder.body': 'Amount due {amount}',
+  'reminder.overdueTitle': 'Overdue bills: {n}',
+  'reminder.overdueBody': '{names} - {total} in total',
+
+  'app.error.missingConfig': 'The database is not configured.',
+  'app.error.network': 'Internet connection problem.',
+  'app.error.fetch': 'Could not load data.',
+  'app.error.sync': 'Sync failed. Some changes were not saved.',
+  'app.syncFirst': 'Sync pending changes first.',
+  'app.confirm.switchToLocal': 'Switch to local mode? Bills will be stored on this device only.',
+  'app.confirm.switchToCloud': 'Switch to cloud sync?',
+  'app.confirm.signOutUnsynced': 'You have unsynced changes that will be lost. Are you sure you want to sign out?',
+  'app.confirm.signOut': 'Are you sure you want to sign out?',
+  'app.confirm.stopRecurring': 'You turned off \'Recurring\'. Do you want to delete all future bills of this series?',
+  'app.paidByYou': 'You',
+  'app.notificationsDenied': 'Notifications are not allowed. Enable them in the system settings.',
+  'app.pendingChanges': 'Pending changes: {n}',
+  'app.noDataToExport': 'Nothing to export.',
+  'app.action.exportCsv': 'Export to CSV',
+  'app.action.calendar': 'Calendar (.ics)',
+  'app.action.importCsv': 'Import from CSV',
+  'app.action.households': 'Households',
+  'app.action.settings': 'Settings',
+  'app.action.search': 'Search',
+  'app.action.signOut': 'Sign out ({email})',
+  'app.storage.cloud': 'Data in the cloud',
+  'app.storage.local': 'Data on this device only',
+  'app.loading': 'Loading from the cloud...',
+  'app.connectionError': 'Connection Error',
+  'app.netlifyConfig': 'Netlify configuration:',
+  'app.retry': 'Try again',
+  'app.useLocally': 'Use locally, without an account',
+  'app.outOf': 'Of {total}',
+  'app.overdueCount': 'Bills past due: {n}',
+  'app.missingRates': 'No rate for: {codes}. Amounts counted 1:1 - add the rates in the settings.',
+  'app.carriedOver': 'Overdue from previous months',
+  'app.yourBills': 'Your Bills',
+  'app.income': 'Income',
+  'app.net': 'Income minus bills',
+  'app.leftAfterBills': 'Left after bills',
+  'app.incomeReceived': '{amount} of {total} received',
+  'search.title': 'Search',
+  'search.placeholder': 'Bill name',
+  'search.filters': 'Filters',
+  'search.all': 'All',
+  'search.recurring': 'Recurring',
+  'search.amountRange': 'Amount ({currency})',
+  'search.min': 'From',
+  'search.max': 'To',
+  'search.clearFilters': 'Clear filters',
+  'search.hint': 'Type a name or set filters to search all bills.',
+  'search.empty': 'Nothing found.',
+  'search.results': 'Results: {n}',
+  'batch.select': 'Select',
+  'batch.selectAll': 'Select all',
+  'batch.selectNone': 'Select none',
+  'batch.selected': '{n} selected',
+  'batch.markPaid': 'Paid',
+  'batch.markUnpaid': 'Unpaid',
+  'batch.shift': 'Shift',
+  'batch.shiftDays': 'days (negative moves back)',
+  'batch.apply': 'Apply',
+  'batch.confirm.markPaid': 'Mark {n} bills as paid?',
+  'batch.confirm.markUnpaid': 'Mark {n} bills as unpaid? Their payments will be removed.',
+  'batch.confirm.delete': 'Delete {n} bills?',
+  'batch.confirm.setCategory': 'Move {n} bills to "{name}"?',
+  'batch.confirm.shift': 'Move the due date of {n} bills by {days} days?',
+  'forecast.title': 'Cash-flow forecast',
+  'forecast.nextDays': 'Next {n} days',
+  'forecast.days': '{n} days',
+  'forecast.startingBalance': 'Account balance',
+  'forecast.due': 'Due',
+  'forecast.endBalance': 'Left over',
+  'forecast.shortfall': 'You will be {amount} short on {date}.',
+  'forecast.runningTotal': 'Total {amount}',
+  'forecast.balance': 'Balance {amount}',
+  'forecast.projected': 'Projected',
+  'forecast.income': 'Income +{amount}',
+  'forecast.empty': 'Nothing to pay in this period.',
+  'app.empty': 'No bills this month.',
+  'app.emptyHint': 'Add the first one with the button below.',
+  'app.csvFileName': 'bills_export',
+
+  'bill.oneOff': 'One-off',
+
+  'payments.title': 'Payments',
+  'payments.remaining': '{amount} left',
+  'payments.paidInFull': 'Paid in full',
+  'payments.referencePlaceholder': 'Reference / no. (optional)',
+  'payments.add': 'Add payment',
+
+  'attachments.title': 'Attachments',
+  'attachments.addFile': 'Add file',
+  'attachments.takePhoto': 'Take photo',
+  'attachments.error.type': '"{name}" is neither a photo nor a PDF.',
+  'attachments.error.size': '"{name}" is larger than {max}.',
+  'attachments.error.upload': 'Could not save "{name}".',
+
+  'edit.error.required': 'Fill in all fields.',
+  'edit.error.installments': 'Enter the number of instalments.',
+  'edit.error.endDate': 'The end date must be after the due date.',
+  'edit.error.duplicate': 'A bill named "{name}" already exists this month.',
+  'edit.confirm.updateFuture': 'This is a recurring bill. Do you want to update the price/name/recurrence for future bills of this series too?',
+  'edit.lastDayOfMonth': 'Last day of month',
+  'edit.title.details': 'Bill Details',
+  'edit.title.edit': 'Edit Bill',
+  'edit.title.new': 'New Bill',
+  'edit.kind.bill': 'Bill',
+  'edit.kind.income': 'Income',
+  'edit.namePlaceholder': 'e.g. Netflix, Rent...',
+  'edit.recurringHint': 'Creates a series of bills',
+  'edit.nthWeekday': 'Nth weekday',
+  'edit.everyNMonths': 'Every N months',
+  'edit.every': 'Every',
+  'edit.months': 'months',
+  'edit.shiftToBusinessDay': 'Move to the next business day',
+  'edit.seriesEnd': 'Series end',
+  'edit.end.never': 'Never',
+  'edit.end.count': 'After N instalments',
+  'edit.end.date': 'Until date',
+  'edit.installmentsTotal': 'instalments in total',
+  'edit.saveChanges': 'Save Changes',
+  'edit.add': 'Add Bill',
+
+  'yearly.spentIn': 'Spent in {year}',
+  'yearly.average': 'Average {amount} / month',
+  'yearly.paid': 'Paid {amount}',
+  'yearly.chart': 'Monthly chart',
+  'yearly.byCategory': 'By Category',
+  'yearly.empty': 'No data for this year.',
+  'yearly.budget': 'Yearly budget {amount}',
+  'yearly.budgetUsed': '{percent}% used',
+  'yearly.savingsRate': 'Savings rate',
+  'yearly.incomeVsBills': 'Income {income}, bills {bills}',
+  'yearly.netChart': 'Monthly net',
+  'priceChange.title': 'Price changes this year',
+  'priceChange.since': '+{amount} since {date}',
+  'priceChange.perYear': '{amount} / year',
+
+  'installments.title': 'Instalments and contracts',
+  'installments.paid': 'Paid off {n}/{count}',
+  'installments.end': 'Ends: {date}',
+
+  'export.title': 'CSV Export',
+  'export.delimiter': 'Delimiter',
+  'export.delimiter.semicolon': 'Semicolon ;',
+  'export.delimiter.comma': 'Comma ,',
+  'export.delimiter.tab': 'Tab',
+  'export.format': 'Number and date format',
+  'export.dateRange': 'Date range (optional)',
+  'export.categories': 'Categories',
+  'export.allCategories': '(all)',
+  'export.seriesColumns': 'Frequency and series columns',
+  'export.includeIncome': 'Include income',
+  'export.empty': 'No bills in range',
+  'export.download': 'Download {n} bills',
+
+  'settings.language': 'Language',
+  'settings.horizon': 'Recurring bills',
+  'settings.horizonHint': 'How many months ahead to create bills from series.',
+  'settings.months': '{n} mo',
+  'settings.reminders': 'Due date reminders',
+  'settings.remindersHint': 'How many days before the due date to remind you (at {hour}).',
+  'settings.onDueDate': 'On the due date',
+  'settings.overdueSummary': 'Daily overdue summary',
+  'settings.backup': 'JSON backup',
+
+  'household.error.action': 'The operation failed. Check your connection.',
+  'household.inviteSent': 'Invitation sent. Ask them to sign in with {email}.',
+  'household.confirm.remove': 'Remove {email} from the household?',
+  'household.confirm.leave': 'Are you sure you want to leave "{name}"?',
+  'household.view': 'View',
+  'household.myBills': 'My bills',
+  'household.invitations': 'Invitations',
+  'household.household': 'Household',
+  'household.join': 'Join',
+  'household.members': 'Members',
+  'household.emailPlaceholder': 'Their e-mail',
+  'household.invite': 'Invite',
+  'household.leave': 'Leave household',
+  'household.new': 'New household',
+  'household.namePlaceholder': 'e.g. Home, Flat...',
+
+  'auth.confirmEmail': 'Check your inbox to confirm the account.',
+  'auth.linkSent': 'We sent a sign-in link. Open it on this device.',
+  'auth.error.credentials': 'Invalid e-mail or password.',
+  'auth.error.failed': 'Could not sign in. Check your connection.',
+  'auth.mode.signIn': 'Sign in',
+  'auth.mode.signUp': 'New account',
+  'auth.mode.magicLink': 'E-mail link',
+  'auth.title': 'Sign in',
+  'auth.hint': 'Your bills are visible only to you.',
+  'auth.emailPlaceholder': 'you@example.com',
+  'auth.password': 'Password',
+  'auth.submit.signIn': 'Sign in',
+  'auth.submit.signUp': 'Create account',
+  'auth.submit.magicLink': 'Send link'
+};
@@ -0,0 +1,396 @@
+// Source catalog: every key used by the app, in Polish. `{name}` placeholders are filled in by t().
+
+export const pl = {
+  'category.house': 'Dom',
+  'category.media': 'Media',
+  'category.insurance': 'Ubezpieczenia',
+  'category.subscription': 'Subskrypcje',
+  'category.credit': 'Kredyt',
+  'category.other': 'Inne',
+  'category.unknown': 'Usunięta kategoria',
+  'categories.title': 'Kategorie',
+  'categories.name': 'Nazwa kategorii',
+  'categories.icon': 'Ikona',
+  'categories.add': 'Nowa kategoria',
+  'categories.billCount': 'Rachunki: {n}',
+  'categories.confirmDelete': 'Usunąć kategorię "{name}"?',
+  'categories.reassign': 'Kategoria ma rachunki ({n}). Przenieś je do:',
+  'categories.moveAndDelete': 'Przenieś i usuń',
+  'categories.error.required': 'Podaj nazwę i ikonę kategorii.',
+  'categories.error.duplicate': 'Kategoria "{name}" już istnieje.',
+  'budget.title': 'Budżety',
+  'budget.placeholder': 'Budżet ({currency}), opcjonalnie',
+  'budget.perMonth': '/ msc',
+  'budget.perYear': '/ rok',
+  'budget.thisMonth': 'W tym miesiącu',
+  'budget.thisYear': 'W tym roku',
+  'budget.of': '{spent} z {limit}',
+  'budget.left': 'Zostało {amount}',
+  'budget.over': 'Przekroczono o {amount}',
+  'budget.warning.month': 'Ten rachunek przekroczy miesięczny budżet kategorii {name}: {spent} z {limit}.',
+  'budget.warning.year': 'Ten rachunek przekroczy roczny budżet kategorii {name}: {spent} z {limit}.',
+  'budget.error.amount': 'Budżet musi być kwotą większą od zera.',
+
+  'paymentMethod.transfer': 'Przelew',
+  'paymentMethod.card': 'Karta',
+  'paymentMethod.blik': 'BLIK',
+  'paymentMethod.directDebit': 'Polecenie zapłaty',
+  'paymentMethod.cash': 'Gotówka',
+  'paymentMethod.other': 'Inna',
+
+  'role.owner': 'Właściciel',
+  'role.editor': 'Edytor',
+  'role.viewer': 'Podgląd',
+
+  'weekday.sunday': 'niedziela',
+  'weekday.monday': 'poniedziałek',
+  'weekday.tuesday': 'wtorek',
+  'weekday.wednesday': 'środa',
+  'weekday.thursday': 'czwartek',
+  'weekday.friday': 'piątek',
+  'weekday.saturday': 'sobota',
+
+  'weekOfMonth.first': 'Pierwszy',
+  'weekOfMonth.second': 'Drugi',
+  'weekOfMonth.third': 'Trzeci',
+  'weekOfMonth.fourth': 'Czwarty',
+  'weekOfMonth.last': 'Ostatni',
+
+  'recurrence.weekly': 'Co tydzień',
+  'recurrence.biweekly': 'Co 2 tygodnie',
+  'recurrence.everyWeeks': 'Co {n} tyg.',
+  'recurrence.monthly': 'Co miesiąc',
+  'recurrence.quarterly': 'Co kwartał',
+  'recurrence.semiannual': 'Co pół roku',
+  'recurrence.annual': 'Co rok',
+  'recurrence.everyMonths': 'Co {n} msc',
+  'recurrence.lastDay': 'Ostatni dzień msc',
+  'recurrence.lastDayEvery': 'Ostatni dzień, {every}',
+  'recurrence.businessDays': '{label} (dni robocze)',
+
+  'installment.label': 'Rata {n}/{count}',
+
+  'overdue.oneDay': '1 dzień',
+  'overdue.days': '{n} dni',
+  'overdue.pastDue': '{days} po terminie',
+
+  'backup.error.notJson': 'To nie jest plik JSON.',
+  'backup.error.notBackup': 'To nie jest kopia zapasowa Liquid Bills.',
+  'backup.error.newerVersion': 'Kopia pochodzi z nowszej wersji aplikacji (format {version}). Zaktualizuj aplikację.',
+  'backup.error.corrupted': 'Kopia zapasowa jest uszkodzona.',
+  'backup.error.invalidBill': 'Nieprawidłowy rachunek nr {n} w kopii.',
+  'backup.error.invalidSeries': 'Nieprawidłowa seria w kopii.',
+  'backup.error.invalidCategory': 'Nieprawidłowa kategoria w kopii.',
+  'backup.error.load': 'Nie udało się wczytać kopii.',
+  'backup.error.invalidAttachment': 'Nieprawidłowy załącznik w kopii.',
+  'backup.error.export': 'Nie udało się przygotować kopii.',
+  'backup.error.attachments': 'Nie udało się przywrócić załączników. Nic nie zostało zmienione.',
+  'backup.confirm.replace': 'Usunąć {n} rachunków, których nie ma w kopii?',
+  'backup.summary.added': '+{n} nowych',
+  'backup.summary.changed': '{n} zmienionych',
+  'backup.summary.removed': '-{n} usuniętych',
+  'backup.summary.unchanged': '{n} bez zmian',
+  'backup.title': 'Kopia zapasowa',
+  'backup.exportHint': 'Pełna kopia rachunków, serii, załączników i ustawień w formacie JSON.',
+  'backup.working': 'Chwileczkę…',
+  'backup.download': 'Pobierz kopię ({n} rachunków)',
+  'backup.restoreTitle': 'Przywracanie',
+  'backup.chooseFile': 'Wybierz plik kopii (.json)',
+  'backup.info': 'Kopia z {date}: {bills} rachunków, {series} serii.',
+  'backup.mode.merge': 'Scal z obecnymi',
+  'backup.mode.replace': 'Zastąp wszystko',
+  'backup.restore': 'Przywróć',
+
+  'currency.error.noRates': 'Plik nie zawiera kursów walut.',
+  'currency.error.unknownFormat': 'Nieznany format pliku NBP.',
+  'currency.error.notNbp': 'Plik nie jest tabelą kursów NBP (JSON lub XML).',
+  'currency.error.load': 'Nie udało się wczytać kursów.',
+  'currency.error.invalidRate': 'Nieprawidłowy kurs {code}.',
+  'currency.error.baseRate': 'Podaj kurs {code}, aby przeliczać na tę walutę.',
+  'currency.title': 'Waluty i kursy',
+  'currency.base': 'Waluta podsumowań',
+  'currency.rates': 'Kurs średni w PLN',
+  'currency.tableDate': '(tabela z {date})',
+  'currency.import': 'Wczytaj tabelę NBP (.json, .xml)',
+
+  'field.name': 'Nazwa',
+  'field.amount': 'Kwota',
+  'field.dueDate': 'Data',
+  'field.category': 'Kategoria',
+  'field.isPaid': 'Status',
+  'field.isRecurring': 'Powtarzalny',
+  'field.currency': 'Waluta',
+  'field.isIncome': "Typ",
+
+  'csv.header.frequency': 'Częstotliwość',
+  'csv.header.series': 'Seria',
+
+  'status.paid': 'Zapłacone',
+  'status.unpaid': 'Do zapłaty',
+  'status.overdue': 'Zaległe',
+  'status.partial': 'Częściowo',
+  'status.received': 'Otrzymane',
+  'status.expected': 'Oczekiwane',
+
+  'common.yes': 'Tak',
+  'common.no': 'Nie',
+  'common.close': 'Zamknij',
+  'common.delete': 'Usuń',
+  'common.save': 'Zapisz',
+  'common.cancel': 'Anuluj',
+  'common.error.fileRead': 'Nie udało się odczytać pliku.',
+
+  'import.error.noName': 'Brak nazwy',
+  'import.error.amount': 'Nieprawidłowa lub niejednoznaczna kwota "{value}"',
+  'import.error.date': 'Nieprawidłowa data "{value}"',
+  'import.error.category': 'Nieznana kategoria "{value}"',
+  'import.error.status': 'Nieznany status "{value}"',
+  'import.error.value': 'Nieprawidłowa wartość "{value}"',
+  'import.error.currency': 'Nieznana waluta "{value}"',
+  'import.error.empty': 'Plik jest pusty.',
+  'import.column': 'Kolumna {n}',
+  'import.title': 'Import CSV',
+  'import.chooseFile': 'Wybierz plik CSV',
+  'import.columns': 'Kolumny',
+  'import.hasHeader': 'Pierwszy wiersz to nagłówki',
+  'import.choose': 'Wybierz…',
+  'import.skip': 'Pomiń',
+  'import.duplicates': 'Duplikaty ({n})',
+  'import.duplicatesHint': 'Rachunek o tej samej nazwie w tym samym miesiącu już istnieje.',
+  'import.merge': 'Scal (kwota, status)',
+  'import.preview': 'Podgląd',
+  'import.errors': 'błędy: {n}',
+  'import.missingRequired': 'Wskaż kolumny z nazwą, kwotą i datą.',
+  'import.duplicate': 'duplikat',
+  'import.row': 'Wiersz {n}: {errors}',
+  'import.more': '…i {n} więcej',
+  'import.submit': 'Importuj {n}',
+  'import.submitMerge': ', scal {n}',
+  'import.skipped': 'Pominięte wiersze: {n}',
+
+  'calendar.alarm': 'Termin płatności: {name}',
+  'calendar.name': 'Rachunki',
+  'calendar.alarm.none': 'Brak',
+  'calendar.alarm.onDay': 'W dniu',
+  'calendar.paid.completed': 'Oznacz jako zapłacone',
+  'calendar.paid.exclude': 'Pomiń zapłacone',
+  'calendar.error.load': 'Nie udało się wczytać adresu kalendarza.',
+  'calendar.error.action': 'Operacja na kalendarzu nie powiodła się. Sprawdź połączenie.',
+  'calendar.error.copy': 'Nie udało się skopiować adresu.',
+  'calendar.confirm.regenerate': 'Stary adres przestanie działać we wszystkich kalendarzach, które go subskrybują. Kontynuować?',
+  'calendar.confirm.disable': 'Wyłączyć subskrypcję? Kalendarze przestaną otrzymywać rachunki.',
+  'calendar.fileName': 'rachunki',
+  'calendar.title': 'Kalendarz',
+  'calendar.alarmLabel': 'Przypomnienie przed terminem',
+  'calendar.paidLabel': 'Zapłacone rachunki',
+  'calendar.download': 'Pobierz plik .ics',
+  'calendar.feed': 'Subskrypcja',
+  'calendar.feedHint': 'Stały adres, który kalendarz odświeża sam. Aktualizuje się, gdy aplikacja zsynchronizuje zmiany. Każdy, kto zna adres, widzi Twoje rachunki.',
+  'calendar.enable': 'Włącz subskrypcję',
+  'calendar.copy': 'Kopiuj adres',
+  'calendar.copied': 'Skopiowano adres.',
+  'calendar.subscribe': 'Dodaj do kalendarza',
+  'calendar.regenerate': 'Nowy adres',
+  'calendar.disable': 'Wyłącz',
+
+  'reminder.tomorrow': '{name} - termin jutro',
+  'reminder.inDays': '{name} - termin za {n} dni',
+  'reminder.today': '{name} - termin dzisiaj',
+  'reminder.body': 'Do zapłaty {amount}',
+  'reminder.overdueTitle': 'Zaległe rachunki: {n}',
+  'reminder.overdueBody': '{names} - razem {total}',
+
+  'app.error.missingConfig': 'Brak konfiguracji bazy danych.',
+  'app.error.network': 'Problem z połączeniem internetowym.',
+  'app.error.fetch': 'Nie udało się pobrać danych.',
+  'app.error.sync': 'Błąd synchronizacji. Część zmian nie została zapisana.',
+  'app.syncFirst': 'Najpierw zsynchronizuj oczekujące zmiany.',
+  'app.confirm.switchToLocal': 'Przełączyć na tryb lokalny? Rachunki będą przechowywane tylko na tym urządzeniu.',
+  'app.confirm.switchToCloud': 'Przełączyć na synchronizację z chmurą?',
+  'app.confirm.signOutUnsynced': 'Masz niezsynchronizowane zmiany, które zostaną utracone. Czy na pewno chcesz się wylogować?',
+  'app.confirm.signOut': 'Czy na pewno chcesz się wylogować?',
+  'app.confirm.stopRecurring': 'Wyłączyłeś opcję \'Powtarzalny\'. Czy chcesz usunąć wszystkie przyszłe rachunki z tej serii?',
+  'app.paidByYou': 'Ty',
+  'app.notificationsDenied': 'Brak zgody na powiadomienia. Włącz je w ustawieniach systemu.',
+  'app.pendingChanges': 'Oczekujące zmiany: {n}',
+  'app.noDataToExport': 'Brak danych do eksportu.',
+  'app.action.exportCsv': 'Eksportuj do CSV',
+  'app.action.calendar': 'Kalendarz (.ics)',
+  'app.action.importCsv': 'Importuj z CSV',
+  'app.action.households': 'Gospodarstwa',
+  'app.action.settings': 'Ustawienia',
+  'app.action.search': 'Szukaj',
+  'app.action.signOut': 'Wyloguj ({email})',
+  'app.storage.cloud': 'Dane w chmurze',
+  'app.storage.local': 'Dane tylko na tym urządzeniu',
+  'app.loading': 'Ładowanie z chmury...',
+  'app.connectionError': 'Błąd Połączenia',
+  'app.netlifyConfig': 'Konfiguracja Netlify:',
+  'app.retry': 'Spróbuj ponownie',
+  'app.useLocally': 'Używaj lokalnie, bez konta',
+  'app.outOf': 'Z {total}',
+  'app.overdueCount': 'Rachunki po terminie: {n}',
+  'app.missingRates': 'Brak kursu dla: {codes}. Kwoty liczone 1:1 - uzupełnij kursy w ustawieniach.',
+  'app.carriedOver': 'Zaległe z poprzednich miesięcy',
+  'app.yourBills': 'Twoje Rachunki',
+  'app.income': 'Przychody',
+  'app.net': 'Przychody - rachunki',
+  'app.leftAfterBills': 'Zostaje po rachunkach',
+  'app.incomeReceived': 'Otrzymano {amount} z {total}',
+  'search.title': 'Szukaj',
+  'search.placeholder': 'Nazwa rachunku',
+  'search.filters': 'Filtry',
+  'search.all': 'Wszystkie',
+  'search.recurring': 'Cykliczne',
+  'search.amountRange': 'Kwota ({currency})',
+  'search.min': 'Od',
+  'search.max': 'Do',
+  'search.clearFilters': 'Wyczyść filtry',
+  'search.hint': 'Wpisz nazwę lub ustaw filtry, aby przeszukać wszystkie rachunki.',
+  'search.empty': 'Nic nie znaleziono.',
+  'search.results': 'Wyniki: {n}',
+  'batch.select': 'Zaznacz',
+  'batch.selectAll': 'Zaznacz wszystkie',
+  'batch.selectNone': 'Odznacz wszystkie',
+  'batch.selected': 'Zaznaczone: {n}',
+  'batch.markPaid': 'Zapłacone',
+  'batch.markUnpaid': 'Niezapłacone',
+  'batch.shift': 'Przesuń',
+  'batch.shiftDays': 'dni (ujemne wstecz)',
+  'batch.apply': 'Zastosuj',
+  'batch.confirm.markPaid': 'Oznaczyć rachunki ({n}) jako zapłacone?',
+  'batch.confirm.markUnpaid': 'Oznaczyć rachunki ({n}) jako niezapłacone? Ich płatności zostaną usunięte.',
+  'batch.confirm.delete': 'Usunąć rachunki ({n})?',
+  'batch.confirm.setCategory': 'Przenieść rachunki ({n}) do kategorii "{name}"?',
+  'batch.confirm.shift': 'Przesunąć termin rachunków ({n}) o {days} dni?',
+  'forecast.title': 'Prognoza płatności',
+  'forecast.nextDays': 'Najbliższe {n} dni',
+  'forecast.days': '{n} dni',
+  'forecast.startingBalance': 'Stan konta',
+  'forecast.due': 'Do zapłaty',
+  'forecast.endBalance': 'Zostanie',
+  'forecast.shortfall': 'Zabraknie {amount} ({date}).',
+  'forecast.runningTotal': 'Łącznie {amount}',
+  'forecast.balance': 'Saldo {amount}',
+  'forecast.projected': 'Prognoza',
+  'forecast.income': 'Wpływy +{amount}',
+  'forecast.empty': 'Brak płatności w tym okresie.',
+  'app.empty': 'Brak rachunków w tym miesiącu.',
+  'app.emptyHint': 'Dodaj pierwszy przyciskiem poniżej.',
+  'app.csvFileName': 'backup_rachunki',
+
+  'bill.oneOff': 'Jednorazowy',
+
+  'payments.title': 'Płatności',
+  'payments.remaining': 'Pozostało {amount}',
+  'payments.paidInFull': 'Zapłacone w całości',
+  'payments.referencePlaceholder': 'Tytuł / nr (opcjonalnie)',
+  'payments.add': 'Dodaj wpłatę',
+
+  'attachments.title': 'Załączniki',
+  'attachments.addFile': 'Dodaj plik',
+  'attachments.takePhoto': 'Zrób zdjęcie',
+  'attachments.error.type': 'Plik "{name}" nie jest zdjęciem ani PDF-em.',
+  'attachments.error.size': 'Plik "{name}" jest większy niż {max}.',
+  'attachments.error.upload': 'Nie udało się zapisać pliku "{name}".',
+
+  'edit.error.required': 'Wypełnij wszystkie pola.',
+  'edit.error.installments': 'Podaj liczbę rat.',
+  'edit.error.endDate': 'Data końca musi być późniejsza niż termin płatności.',
+  'edit.error.duplicate': 'Rachunek "{name}" już istnieje w tym miesiącu.',
+  'edit.confirm.updateFuture': 'To rachunek cykliczny. Czy chcesz zaktualizować cenę/nazwę/powtarzanie również dla przyszłych rachunków z tej serii?',
+  'edit.lastDayOfMonth': 'Ostatni dzień miesiąca',
+  'edit.title.details': 'Szczegóły Rachunku',
+  'edit.title.edit': 'Edytuj Rachunek',
+  'edit.title.new': 'Nowy Rachunek',
+  'edit.kind.bill': 'Rachunek',
+  'edit.kind.income': 'Przychód',
+  'edit.namePlaceholder': 'np. Netflix, Czynsz...',
+  'edit.recurringHint': 'Tworzy serię rachunków',
+  'edit.nthWeekday': 'N-ty dzień tygodnia',
+  'edit.everyNMonths': 'Co N miesięcy',
+  'edit.every': 'Co',
+  'edit.months': 'miesięcy',
+  'edit.shiftToBusinessDay': 'Przesuń na najbliższy dzień roboczy',
+  'edit.seriesEnd': 'Koniec serii',
+  'edit.end.never': 'Bez końca',
+  'edit.end.count': 'Po N ratach',
+  'edit.end.date': 'Do daty',
+  'edit.installmentsTotal': 'rat łącznie',
+  'edit.saveChanges': 'Zapisz Zmiany',
+  'edit.add': 'Dodaj Rachunek',
+
+  'yearly.spentIn': 'Wydano w {year}',
+  'yearly.average': 'Średnio {amount} / msc',
+  'yearly.paid': 'Zapłacono {amount}',
+  'yearly.chart': 'Wykres miesięczny',
+  'yearly.byCategory': 'Według Kategorii',
+  'yearly.empty': 'Brak danych dla tego roku.',
+  'yearly.budget': 'Budżet roczny {amount}',
+  'yearly.budgetUsed': 'Wykorzystano {percent}%',
+  'yearly.savingsRate': 'Stopa oszczędności',
+  'yearly.incomeVsBills': 'Przychody {income}, rachunki {bills}',
+  'yearly.netChart': 'Bilans miesięczny',
+  'priceChange.title': 'Zmiany cen w tym roku',
+  'priceChange.since': '+{amount} od {date}',
+  'priceChange.perYear': '{amount} / rok',
+
+  'installments.title': 'Raty i umowy',
+  'installments.paid': 'Spłacono {n}/{count}',
+  'installments.end': 'Koniec: {date}',
+
+  'export.title': 'Eksport CSV',
+  'export.delimiter': 'Separator',
+  'export.delimiter.semicolon': 'Średnik ;',
+  'export.delimiter.comma': 'Przecinek ,',
+  'export.delimiter.tab': 'Tabulator',
+  'export.format': 'Format liczb i dat',
+  'export.dateRange': 'Zakres dat (opcjonalnie)',
+  'export.categories': 'Kategorie',
+  'export.allCategories': '(wszystkie)',
+  'export.seriesColumns': 'Kolumny częstotliwości i serii',
+  'export.includeIncome': "Uwzględnij przychody",
+  'export.empty': 'Brak rachunków w zakresie',
+  'export.download': 'Pobierz {n} rachunków',
+
+  'settings.language': 'Język',
+  'settings.horizon': 'Rachunki cykliczne',
+  'settings.horizonHint': 'Na ile miesięcy do przodu tworzyć rachunki z serii.',
+  'settings.months': '{n} msc',
+  'settings.reminders': 'Przypomnienia o terminach',
+  'settings.remindersHint': 'Ile dni przed terminem przypomnieć (o {hour}).',
+  'settings.onDueDate': 'W dniu terminu',
+  'settings.overdueSummary': 'Codzienne podsumowanie zaległych',
+  'settings.backup': 'Kopia zapasowa JSON',
+
+  'household.error.action': 'Operacja nie powiodła się. Sprawdź połączenie.',
+  'household.inviteSent': 'Zaproszenie wysłane. Poproś o zalogowanie się adresem {email}.',
+  'household.confirm.remove': 'Usunąć {email} z gospodarstwa?',
+  'household.confirm.leave': 'Czy na pewno chcesz opuścić "{name}"?',
+  'household.view': 'Widok',
+  'household.myBills': 'Moje rachunki',
+  'household.invitations': 'Zaproszenia',
+  'household.household': 'Gospodarstwo',
+  'household.join': 'Dołącz',
+  'household.members': 'Członkowie',
+  'household.emailPlaceholder': 'E-mail osoby',
+  'household.invite': 'Zaproś',
+  'household.leave': 'Opuść gospodarstwo',
+  'household.new': 'Nowe gospodarstwo',
+  'household.namePlaceholder': 'np. Dom, Mieszkanie...',
+
+  'auth.confirmEmail': 'Sprawdź skrzynkę e-mail, aby potwierdzić konto.',
+  'auth.linkSent': 'Wysłaliśmy link logowania. Otwórz go na tym urządzeniu.',
+  'auth.error.credentials': 'Nieprawidłowy e-mail lub hasło.',
+  'auth.error.failed': 'Nie udało się zalogować. Sprawdź połączenie.',
+  'auth.mode.signIn': 'Logowanie',
+  'auth.mode.signUp': 'Nowe konto',
+  'auth.mode.magicLink': 'Link e-mail',
+  'auth.title': 'Zaloguj się',
+  'auth.hint': 'Twoje rachunki są widoczne tylko dla Ciebie.',
+  'auth.emailPlaceholder': 'ty@example.com',
+  'auth.password': 'Hasło',
+  'auth.submit.signIn': 'Zaloguj',
+  'auth.submit.signUp': 'Załóż konto',
+  'auth.submit.magicLink': 'Wyślij link'
+};
@@ -0,0 +1,62 @@
+import { Capacitor } from '@capacitor/core';
+import { LocalNotifications } from '@capacitor/local-notifications';
+import { PlannedReminder } from './reminders';
+
+// Delivers planned reminders: local notifications in the native app, browser notifications
+// while the tab is open on the web.
+
+const MAX_TIMEOUT_MS = 2147483647; // setTimeout fires immediately for longer delays
+
+const webTimers: ReturnType<typeof setTimeout>[] = [];
+
+const webNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Returns true when reminders may be shown
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (Capacitor.isNativePlatform()) {
+    const status = await LocalNotifications.requestPermissions();
+    return status.display === 'granted';
+  }
+  if (!webNotificationsSupported()) return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+const syncWebReminders = (reminders: PlannedReminder[]) => {
+  webTimers.splice(0).forEach(clearTimeout);
+  if (!webNotificationsSupported() || Notification.permission !== 'granted') return;
+
+  const now = Date.now();
+  reminders
+    .filter(r => r.at.getTime() - now < MAX_TIMEOUT_MS)
+    .forEach(r => {
+      webTimers.push(setTimeout(() => new Notification(r.title, { body: r.body, tag: `${r.kind}-${r.billId ?? r.id}` }), Math.max(0, r.at.getTime() - now)));
+    });
+};
+
+const syncNativeReminders = async (reminders: PlannedReminder[]) => {
+  const { display } = await LocalNotifications.checkPermissions();
+  const pending = await LocalNotifications.getPending();
+  if (pending.notifications.length > 0) {
+    await LocalNotifications.cancel({ notifications: pending.notifications.map(n => ({ id: n.id })) });
+  }
+  if (display !== 'granted' || reminders.length === 0) return;
+
+  await LocalNotifications.schedule({
+    notifications: reminders.map(r => ({
+      id: r.id,
+      title: r.title,
+      body: r.body,
+      schedule: { at: r.at, allowWhileIdle: true },
+      extra: { billId: r.billId }
+    }))
+  });
+};
+
+// Replaces everything scheduled before, so paid or deleted bills lose their reminders
+export const syncReminders = async (reminders: PlannedReminder[]) => {
+  if (Capacitor.isNativePlatform()) {
+    await syncNativeReminders(reminders);
+  } else {
+    syncWebReminders(reminders);
+  }
+};
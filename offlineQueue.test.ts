@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { remapBillIds } from './offlineQueue';
+import { makeBill } from './testFixtures';
+
+describe('remapBillIds', () => {
+  it('gives temporary bills their stored ids', () => {
+    const bills = [makeBill('a'), makeBill('tmp_1', { name: 'New' })];
+    expect(remapBillIds(bills, { tmp_1: 'b' })).toEqual([makeBill('a'), makeBill('b', { name: 'New' })]);
+  });
+
+  it('drops a temporary bill whose stored bill is already listed', () => {
+    // Another device generated the occurrence first and realtime delivered it before our insert replayed
+    const existing = makeBill('b', { seriesId: 's1', isPaid: true });
+    const bills = [existing, makeBill('tmp_1', { seriesId: 's1' })];
+    expect(remapBillIds(bills, { tmp_1: 'b' })).toEqual([existing]);
+  });
+
+  it('keeps one bill when two temporary bills resolve to the same id', () => {
+    const bills = [makeBill('tmp_1'), makeBill('tmp_2')];
+    expect(remapBillIds(bills, { tmp_1: 'b', tmp_2: 'b' })).toEqual([makeBill('b', { name: 'Bill tmp_1' })]);
+  });
+});
@@ -0,0 +1,209 @@
+import { Bill, BillSeries, Category } from './types';
+import { generateId } from './utils';
+import { BillBatch, BillChanges, BillRepository, SeriesMatch, applyBillChanges, isDueAfter, matchesSeries, toClearingChanges } from './repositories';
+
+// Persistent outbox of mutations waiting to reach the database.
+// Lives next to the bills cache so that changes made without signal survive an app restart.
+export const OUTBOX_KEY = 'liquid_bills_outbox';
+
+const TEMP_ID_PREFIX = 'tmp_';
+
+export type Mutation =
+  | { kind: 'insert'; bills: Bill[] } // bills carry temporary ids until replayed
+  // `droppedAttachments` are store paths of files taken off the bill, removed once the update is stored
+  | { kind: 'update'; billId: string; changes: BillChanges; droppedAttachments?: string[] }
+  | { kind: 'delete'; billId: string }
+  | { kind: 'batch'; batch: BillBatch } // Bulk actions, replayed as one all-or-nothing call
+  // Mirrors the "remove future bills of a series" query used when a series is edited
+  | { kind: 'deleteFuture'; match: SeriesMatch; after: string }
+  | { kind: 'saveSeries'; series: BillSeries }
+  | { kind: 'deleteSeries'; seriesId: string }
+  | { kind: 'saveCategory'; category: Category }
+  | { kind: 'deleteCategory'; categoryId: string };
+
+export type QueuedMutation = Mutation & {
+  opId: string;
+  createdAt: string;
+};
+
+// --- Temporary IDs ---
+
+export const createTempId = (): string => `${TEMP_ID_PREFIX}${generateId()}`;
+
+export const isTempId = (id: string): boolean => id.startsWith(TEMP_ID_PREFIX);
+
+// --- Storage ---
+
+export const loadOutbox = (): QueuedMutation[] => {
+  const stored = localStorage.getItem(OUTBOX_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Outbox parse error", e);
+    return [];
+  }
+};
+
+export const saveOutbox = (queue: QueuedMutation[]) => {
+  if (queue.length === 0) {
+    localStorage.removeItem(OUTBOX_KEY);
+  } else {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(queue));
+  }
+};
+
+// Fields set to undefined mean "clear" in the app, the outbox needs them as null
+const toStoredMutation = (m: Mutation): Mutation => {
+  if (m.kind === 'update') return { ...m, changes: toClearingChanges(m.changes) };
+  if (m.kind === 'batch') {
+    return { ...m, batch: { ...m.batch, updates: m.batch.updates.map(u => ({ ...u, changes: toClearingChanges(u.changes) })) } };
+  }
+  return m;
+};
+
+export const enqueueMutations = (mutations: Mutation[]): QueuedMutation[] => {
+  const createdAt = new Date().toISOString();
+  const queue = [
+    ...loadOutbox(),
+    ...mutations.map(m => ({ ...toStoredMutation(m), opId: generateId(), createdAt }))
+  ];
+  saveOutbox(queue);
+  return queue;
+};
+
+// --- Local application ---
+
+export const applyMutation = (bills: Bill[], m: Mutation): Bill[] => {
+  switch (m.kind) {
+    case 'insert':
+      return [...bills, ...m.bills];
+    case 'update':
+      return bills.map(b => b.id === m.billId ? applyBillChanges(b, m.changes) : b);
+    case 'delete':
+      return bills.filter(b => b.id !== m.billId);
+    case 'batch': {
+      const deleted = new Set(m.batch.deleteIds);
+      return m.batch.updates
+        .reduce((acc, u) => acc.map(b => b.id === u.billId ? applyBillChanges(b, u.changes) : b), bills)
+        .filter(b => !deleted.has(b.id));
+    }
+    case 'deleteFuture':
+      return bills.filter(b => !(matchesSeries(b, m.match) && isDueAfter(b, m.after)));
+    case 'saveSeries':
+    case 'deleteSeries':
+    case 'saveCategory':
+    case 'deleteCategory':
+      return bills;
+  }
+};
+
+export const applySeriesMutations = (series: BillSeries[], mutations: Mutation[]): BillSeries[] => {
+  return mutations.reduce((acc, m) => {
+    if (m.kind === 'deleteSeries') return acc.filter(s => s.id !== m.seriesId);
+    if (m.kind !== 'saveSeries') return acc;
+    return [...acc.filter(s => s.id !== m.series.id), m.series];
+  }, series);
+};
+
+export const applyCategoryMutations = (categories: Category[], mutations: Mutation[]): Category[] => {
+  return mutations.reduce((acc, m) => {
+    if (m.kind === 'deleteCategory') return acc.filter(c => c.id !== m.categoryId);
+    if (m.kind !== 'saveCategory') return acc;
+    if (!acc.some(c => c.id === m.category.id)) return [...acc, m.category];
+    return acc.map(c => c.id === m.category.id ? m.category : c);
+  }, categories);
+};
+
+export const applyMutations = (bills: Bill[], mutations: Mutation[]): Bill[] => {
+  return mutations.reduce(applyMutation, bills);
+};
+
+// Rewrites temporary ids in queued mutations once the database has assigned real ones
+export const remapTempIds = (queue: QueuedMutation[], idMap: Record<string, string>): QueuedMutation[] => {
+  const remap = (id: string) => idMap[id] || id;
+  return queue.map(op => {
+    switch (op.kind) {
+      case 'insert':
+        return { ...op, bills: op.bills.map(b => ({ ...b, id: remap(b.id) })) };
+      case 'update':
+      case 'delete':
+        return { ...op, billId: remap(op.billId) };
+      case 'batch':
+        return {
+          ...op,
+          batch: {
+            updates: op.batch.updates.map(u => ({ ...u, billId: remap(u.billId) })),
+            deleteIds: op.batch.deleteIds.map(remap)
+          }
+        };
+      default:
+        return op;
+    }
+  });
+};
+
+// An insert may resolve to a bill that is already listed (an occurrence another device stored first,
+// delivered by realtime); the temporary copy is dropped then, so every id stays unique
+export const remapBillIds = (bills: Bill[], idMap: Record<string, string>): Bill[] => {
+  const listed = new Set(bills.filter(b => !idMap[b.id]).map(b => b.id));
+  return bills.flatMap(b => {
+    const id = idMap[b.id];
+    if (!id) return [b];
+    if (listed.has(id)) return [];
+    listed.add(id);
+    return [{ ...b, id }];
+  });
+};
+
+// --- Replay ---
+
+export const isNetworkError = (err: any): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message: string = err?.message || '';
+  return message.includes('fetch') || message.includes('network') || message.includes('Network');
+};
+
+// Errors after which the mutation should stay queued and be retried later
+export const isRetryableError = (err: any): boolean => {
+  return isNetworkError(err) || err?.message === 'NOT_AUTHENTICATED';
+};
+
+// Sends a single mutation to the repository. Returns the temp id -> real id mapping for inserts.
+export const replayMutation = async (repository: BillRepository, m: Mutation): Promise<Record<string, string>> => {
+  switch (m.kind) {
+    case 'insert': {
+      const stored = await repository.insert(m.bills);
+      const idMap: Record<string, string> = {};
+      stored.forEach((bill, i) => {
+        const tempId = m.bills[i]?.id;
+        if (tempId && isTempId(tempId)) idMap[tempId] = bill.id;
+      });
+      return idMap;
+    }
+    case 'update':
+      await repository.update(m.billId, m.changes);
+      return {};
+    case 'delete':
+      await repository.delete(m.billId);
+      return {};
+    case 'batch':
+      await repository.applyBatch(m.batch);
+      return {};
+    case 'deleteFuture':
+      await repository.deleteSeriesAfter(m.match, m.after);
+      return {};
+    case 'saveSeries':
+      await repository.saveSeriesRule(m.series);
+      return {};
+    case 'deleteSeries':
+      await repository.deleteSeriesRule(m.seriesId);
+      return {};
+    case 'saveCategory':
+      await repository.saveCategory(m.category);
+      return {};
+    case 'deleteCategory':
+      await repository.deleteCategory(m.categoryId);
+      return {};
+  }
+};
@@ -0,0 +1,31 @@
+import { Bill } from './types';
+import { getRemainingAmount } from './payments';
+import { isIncome } from './income';
+import { ExchangeRateTable, toBaseAmount } from './currency';
+import { t } from './i18n';
+
+// A bill is overdue from the day after its due date until it's fully paid
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayStart = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Whole days past the due date, 0 when paid or not yet due
+export const getDaysOverdue = (bill: Bill, today: Date = new Date()): number => {
+  if (bill.isPaid || isIncome(bill)) return 0; // Late income isn't a debt
+  const days = Math.round((dayStart(today).getTime() - dayStart(new Date(bill.dueDate)).getTime()) / DAY_MS);
+  return Math.max(0, days);
+};
+
+export const isOverdue = (bill: Bill, today: Date = new Date()): boolean => getDaysOverdue(bill, today) > 0;
+
+export const formatDaysOverdue = (days: number): string => days === 1 ? t('overdue.oneDay') : t('overdue.days', { n: days });
+
+// Oldest first, so the longest-forgotten bills lead the list
+export const getOverdueBills = (bills: Bill[], today: Date = new Date()): Bill[] =>
+  bills
+    .filter(b => isOverdue(b, today))
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+
+export const getOverdueTotal = (bills: Bill[], baseCurrency: string, rates: ExchangeRateTable, today: Date = new Date()): number =>
+  getOverdueBills(bills, today).reduce((sum, b) => sum + toBaseAmount(b, getRemainingAmount(b), baseCurrency, rates), 0);
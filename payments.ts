@@ -0,0 +1,62 @@
+import { Bill, Payment, PaymentMethod } from './types';
+import { BillChanges } from './repositories';
+import { generateId } from './utils';
+
+// Rounding leftovers below one grosz don't keep a bill open
+const EPSILON = 0.005;
+
+export const getPaidAmount = (bill: Bill): number => {
+  if (!bill.payments) return bill.isPaid ? bill.amount : 0;
+  return bill.payments.reduce((sum, p) => sum + p.amount, 0);
+};
+
+export const getRemainingAmount = (bill: Bill): number => {
+  return Math.max(0, bill.amount - getPaidAmount(bill));
+};
+
+export const isPartiallyPaid = (bill: Bill): boolean => {
+  return !bill.isPaid && getPaidAmount(bill) > EPSILON;
+};
+
+export const coversAmount = (payments: Payment[], amount: number): boolean => {
+  return payments.reduce((sum, p) => sum + p.amount, 0) >= amount - EPSILON;
+};
+
+export const createPayment = (
+  amount: number,
+  method: PaymentMethod = PaymentMethod.TRANSFER,
+  paidAt: string = new Date().toISOString(),
+  reference?: string
+): Payment => ({
+  id: generateId(),
+  amount,
+  paidAt,
+  method,
+  reference: reference?.trim() || undefined
+});
+
+// Bills paid before payment records existed get their single payment dated on the due date
+export const getPayments = (bill: Bill): Payment[] => {
+  if (bill.payments) return bill.payments;
+  return bill.isPaid ? [{ ...createPayment(bill.amount, PaymentMethod.OTHER, bill.dueDate), paidBy: bill.paidBy }] : [];
+};
+
+// Changes for a new list of payments, keeping `isPaid` and `paidBy` consistent with it
+export const paymentChanges = (bill: Bill, payments: Payment[]): BillChanges => {
+  const isPaid = coversAmount(payments, bill.amount);
+  // Whoever settled the bill, i.e. made the payment that covered the rest
+  const settling = isPaid ? payments[payments.length - 1] : undefined;
+  return {
+    payments,
+    isPaid,
+    // Null clears the payer, undefined wouldn't reach the server
+    paidBy: isPaid ? (bill.isPaid ? bill.paidBy : settling?.paidBy) ?? null : null
+  };
+};
+
+// Quick action on the bill card: pay the rest in full, or undo all payments of a paid bill
+export const togglePaymentChanges = (bill: Bill, userId?: string): BillChanges => {
+  if (bill.isPaid) return paymentChanges(bill, []);
+  const payment = { ...createPayment(getRemainingAmount(bill)), paidBy: userId };
+  return paymentChanges(bill, [...getPayments(bill), payment]);
+};
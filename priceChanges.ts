@@ -0,0 +1,96 @@
+import { Bill, RecurrenceKind, RecurrenceRule } from './types';
+import { getRecurrenceRule } from './recurrence';
+import { getBillCurrency } from './currency';
+import { isIncome } from './income';
+
+// Past occurrences keep the amount they had when a series was re-priced, so the price history
+// of a series is read from its bills rather than stored separately.
+
+export interface PriceChange {
+  seriesId: string;
+  name: string; // Of the first occurrence at the new price
+  currency: string;
+  previousAmount: number;
+  amount: number;
+  date: string; // Due date of the first occurrence at the new price
+  annualImpact: number; // Difference over a year's worth of occurrences, negative for decreases
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const occurrencesPerYear = (rule: RecurrenceRule): number =>
+  rule.kind === RecurrenceKind.WEEKLY ? 52 / rule.interval : 12 / rule.interval;
+
+interface PriceRun {
+  amount: number;
+  currency: string;
+  first: Bill;
+  count: number;
+}
+
+const samePrice = (a: PriceRun, b: PriceRun) => a.amount === b.amount && a.currency === b.currency;
+
+// Consecutive occurrences with the same price. A single occurrence that differs from both neighbours
+// is a one-off correction rather than a new price, it's folded back into the surrounding run.
+const priceRuns = (bills: Bill[]): PriceRun[] => {
+  const runs: PriceRun[] = [];
+  bills.forEach(bill => {
+    const run = { amount: bill.amount, currency: getBillCurrency(bill), first: bill, count: 1 };
+    const last = runs[runs.length - 1];
+    if (last && samePrice(last, run)) {
+      last.count++;
+      return;
+    }
+    const beforeLast = runs[runs.length - 2];
+    if (last?.count === 1 && beforeLast && samePrice(beforeLast, run)) {
+      runs.pop();
+      beforeLast.count += 2;
+      return;
+    }
+    runs.push(run);
+  });
+  return runs;
+};
+
+const seriesChanges = (seriesId: string, bills: Bill[]): PriceChange[] => {
+  const sorted = [...bills].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+  const runs = priceRuns(sorted);
+  const changes: PriceChange[] = [];
+  for (let i = 1; i < runs.length; i++) {
+    const previous = runs[i - 1];
+    const run = runs[i];
+    if (run.currency !== previous.currency) continue; // A currency switch can't be compared
+    changes.push({
+      seriesId,
+      name: run.first.name,
+      currency: run.currency,
+      previousAmount: previous.amount,
+      amount: run.amount,
+      date: run.first.dueDate,
+      annualImpact: (run.amount - previous.amount) * occurrencesPerYear(getRecurrenceRule(run.first))
+    });
+  }
+  return changes;
+};
+
+// Every price change of every series, oldest first
+export const getPriceChanges = (bills: Bill[]): PriceChange[] => {
+  const bySeries = new Map<string, Bill[]>();
+  bills.forEach(b => {
+    if (b.seriesId && !isIncome(b)) bySeries.set(b.seriesId, [...(bySeries.get(b.seriesId) || []), b]);
+  });
+  return [...bySeries]
+    .flatMap(([seriesId, seriesBills]) => seriesChanges(seriesId, seriesBills))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// The increase behind a bill's amount, when it took effect less than a year before the bill was due
+export const findRecentIncrease = (bill: Bill, changes: PriceChange[]): PriceChange | undefined => {
+  if (!bill.seriesId) return undefined;
+  const due = new Date(bill.dueDate).getTime();
+  const latest = changes
+    .filter(c => c.seriesId === bill.seriesId && new Date(c.date).getTime() <= due)
+    .pop();
+  if (!latest || latest.amount <= latest.previousAmount || latest.amount !== bill.amount) return undefined;
+  return due - new Date(latest.date).getTime() < YEAR_MS ? latest : undefined;
+};
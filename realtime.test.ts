@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Bill } from './types';
+import { BillChange, createInMemoryBillRepository, isEcho } from './repositories';
+import { Mutation } from './offlineQueue';
+import { mergeBillChange } from './realtime';
+import { makeBill } from './testFixtures';
+
+// Follows a repository the way the app does: echoes are skipped, everything else is merged
+// over the pending outbox
+const follow = (initial: Bill[], pending: Mutation[] = []) => {
+  const state = { bills: initial };
+  const listener = (change: BillChange) => {
+    if (isEcho(change)) return;
+    state.bills = mergeBillChange(state.bills, change, pending);
+  };
+  return { state, listener };
+};
+
+describe('live bill changes', () => {
+  it('merges inserts, updates and deletes made on another device', async () => {
+    const repository = createInMemoryBillRepository({ bills: [makeBill('a')], origin: 'other-device' });
+    const { state, listener } = follow([makeBill('a')]);
+    repository.subscribe(listener);
+
+    const [inserted] = await repository.insert([makeBill('tmp', { name: 'Internet' })]);
+    expect(state.bills.map(b => b.name)).toEqual(['Bill a', 'Internet']);
+
+    await repository.update(inserted.id, { amount: 250 });
+    expect(state.bills.find(b => b.id === inserted.id)?.amount).toBe(250);
+
+    await repository.delete('a');
+    expect(state.bills.map(b => b.id)).toEqual([inserted.id]);
+  });
+
+  it('reports batch updates and deletes', async () => {
+    const repository = createInMemoryBillRepository({ bills: [makeBill('a'), makeBill('b')], origin: 'other-device' });
+    const { state, listener } = follow([makeBill('a'), makeBill('b')]);
+    repository.subscribe(listener);
+
+    await repository.applyBatch({ updates: [{ billId: 'a', changes: { category: 'home' } }], deleteIds: ['b'] });
+    expect(state.bills).toEqual([makeBill('a', { category: 'home' })]);
+  });
+
+  it('skips echoes of its own writes', async () => {
+    const repository = createInMemoryBillRepository({ bills: [makeBill('a')] });
+    const { state, listener } = follow([makeBill('a')]);
+    const received: BillChange[] = [];
+    repository.subscribe(change => { received.push(change); listener(change); });
+
+    await repository.update('a', { amount: 250 });
+    await repository.insert([makeBill('tmp')]);
+    expect(received).toHaveLength(2);
+    expect(state.bills).toEqual([makeBill('a')]);
+  });
+
+  it('keeps a pending local change over the incoming row', async () => {
+    const repository = createInMemoryBillRepository({ bills: [makeBill('a')], origin: 'other-device' });
+    const { state, listener } = follow([makeBill('a', { isPaid: true })], [
+      { kind: 'update', billId: 'a', changes: { isPaid: true } }
+    ]);
+    repository.subscribe(listener);
+
+    await repository.update('a', { amount: 250, name: 'Server' });
+    expect(state.bills).toEqual([makeBill('a', { amount: 250, name: 'Server', isPaid: true })]);
+  });
+
+  it('does not bring back a bill deleted locally before the delete synced', async () => {
+    const repository = createInMemoryBillRepository({ bills: [makeBill('a'), makeBill('b')], origin: 'other-device' });
+    const { state, listener } = follow([makeBill('b')], [{ kind: 'delete', billId: 'a' }]);
+    repository.subscribe(listener);
+
+    await repository.update('a', { amount: 250 });
+    expect(state.bills).toEqual([makeBill('b')]);
+  });
+
+  it('stops reporting after unsubscribing', async () => {
+    const repository = createInMemoryBillRepository({ origin: 'other-device' });
+    const { state, listener } = follow([]);
+    const unsubscribe = repository.subscribe(listener);
+    unsubscribe();
+
+    await repository.insert([makeBill('tmp')]);
+    expect(state.bills).toEqual([]);
+  });
+});
+
+describe('mergeBillChange', () => {
+  it('ignores changes without a row', () => {
+    const bills = [makeBill('a')];
+    expect(mergeBillChange(bills, { type: 'update', id: 'a' })).toBe(bills);
+  });
+
+  it('applies pending batch changes to the incoming row', () => {
+    const change: BillChange = { type: 'update', id: 'a', bill: makeBill('a') };
+    expect(mergeBillChange([makeBill('a')], change, [
+      { kind: 'batch', batch: { updates: [{ billId: 'a', changes: { category: 'home' } }], deleteIds: [] } }
+    ])[0].category).toBe('home');
+    expect(mergeBillChange([makeBill('a')], change, [
+      { kind: 'batch', batch: { updates: [], deleteIds: ['a'] } }
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,24 @@
+import { Bill } from './types';
+import { BillChange } from './repositories';
+import { Mutation, applyMutations } from './offlineQueue';
+
+// Merges a single live change into the bill list without a full reload.
+// `pending` are outbox mutations that haven't reached the server yet: they win over the incoming row,
+// otherwise a change made on this device while offline would flicker back to the server state.
+export const mergeBillChange = (bills: Bill[], change: BillChange, pending: Mutation[] = []): Bill[] => {
+  if (change.type === 'delete') {
+    return bills.filter(b => b.id !== change.id);
+  }
+  if (!change.bill) return bills;
+
+  const pendingForBill = pending.filter(m =>
+    ((m.kind === 'update' || m.kind === 'delete') && m.billId === change.id)
+    || (m.kind === 'batch' && (m.batch.deleteIds.includes(change.id) || m.batch.updates.some(u => u.billId === change.id)))
+  );
+  const [incoming] = applyMutations([change.bill], pendingForBill);
+  if (!incoming) return bills.filter(b => b.id !== change.id); // Deleted locally, waiting to sync
+
+  const exists = bills.some(b => b.id === change.id);
+  if (!exists) return [...bills, incoming];
+  return bills.map(b => b.id === change.id ? incoming : b);
+};
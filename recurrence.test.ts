@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Bill, BillSeries, RecurrenceKind } from './types';
+import { deriveMissingRules, extendSeries, planSeriesExtension } from './recurrence';
+import { createInMemoryBillRepository } from './repositories';
+import { planBatch } from './batchActions';
+import { makeBill } from './testFixtures';
+
+const now = new Date(2026, 9, 19, 12);
+
+// Legacy monthly bill of series `s1`, `month` counted from October 2026
+const legacy = (month: number, overrides: Partial<Bill> = {}): Bill =>
+  makeBill(`m${month}`, { name: 'Rent', dueDate: new Date(2026, 9 + month, 10).toISOString(), isRecurring: true, seriesId: 's1', ...overrides });
+
+describe('deriveMissingRules', () => {
+  it('rebuilds the rule of a running legacy series from its latest bill', () => {
+    const rules = deriveMissingRules([legacy(-1), legacy(0), legacy(1)], [], now);
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({ id: 's1', name: 'Rent', anchorDate: legacy(1).dueDate, isActive: true });
+  });
+
+  it('fills a running legacy series up to the horizon', () => {
+    const mutations = planSeriesExtension([legacy(0), legacy(1)], [], new Date(2027, 1, 1), now);
+    const insert = mutations.find(m => m.kind === 'insert');
+    expect(insert?.kind === 'insert' && insert.bills.map(b => new Date(b.dueDate).getMonth())).toEqual([11, 0]);
+  });
+
+  it('leaves a series stopped in the past stopped', () => {
+    // Stopped in August: the August bill was unlinked, September onwards deleted
+    const bills = [legacy(-4), legacy(-3), legacy(-2, { seriesId: undefined, isRecurring: false })];
+    expect(deriveMissingRules(bills, [], now)).toEqual([]);
+    expect(planSeriesExtension(bills, [], new Date(2027, 9, 1), now)).toEqual([]);
+  });
+
+  it('leaves a series stopped at an upcoming bill stopped', () => {
+    const bills = [legacy(-1), legacy(0), legacy(1, { seriesId: undefined, isRecurring: false })];
+    expect(deriveMissingRules(bills, [], now)).toEqual([]);
+    expect(planSeriesExtension(bills, [], new Date(2027, 9, 1), now)).toEqual([]);
+  });
+});
+
+describe('generated occurrences', () => {
+  const weekly: BillSeries = {
+    id: 'w1',
+    name: 'Cleaning',
+    amount: 80,
+    category: 'home',
+    recurrence: { kind: RecurrenceKind.WEEKLY, interval: 1 },
+    anchorDate: new Date(2026, 9, 5, 12).toISOString(),
+    isActive: true
+  };
+  const horizon = new Date(2026, 10, 1);
+
+  it('can be shifted onto the date of the next occurrence', async () => {
+    const repository = createInMemoryBillRepository();
+    const stored = await repository.insert(extendSeries(weekly, [], horizon));
+    expect(stored).toHaveLength(4);
+
+    await repository.applyBatch(planBatch([stored[0]], { kind: 'shiftDueDate', days: 7 }));
+    const bills = await repository.list();
+    expect(bills.filter(b => b.dueDate === stored[1].dueDate)).toHaveLength(2);
+  });
+
+  it('are stored once when two devices generate the same slots', async () => {
+    const repository = createInMemoryBillRepository();
+    const first = await repository.insert(extendSeries(weekly, [], horizon));
+    await repository.applyBatch(planBatch([first[0]], { kind: 'shiftDueDate', days: 7 }));
+
+    // The other device hasn't seen any of them yet
+    const second = await repository.insert(extendSeries(weekly, [], horizon));
+    expect(second.map(b => b.id)).toEqual(first.map(b => b.id));
+    expect(await repository.list()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,288 @@
+import { Bill, BillFrequency, BillSeries, RecurrenceKind, RecurrenceRule, SeriesEnd } from './types';
+import { Mutation, createTempId } from './offlineQueue';
+import { nextBusinessDay } from './holidays';
+import { MessageKey, t } from './i18n';
+import { normalizeCategory } from './categories';
+
+export const DEFAULT_HORIZON_MONTHS = 18;
+
+// Hard stop for the generation loop, no series needs more occurrences than this in one pass
+const MAX_OCCURRENCES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getHorizonDate = (months: number, from: Date = new Date()): Date => {
+  const horizon = new Date(from);
+  horizon.setMonth(horizon.getMonth() + months);
+  return horizon;
+};
+
+// --- Rules ---
+
+export const monthlyRule = (interval: number = BillFrequency.MONTHLY): RecurrenceRule => ({
+  kind: RecurrenceKind.MONTHLY,
+  interval
+});
+
+// Bills and series saved before recurrence rules only carry a month interval
+export const getRecurrenceRule = (item: { recurrence?: RecurrenceRule; frequency?: BillFrequency }): RecurrenceRule => {
+  return item.recurrence || monthlyRule(item.frequency || BillFrequency.MONTHLY);
+};
+
+// The legacy `frequency` field only fits plain 1/3/6/12 month rules
+export const toLegacyFrequency = (rule: RecurrenceRule): BillFrequency | undefined => {
+  if (rule.kind !== RecurrenceKind.MONTHLY) return undefined;
+  return Object.values(BillFrequency).includes(rule.interval) ? rule.interval as BillFrequency : undefined;
+};
+
+const WEEKDAY_NAMES: MessageKey[] = [
+  'weekday.sunday', 'weekday.monday', 'weekday.tuesday', 'weekday.wednesday', 'weekday.thursday', 'weekday.friday', 'weekday.saturday'
+];
+const WEEK_OF_MONTH_NAMES: Record<number, MessageKey> = {
+  1: 'weekOfMonth.first', 2: 'weekOfMonth.second', 3: 'weekOfMonth.third', 4: 'weekOfMonth.fourth', [-1]: 'weekOfMonth.last'
+};
+
+export const getWeekdayName = (weekday: number): string => t(WEEKDAY_NAMES[weekday]);
+
+export const getWeekOfMonthName = (weekOfMonth: number): string => t(WEEK_OF_MONTH_NAMES[weekOfMonth]);
+
+const everyMonths = (interval: number): string => {
+  if (interval === 1) return t('recurrence.monthly');
+  if (interval === 3) return t('recurrence.quarterly');
+  if (interval === 6) return t('recurrence.semiannual');
+  if (interval === 12) return t('recurrence.annual');
+  return t('recurrence.everyMonths', { n: interval });
+};
+
+// Short label for lists, e.g. "Co 2 tygodnie" or "Ostatni piątek"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  let label: string;
+  switch (rule.kind) {
+    case RecurrenceKind.WEEKLY:
+      label = rule.interval === 1 ? t('recurrence.weekly') : rule.interval === 2 ? t('recurrence.biweekly') : t('recurrence.everyWeeks', { n: rule.interval });
+      break;
+    case RecurrenceKind.MONTHLY:
+      label = everyMonths(rule.interval);
+      break;
+    case RecurrenceKind.LAST_DAY_OF_MONTH:
+      label = rule.interval === 1 ? t('recurrence.lastDay') : t('recurrence.lastDayEvery', { every: everyMonths(rule.interval).toLowerCase() });
+      break;
+    case RecurrenceKind.NTH_WEEKDAY:
+      label = `${getWeekOfMonthName(rule.weekOfMonth ?? 1)} ${getWeekdayName(rule.weekday ?? 1)}`;
+      if (rule.interval !== 1) label += `, ${everyMonths(rule.interval).toLowerCase()}`;
+      break;
+  }
+  return rule.shiftToBusinessDay ? t('recurrence.businessDays', { label }) : label;
+};
+
+// --- Date math ---
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+// Same time of day as `base`, on the given calendar day. Overflowing days are clamped to the month end.
+const onDay = (base: Date, year: number, month: number, day: number): Date => {
+  const normalized = new Date(year, month, 1);
+  const result = new Date(base);
+  result.setFullYear(normalized.getFullYear(), normalized.getMonth(), Math.min(day, daysInMonth(normalized.getFullYear(), normalized.getMonth())));
+  return result;
+};
+
+const nthWeekdayOfMonth = (base: Date, year: number, month: number, weekOfMonth: number, weekday: number): Date => {
+  const normalized = new Date(year, month, 1);
+  const y = normalized.getFullYear();
+  const m = normalized.getMonth();
+
+  if (weekOfMonth === -1) {
+    const last = daysInMonth(y, m);
+    const lastWeekday = new Date(y, m, last).getDay();
+    return onDay(base, y, m, last - ((lastWeekday - weekday + 7) % 7));
+  }
+  const firstWeekday = new Date(y, m, 1).getDay();
+  const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+  return onDay(base, y, m, firstMatch + (weekOfMonth - 1) * 7);
+};
+
+// Scheduled date of the n-th occurrence, before any business-day shift
+const nominalOccurrenceDate = (anchor: Date, rule: RecurrenceRule, index: number): Date => {
+  const interval = Math.max(1, rule.interval);
+  const year = anchor.getFullYear();
+  const month = anchor.getMonth() + index * interval;
+
+  switch (rule.kind) {
+    case RecurrenceKind.WEEKLY: {
+      const result = new Date(anchor);
+      result.setDate(anchor.getDate() + index * 7 * interval);
+      return result;
+    }
+    case RecurrenceKind.MONTHLY:
+      return onDay(anchor, year, month, anchor.getDate());
+    case RecurrenceKind.LAST_DAY_OF_MONTH:
+      return onDay(anchor, year, month, 31);
+    case RecurrenceKind.NTH_WEEKDAY:
+      return nthWeekdayOfMonth(anchor, year, month, rule.weekOfMonth ?? 1, rule.weekday ?? anchor.getDay());
+  }
+};
+
+export const applyBusinessDayShift = (date: Date, rule: RecurrenceRule): Date => {
+  return rule.shiftToBusinessDay ? nextBusinessDay(date) : date;
+};
+
+// Date of the n-th occurrence counted from the series anchor
+export const occurrenceDate = (series: Pick<BillSeries, 'anchorDate' | 'recurrence'>, index: number): Date => {
+  const rule = series.recurrence;
+  return applyBusinessDayShift(nominalOccurrenceDate(new Date(series.anchorDate), rule, index), rule);
+};
+
+// --- Series ---
+
+// `end` limits a new plan; without it an installment plan carries on from the bill's own numbering
+export const seriesFromBill = (bill: Bill, seriesId: string, end?: SeriesEnd): BillSeries => {
+  const recurrence = getRecurrenceRule(bill);
+  const installmentCount = end ? end.installmentCount : bill.installmentCount;
+  return {
+    id: seriesId,
+    name: bill.name,
+    amount: bill.amount,
+    currency: bill.currency,
+    category: bill.category,
+    frequency: toLegacyFrequency(recurrence),
+    recurrence,
+    anchorDate: bill.dueDate,
+    isActive: true,
+    endDate: end?.endDate,
+    installmentCount,
+    firstInstallment: installmentCount ? bill.installment ?? 1 : undefined,
+    householdId: bill.householdId,
+    isIncome: bill.isIncome
+  };
+};
+
+// Rules stored before recurrence rules existed only have `frequency`, older ones also a Polish category label
+export const normalizeSeries = (series: BillSeries): BillSeries => ({
+  ...series,
+  category: normalizeCategory(series.category),
+  recurrence: getRecurrenceRule(series)
+});
+
+// Installment number of the n-th occurrence, undefined for open-ended series
+export const installmentAt = (series: BillSeries, index: number): number | undefined => {
+  return series.installmentCount ? (series.firstInstallment ?? 1) + index : undefined;
+};
+
+const isWithinSeries = (series: BillSeries, index: number, date: Date): boolean => {
+  if (series.endDate && date.getTime() > new Date(series.endDate).getTime()) return false;
+  const installment = installmentAt(series, index);
+  return installment === undefined || installment <= (series.installmentCount as number);
+};
+
+export const isFiniteSeries = (series: BillSeries): boolean => !!(series.endDate || series.installmentCount);
+
+const buildOccurrence = (series: BillSeries, date: Date, index: number): Bill => ({
+  id: createTempId(),
+  name: series.name,
+  amount: series.amount,
+  currency: series.currency,
+  category: series.category,
+  dueDate: date.toISOString(),
+  occurrenceDate: date.toISOString(),
+  isPaid: false, // Future bills default to unpaid
+  isRecurring: true,
+  frequency: series.frequency,
+  recurrence: series.recurrence,
+  seriesId: series.id,
+  installment: installmentAt(series, index),
+  installmentCount: series.installmentCount,
+  householdId: series.householdId,
+  isIncome: series.isIncome
+});
+
+// New occurrences (with temporary ids) that keep the series materialized until `horizon`
+// or the end of the series, whichever comes first.
+// Only occurrences after the latest existing bill and after `materializedUntil` are filled, so a bill
+// the user deleted doesn't come back, not even the latest one. Every existing bill claims the scheduled occurrence closest to it, so a bill
+// moved by hand or shifted to a business day is never generated a second time.
+export const extendSeries = (series: BillSeries, bills: Bill[], horizon: Date): Bill[] => {
+  if (!series.isActive) return [];
+
+  const schedule: Date[] = [];
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const date = occurrenceDate(series, i);
+    if (date.getTime() > horizon.getTime() || !isWithinSeries(series, i, date)) break;
+    schedule.push(date);
+  }
+  if (schedule.length === 0) return [];
+
+  const occurrences = bills.filter(b => b.seriesId === series.id).map(b => new Date(b.dueDate).getTime());
+  const latest = Math.max(series.materializedUntil ? new Date(series.materializedUntil).getTime() : -Infinity, ...occurrences);
+  const taken = new Set(occurrences.map(time => {
+    let closest = 0;
+    schedule.forEach((date, i) => {
+      if (Math.abs(date.getTime() - time) < Math.abs(schedule[closest].getTime() - time)) closest = i;
+    });
+    return closest;
+  }));
+
+  return schedule
+    .map((date, index) => ({ date, index }))
+    .filter(({ date, index }) => date.getTime() > latest && !taken.has(index))
+    // A bill two weeks off its slot is not a stand-in for it (relevant for weekly rules)
+    .filter(({ date }) => !occurrences.some(time => Math.abs(date.getTime() - time) < DAY_MS))
+    .map(({ date, index }) => buildOccurrence(series, date, index));
+};
+
+// Moves `materializedUntil` up to the latest of the given occurrences; save the result together with them
+export const markMaterialized = (series: BillSeries, occurrences: Bill[]): BillSeries => {
+  const latest = Math.max(
+    series.materializedUntil ? new Date(series.materializedUntil).getTime() : -Infinity,
+    ...occurrences.map(b => new Date(b.dueDate).getTime())
+  );
+  return isFinite(latest) ? { ...series, materializedUntil: new Date(latest).toISOString() } : series;
+};
+
+// Before rules were stored, stopping a series unlinked the edited bill and deleted the later ones, while the
+// earlier bills kept their seriesId. Such a series is stopped when its next occurrence is already past,
+// or when that occurrence is taken by a bill of the same name that is no longer linked or recurring.
+const wasStopped = (series: BillSeries, bills: Bill[], now: Date): boolean => {
+  const next = occurrenceDate(series, 1).getTime();
+  if (next < new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) return true;
+  const latest = new Date(series.anchorDate).getTime();
+  return bills.some(b => !b.seriesId && !b.isRecurring && b.name === series.name
+    && new Date(b.dueDate).getTime() > latest && new Date(b.dueDate).getTime() <= next + DAY_MS);
+};
+
+// Series created before rules were stored only exist as bills. Rebuild their rule from the latest occurrence,
+// unless the series was stopped back then.
+export const deriveMissingRules = (bills: Bill[], rules: BillSeries[], now: Date = new Date()): BillSeries[] => {
+  const known = new Set(rules.map(r => r.id));
+  const latestBySeries = new Map<string, Bill>();
+
+  bills.forEach(b => {
+    if (!b.seriesId || known.has(b.seriesId)) return;
+    const current = latestBySeries.get(b.seriesId);
+    if (!current || new Date(b.dueDate).getTime() > new Date(current.dueDate).getTime()) {
+      latestBySeries.set(b.seriesId, b);
+    }
+  });
+
+  return Array.from(latestBySeries.entries())
+    .filter(([, latest]) => latest.isRecurring)
+    .map(([seriesId, latest]) => seriesFromBill(latest, seriesId))
+    .filter(series => !wasStopped(series, bills, now));
+};
+
+// Everything needed to bring all active series up to the horizon, ready for the outbox
+export const planSeriesExtension = (bills: Bill[], rules: BillSeries[], horizon: Date, now: Date = new Date()): Mutation[] => {
+  const derived = deriveMissingRules(bills, rules, now);
+  const mutations: Mutation[] = [];
+  const newBills: Bill[] = [];
+
+  [...rules, ...derived].forEach(series => {
+    const occurrences = extendSeries(series, bills, horizon);
+    newBills.push(...occurrences);
+    if (occurrences.length > 0 || derived.includes(series)) {
+      mutations.push({ kind: 'saveSeries', series: markMaterialized(series, occurrences) });
+    }
+  });
+  if (newBills.length > 0) mutations.push({ kind: 'insert', bills: newBills });
+  return mutations;
+};
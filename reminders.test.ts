@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Bill } from './types';
+import { DEFAULT_REMINDER_SETTINGS, REMINDER_HOUR, ReminderSettings, planReminders } from './reminders';
+import { makeBill } from './testFixtures';
+
+// 8:00 local time, before the reminder hour, so today's reminders still count
+const now = new Date(2026, 9, 19, 8, 0);
+
+const settings: ReminderSettings = { ...DEFAULT_REMINDER_SETTINGS, enabled: true };
+const withoutSummary: ReminderSettings = { ...settings, overdueSummary: false };
+
+const bill = (id: string, dueInDays: number, overrides: Partial<Bill> = {}): Bill =>
+  makeBill(id, { dueDate: new Date(2026, 9, 19 + dueInDays).toISOString(), ...overrides });
+
+describe('planReminders', () => {
+  it('plans nothing while reminders are off', () => {
+    expect(planReminders([bill('a', 5)], DEFAULT_REMINDER_SETTINGS, now)).toEqual([]);
+  });
+
+  it('reminds ahead and on the due date at the reminder hour', () => {
+    const reminders = planReminders([bill('a', 5)], withoutSummary, now);
+    expect(reminders.map(r => [r.kind, r.at, r.billId])).toEqual([
+      ['before', new Date(2026, 9, 22, REMINDER_HOUR), 'a'],
+      ['due', new Date(2026, 9, 24, REMINDER_HOUR), 'a']
+    ]);
+  });
+
+  it('skips paid bills and income', () => {
+    const bills = [bill('paid', 5, { isPaid: true }), bill('salary', 5, { isIncome: true })];
+    expect(planReminders(bills, settings, now)).toEqual([]);
+  });
+
+  it('drops reminders that are already in the past', () => {
+    const reminders = planReminders([bill('a', 1)], withoutSummary, now);
+    expect(reminders.map(r => r.kind)).toEqual(['due']);
+  });
+
+  it('lists overdue bills in a daily summary', () => {
+    const reminders = planReminders([bill('late', -3), bill('later', -1), bill('paid', -2, { isPaid: true })], settings, now);
+    expect(reminders).toHaveLength(7);
+    expect(reminders.every(r => r.kind === 'overdue' && r.billId === undefined)).toBe(true);
+    expect(reminders[0].at).toEqual(new Date(2026, 9, 19, REMINDER_HOUR));
+    expect(reminders[0].body).toContain('Bill late, Bill later');
+    expect(reminders[0].body).not.toContain('Bill paid');
+  });
+
+  it('counts bills that become overdue later in the week', () => {
+    const reminders = planReminders([bill('a', 5)], settings, now).filter(r => r.kind === 'overdue');
+    expect(reminders.map(r => r.at)).toEqual([new Date(2026, 9, 25, REMINDER_HOUR)]);
+  });
+
+  it('plans no summary when it is turned off', () => {
+    expect(planReminders([bill('late', -3)], withoutSummary, now)).toEqual([]);
+  });
+
+  it('keeps the soonest reminders within the 64 pending notifications iOS allows', () => {
+    const bills = Array.from({ length: 40 }, (_, i) => bill(`b${i}`, i + 3));
+    const reminders = planReminders([...bills, bill('late', -1)], settings, now);
+
+    expect(reminders).toHaveLength(64);
+    expect(reminders.filter(r => r.kind === 'overdue')).toHaveLength(7);
+    // 80 bill reminders compete for the 57 remaining slots, the furthest ones are dropped
+    const latest = Math.max(...reminders.filter(r => r.billId).map(r => r.at.getTime()));
+    expect(reminders.some(r => r.billId === 'b39')).toBe(false);
+    expect(latest).toBeLessThan(new Date(2026, 9, 19 + 39, REMINDER_HOUR).getTime());
+    expect(reminders.map(r => r.id)).toEqual(Array.from({ length: 64 }, (_, i) => i + 1));
+  });
+});
@@ -0,0 +1,109 @@
+import { Bill } from './types';
+import { getRemainingAmount } from './payments';
+import { formatCurrency } from './utils';
+import { formatMixedAmounts, getBillCurrency } from './currency';
+import { getOutgoings } from './income';
+import { t } from './i18n';
+
+// Plans due-date reminders from unpaid bills. Pure, so it can run anywhere; notifications.ts
+// hands the result to the device.
+
+export interface ReminderSettings {
+  enabled: boolean;
+  daysBefore: number | null; // null = no advance reminder
+  onDueDate: boolean;
+  overdueSummary: boolean; // Daily list of bills past their due date
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  daysBefore: 2,
+  onDueDate: true,
+  overdueSummary: true
+};
+
+export type ReminderKind = 'before' | 'due' | 'overdue';
+
+export interface PlannedReminder {
+  id: number;
+  kind: ReminderKind;
+  at: Date;
+  title: string;
+  body: string;
+  billId?: string;
+}
+
+export const REMINDER_HOUR = 9; // Reminders fire at 9:00 local time
+const SUMMARY_DAYS = 7; // Summaries are planned a week ahead, the app reschedules them whenever it runs
+const MAX_PENDING = 64; // iOS keeps at most 64 pending local notifications per app
+
+const dayStart = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const atReminderHour = (day: Date, offsetDays: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate() + offsetDays, REMINDER_HOUR);
+
+
+const billReminders = (bill: Bill, settings: ReminderSettings, now: Date) => {
+  const due = dayStart(new Date(bill.dueDate));
+  const amount = formatCurrency(getRemainingAmount(bill), getBillCurrency(bill));
+  const reminders: Omit<PlannedReminder, 'id'>[] = [];
+
+  if (settings.daysBefore !== null && settings.daysBefore > 0) {
+    reminders.push({
+      kind: 'before',
+      at: atReminderHour(due, -settings.daysBefore),
+      title: settings.daysBefore === 1 ? t('reminder.tomorrow', { name: bill.name }) : t('reminder.inDays', { name: bill.name, n: settings.daysBefore }),
+      body: t('reminder.body', { amount }),
+      billId: bill.id
+    });
+  }
+  if (settings.onDueDate) {
+    reminders.push({
+      kind: 'due',
+      at: atReminderHour(due, 0),
+      title: t('reminder.today', { name: bill.name }),
+      body: t('reminder.body', { amount }),
+      billId: bill.id
+    });
+  }
+  return reminders.filter(r => r.at > now);
+};
+
+// One summary per day listing what will be overdue by then, assuming nothing gets paid meanwhile
+const overdueSummaries = (unpaid: Bill[], now: Date) => {
+  const today = dayStart(now);
+  const summaries: Omit<PlannedReminder, 'id'>[] = [];
+
+  for (let i = 0; i < SUMMARY_DAYS; i++) {
+    const at = atReminderHour(today, i);
+    if (at <= now) continue;
+    const overdue = unpaid.filter(b => dayStart(new Date(b.dueDate)) < dayStart(at));
+    if (overdue.length === 0) continue;
+
+    const total = formatMixedAmounts(overdue.map(b => ({ amount: getRemainingAmount(b), currency: getBillCurrency(b) })), formatCurrency);
+    summaries.push({
+      kind: 'overdue',
+      at,
+      title: t('reminder.overdueTitle', { n: overdue.length }),
+      body: t('reminder.overdueBody', { names: overdue.map(b => b.name).join(', '), total })
+    });
+  }
+  return summaries;
+};
+
+// Ids only have to be unique within one plan: every sync replaces all pending reminders
+export const planReminders = (bills: Bill[], settings: ReminderSettings, now: Date = new Date()): PlannedReminder[] => {
+  if (!settings.enabled) return [];
+  const unpaid = getOutgoings(bills).filter(b => !b.isPaid);
+
+  const summaries = settings.overdueSummary ? overdueSummaries(unpaid, now) : [];
+  // The soonest reminders win when there are more than the device keeps
+  const perBill = unpaid
+    .flatMap(b => billReminders(b, settings, now))
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .slice(0, MAX_PENDING - summaries.length);
+
+  return [...perBill, ...summaries]
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .map((reminder, index) => ({ ...reminder, id: index + 1 }));
+};
@@ -0,0 +1,21 @@
+import { Attachment } from '../types';
+import { StorageBackend } from './billRepository';
+
+// Where attachment files live. Each bill backend has a matching store.
+export interface AttachmentStore {
+  readonly backend: StorageBackend;
+
+  // Stores the file under a new path and returns its metadata, ready to be put on a bill
+  upload(file: Blob, name: string): Promise<Attachment>;
+  // URL to show or open the file. Device stores return object URLs, callers revoke them when done.
+  getUrl(attachment: Attachment): Promise<string>;
+  read(attachment: Attachment): Promise<Blob>;
+  // Paths that don't exist are skipped
+  remove(paths: string[]): Promise<void>;
+}
+
+// Cleanup after the bills are gone. A failure only leaves unreferenced files behind, so it's logged, not thrown.
+export const discardAttachments = (store: AttachmentStore | undefined, paths: string[]) => {
+  if (!store || paths.length === 0) return;
+  store.remove(paths).catch(e => console.error("Attachment cleanup failed", e));
+};
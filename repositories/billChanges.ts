@@ -0,0 +1,40 @@
+import { Bill } from '../types';
+
+export interface BillChange {
+  type: 'insert' | 'update' | 'delete';
+  id: string;
+  bill?: Bill; // Missing for deletes
+  origin?: string; // Device that made the change, used to skip echoes of our own writes
+}
+
+export type BillChangeListener = (change: BillChange) => void;
+
+export type SubscriptionStatus = 'subscribed' | 'error';
+
+const DEVICE_ID_KEY = 'liquid_bills_device_id';
+
+// Stable per-install id stamped on every write
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const isEcho = (change: BillChange): boolean => change.origin === getDeviceId();
+
+// Minimal event emitter standing in for the realtime channel in local and in-memory storage
+export const createBillChangeEmitter = () => {
+  const listeners = new Set<BillChangeListener>();
+  return {
+    subscribe(listener: BillChangeListener): () => void {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    emit(change: BillChange) {
+      listeners.forEach(listener => listener(change));
+    }
+  };
+};
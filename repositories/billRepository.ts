@@ -0,0 +1,88 @@
+import { Bill, BillSeries, Category } from '../types';
+import { BillChangeListener, SubscriptionStatus } from './billChanges';
+
+// Optional fields are cleared with null: changes pass through the JSON outbox, which drops undefined keys
+export type BillChanges = {
+  [K in keyof Omit<Bill, 'id'>]?: undefined extends Bill[K] ? Bill[K] | null : Bill[K];
+};
+
+// Identifies the bills of a series. Older bills without a seriesId are matched by name and amount.
+export type SeriesMatch =
+  | { seriesId: string }
+  | { name: string; amount: number };
+
+// Bulk action on several bills, stored as one unit: either every change lands or none does
+export interface BillBatch {
+  updates: { billId: string; changes: BillChanges }[];
+  deleteIds: string[];
+}
+
+export type StorageBackend = 'supabase' | 'local' | 'memory';
+
+export interface BillRepository {
+  readonly backend: StorageBackend;
+  // Whether calls go over the network (and may fail while offline)
+  readonly isRemote: boolean;
+
+  list(): Promise<Bill[]>;
+  // Ids of the passed bills are ignored. Returns the stored bills, in the same order, with their final ids.
+  // A generated occurrence whose series already has a bill for that slot isn't stored twice, that bill is returned instead.
+  insert(bills: Bill[]): Promise<Bill[]>;
+  update(id: string, changes: BillChanges): Promise<void>;
+  delete(id: string): Promise<void>;
+  // One round trip for the whole batch. Fails without changing anything when an updated bill is missing.
+  applyBatch(batch: BillBatch): Promise<void>;
+
+  // --- Series operations ---
+  listSeries(match: SeriesMatch): Promise<Bill[]>;
+  // Removes every bill of the series due strictly after the given ISO date
+  deleteSeriesAfter(match: SeriesMatch, after: string): Promise<void>;
+
+  // --- Series rules ---
+  listSeriesRules(): Promise<BillSeries[]>;
+  // Inserts the rule or replaces the one with the same id
+  saveSeriesRule(series: BillSeries): Promise<void>;
+  deleteSeriesRule(id: string): Promise<void>;
+
+  // --- Categories ---
+  listCategories(): Promise<Category[]>;
+  // Inserts the category or replaces the one with the same id
+  saveCategory(category: Category): Promise<void>;
+  // Bills keep their category id, callers move them to another category first
+  deleteCategory(id: string): Promise<void>;
+
+  // --- Live updates ---
+  // Reports inserts, updates and deletes in the current scope. Returns an unsubscribe function.
+  subscribe(listener: BillChangeListener, onStatus?: (status: SubscriptionStatus) => void): () => void;
+}
+
+export const matchesSeries = (bill: Bill, match: SeriesMatch): boolean => {
+  if ('seriesId' in match) return bill.seriesId === match.seriesId;
+  return bill.name === match.name && bill.amount === match.amount;
+};
+
+export const isDueAfter = (bill: Bill, after: string): boolean => {
+  return new Date(bill.dueDate).getTime() > new Date(after).getTime();
+};
+
+// Cleared fields are removed from the bill rather than kept as null
+export const applyBillChanges = (bill: Bill, changes: BillChanges): Bill => {
+  const updated: Record<string, unknown> = { ...bill, ...changes };
+  Object.keys(changes).forEach(key => {
+    if (updated[key] === null || updated[key] === undefined) delete updated[key];
+  });
+  return updated as unknown as Bill;
+};
+
+// Turns every undefined value into an explicit clear, so it survives serialization
+export const toClearingChanges = (changes: BillChanges): BillChanges => {
+  const cleared: Record<string, unknown> = { ...changes };
+  Object.keys(cleared).forEach(key => {
+    if (cleared[key] === undefined) cleared[key] = null;
+  });
+  return cleared as BillChanges;
+};
+
+export const sortByDueDate = (bills: Bill[]): Bill[] => {
+  return [...bills].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+};
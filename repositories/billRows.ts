@@ -0,0 +1,167 @@
+import { Attachment, Bill, BillSeries, BudgetPeriod, Category, Payment, RecurrenceKind, RecurrenceRule } from '../types';
+import { BillChanges } from './billRepository';
+import { normalizeCategory } from '../categories';
+
+// Shape of a row in the Supabase `bills` table
+export interface BillRow {
+  id: string;
+  name: string;
+  amount: number;
+  currency?: string | null;
+  due_date: string;
+  is_paid: boolean;
+  is_recurring: boolean;
+  frequency: number | null;
+  recurrence?: RecurrenceRule | null;
+  category: string;
+  series_id: string | null;
+  occurrence_date?: string | null;
+  installment?: number | null;
+  installment_count?: number | null;
+  household_id?: string | null;
+  paid_by?: string | null;
+  payments?: Payment[] | null;
+  is_income?: boolean | null;
+  attachments?: Attachment[] | null;
+  origin_device?: string | null; // Device that wrote the row last, lets realtime skip our own echoes
+  owner_id?: string; // Set by the Supabase repository, not part of the Bill type
+}
+
+// The only place where snake_case columns are translated to the Bill type and back
+export const billFromRow = (row: BillRow): Bill => ({
+  id: row.id,
+  name: row.name,
+  amount: row.amount,
+  currency: row.currency ?? undefined,
+  dueDate: row.due_date,
+  isPaid: row.is_paid,
+  isRecurring: row.is_recurring,
+  frequency: row.frequency ?? undefined,
+  recurrence: row.recurrence ?? undefined,
+  category: normalizeCategory(row.category),
+  seriesId: row.series_id ?? undefined,
+  occurrenceDate: row.occurrence_date ?? undefined,
+  installment: row.installment ?? undefined,
+  installmentCount: row.installment_count ?? undefined,
+  householdId: row.household_id ?? undefined,
+  paidBy: row.paid_by ?? undefined,
+  payments: row.payments ?? undefined,
+  isIncome: row.is_income || undefined,
+  attachments: row.attachments ?? undefined
+});
+
+// Only the fields present in `changes` end up in the row, so this works for inserts and partial updates
+export const billToRow = (changes: BillChanges): Partial<BillRow> => {
+  const row: Partial<BillRow> = {};
+  if ('name' in changes) row.name = changes.name;
+  if ('amount' in changes) row.amount = changes.amount;
+  if ('currency' in changes) row.currency = changes.currency || null;
+  if ('dueDate' in changes) row.due_date = changes.dueDate;
+  if ('isPaid' in changes) row.is_paid = changes.isPaid;
+  if ('isRecurring' in changes) row.is_recurring = changes.isRecurring;
+  if ('frequency' in changes) row.frequency = changes.frequency ?? null;
+  if ('recurrence' in changes) row.recurrence = changes.recurrence ?? null;
+  if ('category' in changes) row.category = changes.category;
+  if ('seriesId' in changes) row.series_id = changes.seriesId || null;
+  if ('occurrenceDate' in changes) row.occurrence_date = changes.occurrenceDate || null;
+  if ('installment' in changes) row.installment = changes.installment ?? null;
+  if ('installmentCount' in changes) row.installment_count = changes.installmentCount ?? null;
+  if ('householdId' in changes) row.household_id = changes.householdId || null;
+  if ('paidBy' in changes) row.paid_by = changes.paidBy || null;
+  if ('payments' in changes) row.payments = changes.payments ?? null;
+  if ('isIncome' in changes) row.is_income = !!changes.isIncome;
+  if ('attachments' in changes) row.attachments = changes.attachments?.length ? changes.attachments : null;
+  return row;
+};
+
+// Shape of a row in the Supabase `bill_series` table
+export interface BillSeriesRow {
+  id: string;
+  name: string;
+  amount: number;
+  currency?: string | null;
+  category: string;
+  frequency: number | null;
+  recurrence: RecurrenceRule | null;
+  anchor_date: string;
+  is_active: boolean;
+  end_date?: string | null;
+  installment_count?: number | null;
+  first_installment?: number | null;
+  household_id?: string | null;
+  is_income?: boolean | null;
+  materialized_until?: string | null;
+  owner_id?: string;
+}
+
+export const seriesFromRow = (row: BillSeriesRow): BillSeries => ({
+  id: row.id,
+  name: row.name,
+  amount: row.amount,
+  currency: row.currency ?? undefined,
+  category: normalizeCategory(row.category),
+  frequency: row.frequency ?? undefined,
+  // Rows written before recurrence rules only have a month interval
+  recurrence: row.recurrence ?? { kind: RecurrenceKind.MONTHLY, interval: row.frequency ?? 1 },
+  anchorDate: row.anchor_date,
+  isActive: row.is_active,
+  endDate: row.end_date ?? undefined,
+  installmentCount: row.installment_count ?? undefined,
+  firstInstallment: row.first_installment ?? undefined,
+  householdId: row.household_id ?? undefined,
+  isIncome: row.is_income || undefined,
+  materializedUntil: row.materialized_until ?? undefined
+});
+
+export const seriesToRow = (series: BillSeries): BillSeriesRow => ({
+  id: series.id,
+  name: series.name,
+  amount: series.amount,
+  currency: series.currency || null,
+  category: series.category,
+  frequency: series.frequency ?? null,
+  recurrence: series.recurrence,
+  anchor_date: series.anchorDate,
+  is_active: series.isActive,
+  end_date: series.endDate || null,
+  installment_count: series.installmentCount ?? null,
+  first_installment: series.firstInstallment ?? null,
+  household_id: series.householdId || null,
+  is_income: !!series.isIncome,
+  materialized_until: series.materializedUntil || null
+});
+
+// Shape of a row in the Supabase `bill_categories` table
+export interface CategoryRow {
+  id: string;
+  name: string | null;
+  icon: string;
+  color: string;
+  budget_amount?: number | null;
+  budget_currency?: string | null;
+  budget_period?: BudgetPeriod | null;
+  household_id?: string | null;
+  owner_id?: string;
+}
+
+export const categoryFromRow = (row: CategoryRow): Category => ({
+  id: row.id,
+  name: row.name ?? undefined,
+  icon: row.icon,
+  color: row.color,
+  budget: row.budget_amount != null && row.budget_currency && row.budget_period
+    ? { amount: row.budget_amount, currency: row.budget_currency, period: row.budget_period }
+    : undefined,
+  householdId: row.household_id ?? undefined
+});
+
+export const categoryToRow = (category: Category): CategoryRow => ({
+  id: category.id,
+  name: category.name || null,
+  icon: category.icon,
+  color: category.color,
+  budget_amount: category.budget?.amount ?? null,
+  budget_currency: category.budget?.currency ?? null,
+  budget_period: category.budget?.period ?? null,
+  household_id: category.householdId || null
+});
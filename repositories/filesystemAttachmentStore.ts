@@ -0,0 +1,42 @@
+import { Directory, Filesystem } from '@capacitor/filesystem';
+import { AttachmentStore } from './attachmentStore';
+import { base64ToBlob, blobToBase64, createAttachment, createAttachmentFileName } from '../attachments';
+
+// Device-only attachments: app data files on iOS, IndexedDB in the browser (through the Filesystem plugin)
+export const LOCAL_ATTACHMENTS_DIR = 'liquid_bills_attachments';
+
+export const createFilesystemAttachmentStore = (directory = LOCAL_ATTACHMENTS_DIR): AttachmentStore => {
+  const read: AttachmentStore['read'] = async attachment => {
+    const { data } = await Filesystem.readFile({ path: `${directory}/${attachment.path}`, directory: Directory.Data });
+    // Native platforms always return base64
+    return typeof data === 'string' ? base64ToBlob(data, attachment.mimeType) : data;
+  };
+
+  return {
+    backend: 'local',
+
+    async upload(file, name) {
+      const path = createAttachmentFileName(name);
+      await Filesystem.writeFile({
+        path: `${directory}/${path}`,
+        data: await blobToBase64(file),
+        directory: Directory.Data,
+        recursive: true
+      });
+      return createAttachment(file, name, path);
+    },
+
+    // File URIs aren't readable from the web view everywhere, an object URL works on every platform
+    async getUrl(attachment) {
+      return URL.createObjectURL(await read(attachment));
+    },
+
+    read,
+
+    async remove(paths) {
+      await Promise.all(paths.map(path =>
+        Filesystem.deleteFile({ path: `${directory}/${path}`, directory: Directory.Data }).catch(() => undefined)
+      ));
+    }
+  };
+};
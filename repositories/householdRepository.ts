@@ -0,0 +1,24 @@
+import { Household, HouseholdInvitation, HouseholdMember, HouseholdRole } from '../types';
+
+export interface HouseholdRepository {
+  // Households the signed-in user belongs to, with their role in each
+  listHouseholds(): Promise<Household[]>;
+  createHousehold(name: string): Promise<Household>;
+  leaveHousehold(householdId: string): Promise<void>;
+
+  listMembers(householdId: string): Promise<HouseholdMember[]>;
+  updateMemberRole(householdId: string, userId: string, role: HouseholdRole): Promise<void>;
+  removeMember(householdId: string, userId: string): Promise<void>;
+
+  invite(householdId: string, email: string, role: HouseholdRole): Promise<void>;
+  // Open invitations addressed to the signed-in user's e-mail
+  listPendingInvitations(): Promise<HouseholdInvitation[]>;
+  acceptInvitation(invitationId: string): Promise<void>;
+}
+
+// Viewers get a read-only list, personal bills are always editable.
+// A selected household that isn't loaded yet has an unknown role, so it's read-only until then.
+export const canEditBills = (householdId: string | null, household: Household | null): boolean => {
+  if (!householdId) return true;
+  return !!household && household.role !== HouseholdRole.VIEWER;
+};
@@ -0,0 +1,33 @@
+import { AttachmentStore } from './attachmentStore';
+import { createAttachment, createAttachmentFileName } from '../attachments';
+
+// Volatile attachments for the in-memory bill repository
+export const createInMemoryAttachmentStore = (): AttachmentStore => {
+  const files = new Map<string, Blob>();
+
+  const read: AttachmentStore['read'] = async attachment => {
+    const file = files.get(attachment.path);
+    if (!file) throw new Error(`Attachment ${attachment.path} not found`);
+    return file;
+  };
+
+  return {
+    backend: 'memory',
+
+    async upload(file, name) {
+      const path = createAttachmentFileName(name);
+      files.set(path, file);
+      return createAttachment(file, name, path);
+    },
+
+    async getUrl(attachment) {
+      return URL.createObjectURL(await read(attachment));
+    },
+
+    read,
+
+    async remove(paths) {
+      paths.forEach(path => files.delete(path));
+    }
+  };
+};
@@ -0,0 +1,154 @@
+import { Bill, BillSeries, Category } from '../types';
+import { BillRepository, StorageBackend, applyBillChanges, isDueAfter, matchesSeries, sortByDueDate } from './billRepository';
+import { createBillChangeEmitter, getDeviceId } from './billChanges';
+import { AttachmentStore, discardAttachments } from './attachmentStore';
+import { getAttachmentPaths } from '../attachments';
+
+// Where a device-only repository keeps its data
+export interface DeviceStore {
+  loadBills(): Bill[];
+  saveBills(bills: Bill[]): void;
+  loadSeries(): BillSeries[];
+  saveSeries(series: BillSeries[]): void;
+  loadCategories(): Category[];
+  saveCategories(categories: Category[]): void;
+}
+
+// Shared implementation for repositories that keep the whole bill list on the device.
+// Every write is reported to subscribers, just like the realtime channel does for Supabase.
+// Files attached to deleted bills are removed from `attachments`.
+export const createArrayBillRepository = (
+  backend: StorageBackend,
+  store: DeviceStore,
+  origin: string = getDeviceId(),
+  attachments?: AttachmentStore
+): BillRepository => {
+  const changes = createBillChangeEmitter();
+  const { loadBills: load, saveBills: save } = store;
+
+  const removeWhere = (predicate: (bill: Bill) => boolean) => {
+    const current = load();
+    save(current.filter(b => !predicate(b)));
+    const removed = current.filter(predicate);
+    removed.forEach(b => changes.emit({ type: 'delete', id: b.id, origin }));
+    discardAttachments(attachments, getAttachmentPaths(removed));
+  };
+
+  return {
+    backend,
+    isRemote: false,
+
+    async list() {
+      return sortByDueDate(load());
+    },
+
+    async insert(bills) {
+      const current = load();
+      const slot = (bill: Bill) => bill.occurrenceDate ? new Date(bill.occurrenceDate).getTime() : null;
+      const findOccurrence = (bill: Bill) => bill.seriesId && slot(bill) !== null
+        ? current.find(b => b.seriesId === bill.seriesId && slot(b) === slot(bill))
+        : undefined;
+      const stored = bills.map(b => findOccurrence(b) ?? { ...b, id: crypto.randomUUID() });
+      const added = stored.filter(b => !current.includes(b));
+      save([...current, ...added]);
+      added.forEach(b => changes.emit({ type: 'insert', id: b.id, bill: b, origin }));
+      return stored;
+    },
+
+    async update(id, billChanges) {
+      const updated = load().map(b => b.id === id ? applyBillChanges(b, billChanges) : b);
+      save(updated);
+      const bill = updated.find(b => b.id === id);
+      if (bill) changes.emit({ type: 'update', id, bill, origin });
+    },
+
+    async delete(id) {
+      removeWhere(b => b.id === id);
+    },
+
+    async applyBatch({ updates, deleteIds }) {
+      const current = load();
+      const missing = updates.find(u => !current.some(b => b.id === u.billId));
+      if (missing) throw new Error(`Bill ${missing.billId} not found`);
+
+      const updated = updates.reduce(
+        (bills, u) => bills.map(b => b.id === u.billId ? applyBillChanges(b, u.changes) : b),
+        current
+      );
+      const deleted = new Set(deleteIds);
+      save(updated.filter(b => !deleted.has(b.id)));
+
+      updated
+        .filter(b => updates.some(u => u.billId === b.id) && !deleted.has(b.id))
+        .forEach(bill => changes.emit({ type: 'update', id: bill.id, bill, origin }));
+      const removed = current.filter(b => deleted.has(b.id));
+      removed.forEach(b => changes.emit({ type: 'delete', id: b.id, origin }));
+      discardAttachments(attachments, getAttachmentPaths(removed));
+    },
+
+    async listSeries(match) {
+      return sortByDueDate(load().filter(b => matchesSeries(b, match)));
+    },
+
+    async deleteSeriesAfter(match, after) {
+      removeWhere(b => matchesSeries(b, match) && isDueAfter(b, after));
+    },
+
+    async listSeriesRules() {
+      return store.loadSeries();
+    },
+
+    async saveSeriesRule(series) {
+      store.saveSeries([...store.loadSeries().filter(s => s.id !== series.id), series]);
+    },
+
+    async deleteSeriesRule(id) {
+      store.saveSeries(store.loadSeries().filter(s => s.id !== id));
+    },
+
+    async listCategories() {
+      return store.loadCategories();
+    },
+
+    async saveCategory(category) {
+      const current = store.loadCategories();
+      // Edited categories keep their place
+      store.saveCategories(current.some(c => c.id === category.id)
+        ? current.map(c => c.id === category.id ? category : c)
+        : [...current, category]);
+    },
+
+    async deleteCategory(id) {
+      store.saveCategories(store.loadCategories().filter(c => c.id !== id));
+    },
+
+    subscribe(listener, onStatus) {
+      const unsubscribe = changes.subscribe(listener);
+      onStatus?.('subscribed');
+      return unsubscribe;
+    }
+  };
+};
+
+interface InMemoryOptions {
+  bills?: Bill[];
+  series?: BillSeries[];
+  categories?: Category[];
+  origin?: string; // Pass a different origin to act as another device
+  attachments?: AttachmentStore;
+}
+
+// Volatile storage, mainly for tests and previews
+export const createInMemoryBillRepository = (options: InMemoryOptions = {}): BillRepository => {
+  let bills = [...(options.bills || [])];
+  let series = [...(options.series || [])];
+  let categories = [...(options.categories || [])];
+  return createArrayBillRepository('memory', {
+    loadBills: () => bills,
+    saveBills: next => { bills = next; },
+    loadSeries: () => series,
+    saveSeries: next => { series = next; },
+    loadCategories: () => categories,
+    saveCategories: next => { categories = next; }
+  }, options.origin, options.attachments);
+};
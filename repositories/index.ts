@@ -0,0 +1,85 @@
+import { supabase, isSupabaseConfigured } from '../supabaseClient';
+import { BillRepository, StorageBackend } from './billRepository';
+import { createInMemoryBillRepository } from './inMemoryBillRepository';
+import { createLocalStorageBillRepository } from './localStorageBillRepository';
+import { createSupabaseBillRepository } from './supabaseBillRepository';
+import { HouseholdRepository } from './householdRepository';
+import { createSupabaseHouseholdRepository } from './supabaseHouseholdRepository';
+import { AttachmentStore } from './attachmentStore';
+import { createFilesystemAttachmentStore } from './filesystemAttachmentStore';
+import { createInMemoryAttachmentStore } from './inMemoryAttachmentStore';
+import { createSupabaseAttachmentStore } from './supabaseAttachmentStore';
+
+export * from './billRepository';
+export * from './householdRepository';
+export * from './billChanges';
+export * from './attachmentStore';
+export { billFromRow, billToRow } from './billRows';
+export type { BillRow } from './billRows';
+export { createInMemoryBillRepository } from './inMemoryBillRepository';
+export { createLocalStorageBillRepository } from './localStorageBillRepository';
+export { createSupabaseBillRepository } from './supabaseBillRepository';
+export { createSupabaseHouseholdRepository } from './supabaseHouseholdRepository';
+export { createFilesystemAttachmentStore } from './filesystemAttachmentStore';
+export { createInMemoryAttachmentStore } from './inMemoryAttachmentStore';
+export { createSupabaseAttachmentStore } from './supabaseAttachmentStore';
+
+const BACKEND_KEY = 'liquid_bills_storage_backend';
+const ACTIVE_HOUSEHOLD_KEY = 'liquid_bills_active_household';
+
+export const getStorageBackend = (): StorageBackend => {
+  const stored = localStorage.getItem(BACKEND_KEY);
+  if (stored === 'local' || stored === 'memory') return stored;
+  if (stored === 'supabase' && isSupabaseConfigured) return 'supabase';
+  // Without a database configuration the app runs fully on the device
+  return isSupabaseConfigured ? 'supabase' : 'local';
+};
+
+export const setStorageBackend = (backend: StorageBackend) => {
+  localStorage.setItem(BACKEND_KEY, backend);
+};
+
+// Household whose bills are shown. Null means the signed-in user's personal bills.
+export const getActiveHouseholdId = (): string | null => {
+  return localStorage.getItem(ACTIVE_HOUSEHOLD_KEY);
+};
+
+export const setActiveHouseholdId = (householdId: string | null) => {
+  if (householdId) {
+    localStorage.setItem(ACTIVE_HOUSEHOLD_KEY, householdId);
+  } else {
+    localStorage.removeItem(ACTIVE_HOUSEHOLD_KEY);
+  }
+};
+
+export const createAttachmentStore = (backend: StorageBackend): AttachmentStore => {
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseAttachmentStore(supabase, getActiveHouseholdId);
+    case 'local':
+      return createFilesystemAttachmentStore();
+    case 'memory':
+      return createInMemoryAttachmentStore();
+  }
+};
+
+// Deleting bills through the repository also removes their files from `attachments`
+export const createBillRepository = (backend: StorageBackend, attachments?: AttachmentStore): BillRepository => {
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseBillRepository(supabase, getActiveHouseholdId, attachments);
+    case 'local':
+      return createLocalStorageBillRepository(undefined, undefined, undefined, attachments);
+    case 'memory':
+      return createInMemoryBillRepository({ attachments });
+  }
+};
+
+// Stores used by the app, chosen once at startup
+export const attachmentStore = createAttachmentStore(getStorageBackend());
+
+export const billRepository = createBillRepository(attachmentStore.backend, attachmentStore);
+
+// Households need accounts, so they are only available with cloud storage
+export const householdRepository: HouseholdRepository | null =
+  billRepository.backend === 'supabase' ? createSupabaseHouseholdRepository(supabase) : null;
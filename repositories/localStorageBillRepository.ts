@@ -0,0 +1,37 @@
+import { Bill, BillSeries, Category } from '../types';
+import { BillRepository } from './billRepository';
+import { createArrayBillRepository } from './inMemoryBillRepository';
+import { AttachmentStore } from './attachmentStore';
+import { withCategoryKey } from '../categories';
+
+// Device-only storage, lets the app run without any account or database
+export const LOCAL_STORE_KEY = 'liquid_bills_local_store';
+export const LOCAL_SERIES_KEY = 'liquid_bills_local_series';
+export const LOCAL_CATEGORIES_KEY = 'liquid_bills_local_categories';
+
+const loadJson = <T,>(key: string): T[] => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Local store parse error", e);
+    return [];
+  }
+};
+
+export const createLocalStorageBillRepository = (
+  storageKey = LOCAL_STORE_KEY,
+  seriesKey = LOCAL_SERIES_KEY,
+  categoriesKey = LOCAL_CATEGORIES_KEY,
+  attachments?: AttachmentStore
+): BillRepository => {
+  return createArrayBillRepository('local', {
+    loadBills: () => loadJson<Bill>(storageKey).map(withCategoryKey),
+    saveBills: bills => localStorage.setItem(storageKey, JSON.stringify(bills)),
+    loadSeries: () => loadJson<BillSeries>(seriesKey).map(withCategoryKey),
+    saveSeries: series => localStorage.setItem(seriesKey, JSON.stringify(series)),
+    loadCategories: () => loadJson<Category>(categoriesKey),
+    saveCategories: categories => localStorage.setItem(categoriesKey, JSON.stringify(categories))
+  }, undefined, attachments);
+};
@@ -0,0 +1,54 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AttachmentStore } from './attachmentStore';
+import { createAttachment, createAttachmentFileName } from '../attachments';
+
+const BUCKET = 'bill-attachments';
+
+// Signed URLs keep the bucket private; an hour covers an open edit form
+const URL_TTL_SECONDS = 60 * 60;
+
+// Files go to a folder named after the scope of the bills (household id, or the user id for
+// personal bills); storage policies give access to that folder like the bills policies do
+export const createSupabaseAttachmentStore = (
+  client: SupabaseClient,
+  getHouseholdId: () => string | null = () => null
+): AttachmentStore => {
+  const requireOwnerId = async (): Promise<string> => {
+    const { data } = await client.auth.getSession();
+    const ownerId = data.session?.user.id;
+    if (!ownerId) throw new Error("NOT_AUTHENTICATED");
+    return ownerId;
+  };
+
+  const bucket = () => client.storage.from(BUCKET);
+
+  return {
+    backend: 'supabase',
+
+    async upload(file, name) {
+      const ownerId = await requireOwnerId();
+      const path = `${getHouseholdId() || ownerId}/${createAttachmentFileName(name)}`;
+      const { error } = await bucket().upload(path, file, { contentType: file.type || undefined });
+      if (error) throw error;
+      return createAttachment(file, name, path);
+    },
+
+    async getUrl(attachment) {
+      const { data, error } = await bucket().createSignedUrl(attachment.path, URL_TTL_SECONDS);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+
+    async read(attachment) {
+      const { data, error } = await bucket().download(attachment.path);
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) return;
+      const { error } = await bucket().remove(paths);
+      if (error) throw error;
+    }
+  };
+};
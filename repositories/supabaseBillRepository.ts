@@ -0,0 +1,245 @@
+import { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+import { Bill } from '../types';
+import { BillRepository, SeriesMatch } from './billRepository';
+import { BillRow, BillSeriesRow, CategoryRow, billFromRow, billToRow, categoryFromRow, categoryToRow, seriesFromRow, seriesToRow } from './billRows';
+import { BillChange, getDeviceId } from './billChanges';
+import { AttachmentStore, discardAttachments } from './attachmentStore';
+import { getAttachmentPaths } from '../attachments';
+
+const TABLE = 'bills';
+const SERIES_TABLE = 'bill_series';
+const CATEGORY_TABLE = 'bill_categories';
+
+// Generated occurrences are identified by their series and slot, bills the user added have no slot
+const isOccurrence = (bill: Bill) => !!(bill.seriesId && bill.occurrenceDate);
+const occurrenceKey = (bill: Bill) => `${bill.seriesId}|${new Date(bill.occurrenceDate as string).getTime()}`;
+
+interface FilterableQuery<T> {
+  eq(column: string, value: unknown): T;
+  is(column: string, value: null): T;
+}
+
+// Every query is scoped to the active household, or to the signed-in user's personal bills
+// when no household is selected (row level security enforces the same on the server).
+// Deletes return the attachments of the removed rows so their files can be removed from `attachments`.
+export const createSupabaseBillRepository = (
+  client: SupabaseClient,
+  getHouseholdId: () => string | null = () => null,
+  attachments?: AttachmentStore
+): BillRepository => {
+  const requireOwnerId = async (): Promise<string> => {
+    const { data } = await client.auth.getSession();
+    const ownerId = data.session?.user.id;
+    if (!ownerId) throw new Error("NOT_AUTHENTICATED");
+    return ownerId;
+  };
+
+  // Synchronous on purpose: query builders are thenables, returning one from an async function would run it
+  const scoped = <T extends FilterableQuery<T>>(query: T, ownerId: string): T => {
+    const householdId = getHouseholdId();
+    if (householdId) return query.eq('household_id', householdId);
+    return query.eq('owner_id', ownerId).is('household_id', null);
+  };
+
+  const seriesQuery = <T extends FilterableQuery<T>>(query: T, match: SeriesMatch): T => {
+    if ('seriesId' in match) return query.eq('series_id', match.seriesId);
+    return query.eq('name', match.name).eq('amount', match.amount);
+  };
+
+  return {
+    backend: 'supabase',
+    isRemote: true,
+
+    async list() {
+      const ownerId = await requireOwnerId();
+      const query = client.from(TABLE).select('*');
+      const { data, error } = await scoped(query, ownerId)
+        .order('due_date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row: BillRow) => billFromRow(row));
+    },
+
+    async insert(bills) {
+      if (bills.length === 0) return [];
+      const ownerId = await requireOwnerId();
+      const householdId = getHouseholdId();
+      const rows = bills.map(({ id, ...rest }) => ({
+        ...billToRow(rest),
+        owner_id: ownerId,
+        household_id: householdId,
+        origin_device: getDeviceId()
+      }));
+      // Another device may have generated the same occurrence first, the unique index on
+      // (series_id, occurrence_date) turns that into a skipped row instead of a duplicate
+      const { data, error } = await client.from(TABLE)
+        .upsert(rows, { onConflict: 'series_id,occurrence_date', ignoreDuplicates: true })
+        .select();
+      if (error) throw error;
+      const inserted = (data || []).map((row: BillRow) => billFromRow(row));
+
+      const stored = new Map(inserted.filter(isOccurrence).map(b => [occurrenceKey(b), b]));
+      const skipped = bills.filter(b => isOccurrence(b) && !stored.has(occurrenceKey(b)));
+      if (skipped.length > 0) {
+        const seriesIds = [...new Set(skipped.map(b => b.seriesId as string))];
+        const query = client.from(TABLE).select('*');
+        const { data: existing, error: existingError } = await scoped(query, ownerId).in('series_id', seriesIds);
+        if (existingError) throw existingError;
+        (existing || []).map((row: BillRow) => billFromRow(row)).filter(isOccurrence).forEach(b => {
+          if (!stored.has(occurrenceKey(b))) stored.set(occurrenceKey(b), b);
+        });
+      }
+
+      // Same order as the input: bills that aren't generated occurrences come back in insert order
+      const plain = inserted.filter(b => !isOccurrence(b));
+      return bills.map(b => {
+        const bill = isOccurrence(b) ? stored.get(occurrenceKey(b)) : plain.shift();
+        if (!bill) throw new Error(`Bill ${b.name} due ${b.dueDate} was not stored`);
+        return bill;
+      });
+    },
+
+    async update(id, changes) {
+      const ownerId = await requireOwnerId();
+      const row = { ...billToRow(changes), origin_device: getDeviceId() };
+      const { error } = await scoped(client.from(TABLE).update(row), ownerId).eq('id', id);
+      if (error) throw error;
+    },
+
+    async delete(id) {
+      const ownerId = await requireOwnerId();
+      const { data, error } = await scoped(client.from(TABLE).delete(), ownerId).eq('id', id).select('attachments');
+      if (error) throw error;
+      discardAttachments(attachments, getAttachmentPaths(data || []));
+    },
+
+    // A database function runs the batch in one transaction; the bills policies still apply to every row
+    async applyBatch({ updates, deleteIds }) {
+      const ownerId = await requireOwnerId();
+      // The function doesn't return deleted rows, so their attachments are looked up first
+      let deleted: Pick<BillRow, 'attachments'>[] = [];
+      if (deleteIds.length > 0) {
+        const query = client.from(TABLE).select('attachments');
+        const { data, error } = await scoped(query, ownerId).in('id', deleteIds);
+        if (error) throw error;
+        deleted = data || [];
+      }
+      const rows = updates.map(u => ({ id: u.billId, changes: { ...billToRow(u.changes), origin_device: getDeviceId() } }));
+      const { error } = await client.rpc('apply_bill_batch', { updates: rows, delete_ids: deleteIds });
+      if (error) throw error;
+      discardAttachments(attachments, getAttachmentPaths(deleted));
+    },
+
+    async listSeries(match) {
+      const ownerId = await requireOwnerId();
+      const query = client.from(TABLE).select('*');
+      const { data, error } = await seriesQuery(scoped(query, ownerId), match)
+        .order('due_date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map((row: BillRow) => billFromRow(row));
+    },
+
+    async deleteSeriesAfter(match, after) {
+      const ownerId = await requireOwnerId();
+      const { data, error } = await seriesQuery(scoped(client.from(TABLE).delete(), ownerId), match)
+        .gt('due_date', after)
+        .select('attachments');
+      if (error) throw error;
+      discardAttachments(attachments, getAttachmentPaths(data || []));
+    },
+
+    async listSeriesRules() {
+      const ownerId = await requireOwnerId();
+      const query = client.from(SERIES_TABLE).select('*');
+      const { data, error } = await scoped(query, ownerId);
+      if (error) throw error;
+      return (data || []).map((row: BillSeriesRow) => seriesFromRow(row));
+    },
+
+    async saveSeriesRule(series) {
+      const ownerId = await requireOwnerId();
+      const row = { ...seriesToRow(series), owner_id: ownerId, household_id: getHouseholdId() };
+      const { error } = await client.from(SERIES_TABLE).upsert(row);
+      if (error) throw error;
+    },
+
+    async deleteSeriesRule(id) {
+      const ownerId = await requireOwnerId();
+      const { error } = await scoped(client.from(SERIES_TABLE).delete(), ownerId).eq('id', id);
+      if (error) throw error;
+    },
+
+    async listCategories() {
+      const ownerId = await requireOwnerId();
+      const query = client.from(CATEGORY_TABLE).select('*');
+      const { data, error } = await scoped(query, ownerId);
+      if (error) throw error;
+      return (data || []).map((row: CategoryRow) => categoryFromRow(row));
+    },
+
+    async saveCategory(category) {
+      const ownerId = await requireOwnerId();
+      const row = { ...categoryToRow(category), owner_id: ownerId, household_id: getHouseholdId() };
+      // Default category ids repeat in every scope, so they are only unique together with it
+      const { error } = await client.from(CATEGORY_TABLE).upsert(row, { onConflict: 'scope,id' });
+      if (error) throw error;
+    },
+
+    async deleteCategory(id) {
+      const ownerId = await requireOwnerId();
+      const { error } = await scoped(client.from(CATEGORY_TABLE).delete(), ownerId).eq('id', id);
+      if (error) throw error;
+    },
+
+    subscribe(listener, onStatus) {
+      let cancelled = false;
+      let channel: ReturnType<SupabaseClient['channel']> | null = null;
+
+      const toChange = (payload: RealtimePostgresChangesPayload<BillRow>): BillChange | null => {
+        if (payload.eventType === 'DELETE') {
+          // Deleting an unknown id is a no-op, so deletes need neither scope nor echo checks
+          return payload.old.id ? { type: 'delete', id: payload.old.id } : null;
+        }
+        const row = payload.new;
+        // Personal scope filters by owner, which also matches the user's household bills
+        if (!getHouseholdId() && row.household_id) return null;
+        return {
+          type: payload.eventType === 'INSERT' ? 'insert' : 'update',
+          id: row.id,
+          bill: billFromRow(row),
+          origin: row.origin_device ?? undefined
+        };
+      };
+
+      requireOwnerId().then(ownerId => {
+        if (cancelled) return;
+        const householdId = getHouseholdId();
+        const filter = householdId ? `household_id=eq.${householdId}` : `owner_id=eq.${ownerId}`;
+
+        channel = client
+          .channel(`bills:${householdId || ownerId}`)
+          .on<BillRow>('postgres_changes', { event: '*', schema: 'public', table: TABLE, filter }, payload => {
+            const change = toChange(payload);
+            if (change) listener(change);
+          })
+          // Realtime can't filter DELETE events, so they get their own unfiltered listener
+          .on<BillRow>('postgres_changes', { event: 'DELETE', schema: 'public', table: TABLE }, payload => {
+            const change = toChange(payload);
+            if (change) listener(change);
+          })
+          .subscribe(status => {
+            if (cancelled) return;
+            if (status === 'SUBSCRIBED') onStatus?.('subscribed');
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') onStatus?.('error');
+          });
+      }).catch(() => {
+        if (!cancelled) onStatus?.('error');
+      });
+
+      return () => {
+        cancelled = true;
+        if (channel) client.removeChannel(channel);
+      };
+    }
+  };
+};
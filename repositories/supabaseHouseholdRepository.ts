@@ -0,0 +1,112 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { HouseholdRole } from '../types';
+import { HouseholdRepository } from './householdRepository';
+
+export const createSupabaseHouseholdRepository = (client: SupabaseClient): HouseholdRepository => {
+  const requireUser = async () => {
+    const { data } = await client.auth.getSession();
+    const user = data.session?.user;
+    if (!user) throw new Error("NOT_AUTHENTICATED");
+    return user;
+  };
+
+  return {
+    async listHouseholds() {
+      const user = await requireUser();
+      const { data, error } = await client
+        .from('household_members')
+        .select('role, households(id, name)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return (data || [])
+        .map((row: any) => ({
+          id: row.households.id,
+          name: row.households.name,
+          role: row.role as HouseholdRole
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async createHousehold(name) {
+      const { data, error } = await client.rpc('create_household', { household_name: name });
+      if (error) throw error;
+      return { id: data.id, name: data.name, role: HouseholdRole.OWNER };
+    },
+
+    async leaveHousehold(householdId) {
+      const user = await requireUser();
+      const { error } = await client
+        .from('household_members')
+        .delete()
+        .eq('household_id', householdId)
+        .eq('user_id', user.id);
+      if (error) throw error;
+    },
+
+    async listMembers(householdId) {
+      const { data, error } = await client
+        .from('household_members')
+        .select('user_id, email, role')
+        .eq('household_id', householdId)
+        .order('email', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row: any) => ({
+        userId: row.user_id,
+        email: row.email,
+        role: row.role as HouseholdRole
+      }));
+    },
+
+    async updateMemberRole(householdId, userId, role) {
+      const { error } = await client
+        .from('household_members')
+        .update({ role })
+        .eq('household_id', householdId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    async removeMember(householdId, userId) {
+      const { error } = await client
+        .from('household_members')
+        .delete()
+        .eq('household_id', householdId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    async invite(householdId, email, role) {
+      const { error } = await client
+        .from('household_invitations')
+        .insert({ household_id: householdId, email: email.trim().toLowerCase(), role });
+      if (error) throw error;
+    },
+
+    async listPendingInvitations() {
+      const user = await requireUser();
+      const { data, error } = await client
+        .from('household_invitations')
+        .select('id, household_id, email, role, created_at, households(name)')
+        .is('accepted_at', null)
+        .ilike('email', user.email || '')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map((row: any) => ({
+        id: row.id,
+        householdId: row.household_id,
+        householdName: row.households?.name,
+        email: row.email,
+        role: row.role as HouseholdRole,
+        createdAt: row.created_at
+      }));
+    },
+
+    async acceptInvitation(invitationId) {
+      const { error } = await client.rpc('accept_household_invitation', { invitation_id: invitationId });
+      if (error) throw error;
+    }
+  };
+};
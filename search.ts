@@ -0,0 +1,76 @@
+import { Bill } from './types';
+import { ExchangeRateTable, toBaseAmount } from './currency';
+import { toDayString } from './utils';
+import { isIncome } from './income';
+
+export type PaidFilter = 'all' | 'paid' | 'unpaid';
+export type RecurringFilter = 'all' | 'recurring' | 'oneOff';
+
+export interface BillSearchQuery {
+  text: string; // Matched against the name, case and Polish diacritics ignored
+  categories: string[]; // Category ids, empty matches every category
+  paid: PaidFilter;
+  recurring: RecurringFilter;
+  minAmount?: number; // In the base currency, inclusive
+  maxAmount?: number;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, inclusive
+}
+
+export const EMPTY_SEARCH_QUERY: BillSearchQuery = { text: '', categories: [], paid: 'all', recurring: 'all' };
+
+export interface SearchMonthGroup {
+  key: string; // yyyy-mm
+  date: Date; // First day of the month
+  bills: Bill[];
+  total: number; // Bills only, in the base currency
+  income: number;
+}
+
+// "Dentysta Łódź" and "dentysta lodz" should find each other; ł has no decomposition of its own
+const normalizeText = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ł/g, 'l').trim();
+
+export const isEmptyQuery = (query: BillSearchQuery): boolean =>
+  !query.text.trim() && query.categories.length === 0 && query.paid === 'all' && query.recurring === 'all'
+  && query.minAmount === undefined && query.maxAmount === undefined && !query.from && !query.to;
+
+export const matchesQuery = (bill: Bill, query: BillSearchQuery, baseCurrency: string, rates: ExchangeRateTable): boolean => {
+  const words = normalizeText(query.text).split(/\s+/).filter(Boolean);
+  const name = normalizeText(bill.name);
+  if (!words.every(word => name.includes(word))) return false;
+  if (query.categories.length > 0 && !query.categories.includes(bill.category)) return false;
+  if (query.paid !== 'all' && bill.isPaid !== (query.paid === 'paid')) return false;
+  if (query.recurring !== 'all' && bill.isRecurring !== (query.recurring === 'recurring')) return false;
+
+  const day = toDayString(bill.dueDate);
+  if (query.from && day < query.from) return false;
+  if (query.to && day > query.to) return false;
+
+  if (query.minAmount === undefined && query.maxAmount === undefined) return true;
+  const amount = toBaseAmount(bill, bill.amount, baseCurrency, rates);
+  if (query.minAmount !== undefined && amount < query.minAmount) return false;
+  return query.maxAmount === undefined || amount <= query.maxAmount;
+};
+
+// Matching bills by month, the latest month first so "when did I last..." is answered at the top
+export const searchBills = (bills: Bill[], query: BillSearchQuery, baseCurrency: string, rates: ExchangeRateTable): SearchMonthGroup[] => {
+  const groups = new Map<string, SearchMonthGroup>();
+  bills
+    .filter(b => matchesQuery(b, query, baseCurrency, rates))
+    .sort((a, b) => new Date(b.dueDate).getTime() - new Date(a.dueDate).getTime())
+    .forEach(bill => {
+      const key = toDayString(bill.dueDate).slice(0, 7);
+      let group = groups.get(key);
+      if (!group) {
+        const due = new Date(bill.dueDate);
+        group = { key, date: new Date(due.getFullYear(), due.getMonth(), 1), bills: [], total: 0, income: 0 };
+        groups.set(key, group);
+      }
+      group.bills.push(bill);
+      const amount = toBaseAmount(bill, bill.amount, baseCurrency, rates);
+      if (isIncome(bill)) group.income += amount;
+      else group.total += amount;
+    });
+  return [...groups.values()];
+};
@@ -0,0 +1,42 @@
+import { DEFAULT_HORIZON_MONTHS } from './recurrence';
+import { CalendarOptions, DEFAULT_CALENDAR_OPTIONS } from './ical';
+import { DEFAULT_REMINDER_SETTINGS, ReminderSettings } from './reminders';
+import { DEFAULT_CURRENCY, DEFAULT_EXCHANGE_RATES, ExchangeRateTable } from './currency';
+import { DEFAULT_FORECAST_SETTINGS, ForecastSettings } from './forecast';
+
+const SETTINGS_KEY = 'liquid_bills_settings';
+
+export interface AppSettings {
+  recurrenceHorizonMonths: number; // How far ahead recurring series are materialized
+  calendar: CalendarOptions; // .ics export and calendar feed
+  calendarFeedEnabled: boolean; // Republish the feed whenever bills change
+  reminders: ReminderSettings;
+  baseCurrency: string; // Totals and statistics are shown in this currency
+  exchangeRates: ExchangeRateTable;
+  forecast: ForecastSettings; // Cash-flow view window and starting balance
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  recurrenceHorizonMonths: DEFAULT_HORIZON_MONTHS,
+  calendar: DEFAULT_CALENDAR_OPTIONS,
+  calendarFeedEnabled: false,
+  reminders: DEFAULT_REMINDER_SETTINGS,
+  baseCurrency: DEFAULT_CURRENCY,
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  forecast: DEFAULT_FORECAST_SETTINGS,
+};
+
+export const loadSettings = (): AppSettings => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_SETTINGS;
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Settings parse error", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
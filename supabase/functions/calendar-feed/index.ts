@@ -0,0 +1,32 @@
+// Serves a user's calendar feed as text/calendar: GET /functions/v1/calendar-feed?token=...
+// Calendar apps can't sign in, so the function runs without JWT verification and the
+// secret token is the only credential. Run locally with `supabase functions serve calendar-feed --no-verify-jwt`.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) return new Response('Missing token', { status: 400 });
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('ics, updated_at')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) return new Response('Feed unavailable', { status: 500 });
+  if (!data) return new Response('Not found', { status: 404 });
+
+  return new Response(data.ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="rachunki.ics"',
+      'Last-Modified': new Date(data.updated_at).toUTCString(),
+      'Cache-Control': 'max-age=900'
+    }
+  });
+});
@@ -0,0 +1,26 @@
+-- Per-user bills: every row belongs to the account that created it.
+-- Existing rows (created with the shared anon key) have no owner and become invisible;
+-- assign them with: update bills set owner_id = '<user uuid>' where owner_id is null;
+
+alter table bills
+  add column if not exists owner_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+create index if not exists bills_owner_id_idx on bills (owner_id);
+
+alter table bills enable row level security;
+
+drop policy if exists "Bills are readable by their owner" on bills;
+create policy "Bills are readable by their owner" on bills
+  for select using (owner_id = auth.uid());
+
+drop policy if exists "Bills are insertable by their owner" on bills;
+create policy "Bills are insertable by their owner" on bills
+  for insert with check (owner_id = auth.uid());
+
+drop policy if exists "Bills are updatable by their owner" on bills;
+create policy "Bills are updatable by their owner" on bills
+  for update using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+drop policy if exists "Bills are deletable by their owner" on bills;
+create policy "Bills are deletable by their owner" on bills
+  for delete using (owner_id = auth.uid());
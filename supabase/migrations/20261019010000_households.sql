@@ -0,0 +1,147 @@
+-- Shared households: bills can belong to a household instead of a single owner.
+-- Roles: owner (manages members), editor (changes bills), viewer (read-only).
+
+create table if not exists households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid not null references auth.users (id) default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists household_members (
+  household_id uuid not null references households (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  primary key (household_id, user_id)
+);
+
+create table if not exists household_invitations (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references households (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('editor', 'viewer')),
+  invited_by uuid not null references auth.users (id) default auth.uid(),
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz
+);
+
+alter table bills
+  add column if not exists household_id uuid references households (id) on delete cascade,
+  add column if not exists paid_by uuid references auth.users (id) on delete set null;
+
+create index if not exists bills_household_id_idx on bills (household_id);
+
+-- Role of the current user in a household, null when not a member.
+-- Security definer so policies can use it without recursing into household_members policies.
+create or replace function household_role(hid uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select role from household_members where household_id = hid and user_id = auth.uid();
+$$;
+
+create or replace function create_household(household_name text) returns households
+language plpgsql security definer set search_path = public as $$
+declare
+  created households;
+begin
+  insert into households (name, created_by) values (household_name, auth.uid()) returning * into created;
+  insert into household_members (household_id, user_id, email, role)
+    values (created.id, auth.uid(), auth.email(), 'owner');
+  return created;
+end;
+$$;
+
+create or replace function accept_household_invitation(invitation_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  invitation household_invitations;
+begin
+  select * into invitation from household_invitations
+    where id = invitation_id and accepted_at is null and lower(email) = lower(auth.email());
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+
+  insert into household_members (household_id, user_id, email, role)
+    values (invitation.household_id, auth.uid(), auth.email(), invitation.role)
+    on conflict (household_id, user_id) do update set role = excluded.role;
+  update household_invitations set accepted_at = now() where id = invitation_id;
+end;
+$$;
+
+alter table households enable row level security;
+alter table household_members enable row level security;
+alter table household_invitations enable row level security;
+
+drop policy if exists "Households are readable by members and invitees" on households;
+create policy "Households are readable by members and invitees" on households
+  for select using (
+    household_role(id) is not null
+    or exists (
+      select 1 from household_invitations i
+      where i.household_id = households.id and lower(i.email) = lower(auth.email()) and i.accepted_at is null
+    )
+  );
+
+drop policy if exists "Households are renamable by owners" on households;
+create policy "Households are renamable by owners" on households
+  for update using (household_role(id) = 'owner');
+
+drop policy if exists "Households are deletable by owners" on households;
+create policy "Households are deletable by owners" on households
+  for delete using (household_role(id) = 'owner');
+
+drop policy if exists "Members are visible to members" on household_members;
+create policy "Members are visible to members" on household_members
+  for select using (household_role(household_id) is not null);
+
+drop policy if exists "Members are managed by owners" on household_members;
+create policy "Members are managed by owners" on household_members
+  for update using (household_role(household_id) = 'owner');
+
+drop policy if exists "Members are removable by owners or themselves" on household_members;
+create policy "Members are removable by owners or themselves" on household_members
+  for delete using (household_role(household_id) = 'owner' or user_id = auth.uid());
+
+drop policy if exists "Invitations are visible to owners and invitees" on household_invitations;
+create policy "Invitations are visible to owners and invitees" on household_invitations
+  for select using (household_role(household_id) = 'owner' or lower(email) = lower(auth.email()));
+
+drop policy if exists "Invitations are created by owners" on household_invitations;
+create policy "Invitations are created by owners" on household_invitations
+  for insert with check (household_role(household_id) = 'owner');
+
+drop policy if exists "Invitations are revocable by owners" on household_invitations;
+create policy "Invitations are revocable by owners" on household_invitations
+  for delete using (household_role(household_id) = 'owner');
+
+-- Bills: personal bills stay owner-only, household bills follow the member role
+
+drop policy if exists "Bills are readable by their owner" on bills;
+drop policy if exists "Bills are insertable by their owner" on bills;
+drop policy if exists "Bills are updatable by their owner" on bills;
+drop policy if exists "Bills are deletable by their owner" on bills;
+
+create policy "Bills are readable by their owner or household" on bills
+  for select using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) is not null
+  );
+
+create policy "Bills are insertable by their owner or household editors" on bills
+  for insert with check (
+    owner_id = auth.uid()
+    and (household_id is null or household_role(household_id) in ('owner', 'editor'))
+  );
+
+create policy "Bills are updatable by their owner or household editors" on bills
+  for update using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) in ('owner', 'editor')
+  );
+
+create policy "Bills are deletable by their owner or household editors" on bills
+  for delete using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) in ('owner', 'editor')
+  );
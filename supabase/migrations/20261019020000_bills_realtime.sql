@@ -0,0 +1,18 @@
+-- Live updates: publish bill changes over Supabase Realtime.
+
+-- Device that wrote the row last, lets clients skip echoes of their own writes
+alter table bills add column if not exists origin_device text;
+
+-- Send the full old row with DELETE events
+alter table bills replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'bills'
+  ) then
+    alter publication supabase_realtime add table bills;
+  end if;
+end;
+$$;
@@ -0,0 +1,47 @@
+-- Recurring series stored as a rule; occurrences stay regular rows in `bills` sharing series_id.
+-- The app keeps every active series materialized up to a rolling horizon.
+
+create table if not exists bill_series (
+  id uuid primary key,
+  name text not null,
+  amount numeric not null,
+  category text not null,
+  frequency integer not null,
+  anchor_date timestamptz not null,
+  is_active boolean not null default true,
+  owner_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  household_id uuid references households (id) on delete cascade
+);
+
+create index if not exists bill_series_owner_id_idx on bill_series (owner_id);
+create index if not exists bill_series_household_id_idx on bill_series (household_id);
+
+alter table bill_series enable row level security;
+
+drop policy if exists "Series are readable by their owner or household" on bill_series;
+create policy "Series are readable by their owner or household" on bill_series
+  for select using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) is not null
+  );
+
+drop policy if exists "Series are insertable by their owner or household editors" on bill_series;
+create policy "Series are insertable by their owner or household editors" on bill_series
+  for insert with check (
+    owner_id = auth.uid()
+    and (household_id is null or household_role(household_id) in ('owner', 'editor'))
+  );
+
+drop policy if exists "Series are updatable by their owner or household editors" on bill_series;
+create policy "Series are updatable by their owner or household editors" on bill_series
+  for update using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) in ('owner', 'editor')
+  );
+
+drop policy if exists "Series are deletable by their owner or household editors" on bill_series;
+create policy "Series are deletable by their owner or household editors" on bill_series
+  for delete using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) in ('owner', 'editor')
+  );
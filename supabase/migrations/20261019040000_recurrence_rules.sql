@@ -0,0 +1,7 @@
+-- Richer recurrence rules (weekly, month end, n-th weekday, business-day shift) stored as jsonb.
+-- `frequency` stays for plain month intervals so older app versions keep reading them.
+
+alter table bills add column if not exists recurrence jsonb;
+
+alter table bill_series add column if not exists recurrence jsonb;
+alter table bill_series alter column frequency drop not null;
@@ -0,0 +1,8 @@
+-- Finite series: installment plans end after a number of installments or on a date.
+
+alter table bills add column if not exists installment integer;
+alter table bills add column if not exists installment_count integer;
+
+alter table bill_series add column if not exists end_date timestamptz;
+alter table bill_series add column if not exists installment_count integer;
+alter table bill_series add column if not exists first_installment integer;
@@ -0,0 +1,4 @@
+-- Payment history per bill (amount, date, method, reference). `is_paid` stays as the derived
+-- "fully covered" flag so existing queries and older app versions keep working.
+
+alter table bills add column if not exists payments jsonb;
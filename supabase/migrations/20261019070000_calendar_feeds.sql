@@ -0,0 +1,17 @@
+-- Subscribable calendar feed: one secret token per user, served by the calendar-feed edge function.
+-- The app renders the calendar and stores it here whenever bills change.
+
+create extension if not exists pgcrypto;
+
+create table if not exists calendar_feeds (
+  owner_id uuid primary key references auth.users (id) on delete cascade default auth.uid(),
+  token text not null unique default encode(gen_random_bytes(24), 'hex'),
+  ics text not null default '',
+  updated_at timestamptz not null default now()
+);
+
+alter table calendar_feeds enable row level security;
+
+drop policy if exists "Calendar feeds are managed by their owner" on calendar_feeds;
+create policy "Calendar feeds are managed by their owner" on calendar_feeds
+  for all using (owner_id = auth.uid()) with check (owner_id = auth.uid());
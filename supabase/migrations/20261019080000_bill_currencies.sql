@@ -0,0 +1,4 @@
+-- Currency of each bill and series (ISO 4217 code). Rows without one are in PLN.
+
+alter table bills add column if not exists currency text;
+alter table bill_series add column if not exists currency text;
@@ -0,0 +1,24 @@
+-- Categories are stored as stable keys, their labels come from the app's translations.
+-- Rows written before that hold the Polish labels.
+
+update bills set category = case category
+  when 'Dom' then 'house'
+  when 'Media' then 'media'
+  when 'Ubezpieczenia' then 'insurance'
+  when 'Subskrypcje' then 'subscription'
+  when 'Kredyt' then 'credit'
+  when 'Inne' then 'other'
+  else category
+end
+where category in ('Dom', 'Media', 'Ubezpieczenia', 'Subskrypcje', 'Kredyt', 'Inne');
+
+update bill_series set category = case category
+  when 'Dom' then 'house'
+  when 'Media' then 'media'
+  when 'Ubezpieczenia' then 'insurance'
+  when 'Subskrypcje' then 'subscription'
+  when 'Kredyt' then 'credit'
+  when 'Inne' then 'other'
+  else category
+end
+where category in ('Dom', 'Media', 'Ubezpieczenia', 'Subskrypcje', 'Kredyt', 'Inne');
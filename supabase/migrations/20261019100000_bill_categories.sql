@@ -0,0 +1,66 @@
+-- User-defined categories. Bills keep referring to them by id in `category`;
+-- the former fixed categories become regular rows with their old keys as ids.
+
+create table if not exists bill_categories (
+  id text not null,
+  name text, -- Null for default categories that were never renamed, the app shows a translated label
+  icon text not null,
+  color text not null,
+  owner_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  household_id uuid references households (id) on delete cascade,
+  -- Default ids repeat in every scope, so ids are unique per household or personal scope only
+  scope text generated always as (coalesce(household_id::text, owner_id::text)) stored,
+  primary key (scope, id)
+);
+
+create index if not exists bill_categories_owner_id_idx on bill_categories (owner_id);
+create index if not exists bill_categories_household_id_idx on bill_categories (household_id);
+
+alter table bill_categories enable row level security;
+
+drop policy if exists "Categories are readable by their owner or household" on bill_categories;
+create policy "Categories are readable by their owner or household" on bill_categories
+  for select using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) is not null
+  );
+
+drop policy if exists "Categories are insertable by their owner or household editors" on bill_categories;
+create policy "Categories are insertable by their owner or household editors" on bill_categories
+  for insert with check (
+    owner_id = auth.uid()
+    and (household_id is null or household_role(household_id) in ('owner', 'editor'))
+  );
+
+drop policy if exists "Categories are updatable by their owner or household editors" on bill_categories;
+create policy "Categories are updatable by their owner or household editors" on bill_categories
+  for update using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) in ('owner', 'editor')
+  );
+
+drop policy if exists "Categories are deletable by their owner or household editors" on bill_categories;
+create policy "Categories are deletable by their owner or household editors" on bill_categories
+  for delete using (
+    (household_id is null and owner_id = auth.uid())
+    or household_role(household_id) in ('owner', 'editor')
+  );
+
+-- Seed the default categories for every scope that already has bills
+with defaults (id, icon, color) as (
+  values
+    ('house', '🏠', '#60a5fa'),
+    ('media', '⚡', '#facc15'),
+    ('insurance', '🛡️', '#34d399'),
+    ('subscription', '🎬', '#f472b6'),
+    ('credit', '🏦', '#fb923c'),
+    ('other', '📦', '#a78bfa')
+),
+scopes as (
+  select distinct on (coalesce(household_id::text, owner_id::text)) owner_id, household_id
+  from bills
+)
+insert into bill_categories (id, icon, color, owner_id, household_id)
+select defaults.id, defaults.icon, defaults.color, scopes.owner_id, scopes.household_id
+from scopes cross join defaults
+on conflict do nothing;
@@ -0,0 +1,9 @@
+-- Optional spending limit per category, for each month or year. All three columns are set together.
+
+alter table bill_categories add column if not exists budget_amount numeric;
+alter table bill_categories add column if not exists budget_currency text;
+alter table bill_categories add column if not exists budget_period text;
+
+alter table bill_categories drop constraint if exists bill_categories_budget_period_check;
+alter table bill_categories add constraint bill_categories_budget_period_check
+  check (budget_period is null or budget_period in ('month', 'year'));
@@ -0,0 +1,4 @@
+-- Income entries (salary, benefits, rent received) live next to bills and reuse their series
+
+alter table bills add column if not exists is_income boolean not null default false;
+alter table bill_series add column if not exists is_income boolean not null default false;
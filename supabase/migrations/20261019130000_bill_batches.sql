@@ -0,0 +1,44 @@
+-- Bulk actions from the month list arrive as one call and succeed or fail as a whole.
+-- Security invoker, so the bills policies apply to every row just like single updates.
+-- `updates` is an array of { id, changes } where changes uses the column names of `bills`.
+
+create or replace function apply_bill_batch(updates jsonb, delete_ids text[]) returns void
+language plpgsql security invoker set search_path = public as $$
+declare
+  item jsonb;
+  patched bills;
+begin
+  for item in select * from jsonb_array_elements(updates) loop
+    select * into patched from bills where id::text = item->>'id' for update;
+    if not found then
+      raise exception 'Bill % not found', item->>'id';
+    end if;
+
+    -- Columns missing from `changes` keep their current value
+    patched := jsonb_populate_record(patched, item->'changes');
+    update bills set
+      name = patched.name,
+      amount = patched.amount,
+      currency = patched.currency,
+      due_date = patched.due_date,
+      is_paid = patched.is_paid,
+      is_recurring = patched.is_recurring,
+      frequency = patched.frequency,
+      recurrence = patched.recurrence,
+      category = patched.category,
+      series_id = patched.series_id,
+      installment = patched.installment,
+      installment_count = patched.installment_count,
+      paid_by = patched.paid_by,
+      payments = patched.payments,
+      is_income = patched.is_income,
+      origin_device = patched.origin_device
+    where id = patched.id;
+    if not found then
+      raise exception 'Bill % is not editable', item->>'id';
+    end if;
+  end loop;
+
+  delete from bills where id::text = any(delete_ids);
+end;
+$$;
@@ -0,0 +1,33 @@
+-- Invoices and receipts attached to bills. Files live in a private storage bucket,
+-- the bill row keeps their metadata (name, type, size, path in the bucket).
+
+alter table bills add column if not exists attachments jsonb;
+
+insert into storage.buckets (id, name, public)
+values ('bill-attachments', 'bill-attachments', false)
+on conflict (id) do nothing;
+
+-- The first folder of a path is the scope of the bill: the owner's user id for personal bills,
+-- the household id for shared ones. Access follows the bills policies of that scope.
+create or replace function can_access_attachment(path text, editing boolean) returns boolean
+language sql stable security definer set search_path = public as $$
+  select (storage.foldername(path))[1] = auth.uid()::text
+    or exists (
+      select 1 from household_members
+      where household_id::text = (storage.foldername(path))[1]
+        and user_id = auth.uid()
+        and (not editing or role in ('owner', 'editor'))
+    );
+$$;
+
+drop policy if exists "Bill attachments are readable within their scope" on storage.objects;
+create policy "Bill attachments are readable within their scope" on storage.objects
+  for select using (bucket_id = 'bill-attachments' and can_access_attachment(name, false));
+
+drop policy if exists "Bill attachments are uploadable by editors" on storage.objects;
+create policy "Bill attachments are uploadable by editors" on storage.objects
+  for insert with check (bucket_id = 'bill-attachments' and can_access_attachment(name, true));
+
+drop policy if exists "Bill attachments are deletable by editors" on storage.objects;
+create policy "Bill attachments are deletable by editors" on storage.objects
+  for delete using (bucket_id = 'bill-attachments' and can_access_attachment(name, true));
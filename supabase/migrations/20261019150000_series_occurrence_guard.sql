@@ -0,0 +1,43 @@
+-- Two devices (or household members) extending the same series at once must not both store an occurrence.
+-- Generated occurrences remember the slot they were made for in `occurrence_date`, which stays put when the
+-- bill is moved, so only the generation is guarded: moving a bill (or shifting a batch of them) onto the
+-- date of another occurrence is still allowed. Bills added by hand have no slot and aren't affected.
+
+-- Duplicates from before: fold payments and attachments into one bill (the paid one, otherwise any)
+-- and drop the rest. The attachment files stay referenced by the bill that is kept.
+create temporary table series_duplicates as
+select id, first_value(id) over (partition by series_id, due_date order by is_paid desc, id) as keep_id
+from bills
+where series_id is not null;
+
+delete from series_duplicates
+where keep_id in (select keep_id from series_duplicates group by keep_id having count(*) = 1);
+
+update bills kept set
+  payments = coalesce((
+    select jsonb_agg(distinct payment)
+    from series_duplicates d
+    join bills b on b.id = d.id
+    cross join jsonb_array_elements(coalesce(b.payments, '[]'::jsonb)) payment
+    where d.keep_id = kept.id
+  ), kept.payments),
+  attachments = coalesce((
+    select jsonb_agg(distinct attachment)
+    from series_duplicates d
+    join bills b on b.id = d.id
+    cross join jsonb_array_elements(coalesce(b.attachments, '[]'::jsonb)) attachment
+    where d.keep_id = kept.id
+  ), kept.attachments)
+where kept.id in (select keep_id from series_duplicates);
+
+delete from bills where id in (select id from series_duplicates where id <> keep_id);
+
+drop table series_duplicates;
+
+alter table bills add column if not exists occurrence_date timestamptz;
+
+alter table bills drop constraint if exists bills_series_occurrence_key;
+alter table bills add constraint bills_series_occurrence_key unique (series_id, occurrence_date);
+
+-- How far a series has been generated, so occurrences deleted before that point aren't generated again
+alter table bill_series add column if not exists materialized_until timestamptz;
@@ -0,0 +1,13 @@
+import { Bill } from './types';
+
+// Minimal unpaid bill for tests; override whatever the test is about
+export const makeBill = (id: string, overrides: Partial<Bill> = {}): Bill => ({
+  id,
+  name: `Bill ${id}`,
+  amount: 100,
+  dueDate: '2026-10-20T00:00:00.000Z',
+  isPaid: false,
+  isRecurring: false,
+  category: 'other',
+  ...overrides
+});
@@ -1,15 +1,87 @@
-
+import type { MessageKey } from './i18n';
 
 export interface Bill {
   id: string;
   name: string;
   amount: number;
+  currency?: string; // ISO 4217 code, bills without one are in PLN
   dueDate: string; // ISO String for easier storage
-  isPaid: boolean;
+  isPaid: boolean; // Derived from `payments` when present, kept for quick filtering and older rows
   isRecurring: boolean;
-  frequency?: BillFrequency; // New field for recurrence type
-  category: BillCategory;
+  frequency?: BillFrequency; // Legacy month interval, kept in sync with `recurrence` where it fits
+  recurrence?: RecurrenceRule; // Full recurrence rule, takes precedence over `frequency`
+  category: string; // Category id
   seriesId?: string; // Optional ID linking recurring bills together
+  occurrenceDate?: string; // Slot a generated occurrence was made for, stays put when the bill is moved
+  installment?: number; // Position within an installment plan, 1-based
+  installmentCount?: number; // Total installments of the plan, set together with `installment`
+  householdId?: string; // Set when the bill is shared within a household
+  paidBy?: string; // User ID of whoever marked the bill as paid
+  payments?: Payment[]; // Missing on bills from before payment records, `isPaid` alone counts then
+  isIncome?: boolean; // Money coming in (salary, benefits, rent received); `isPaid` then means received
+  attachments?: Attachment[]; // Invoices, receipts, transfer confirmations
+}
+
+export enum PaymentMethod {
+  TRANSFER = 'transfer',
+  CARD = 'card',
+  BLIK = 'blik',
+  DIRECT_DEBIT = 'directDebit',
+  CASH = 'cash',
+  OTHER = 'other'
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, MessageKey> = {
+  [PaymentMethod.TRANSFER]: 'paymentMethod.transfer',
+  [PaymentMethod.CARD]: 'paymentMethod.card',
+  [PaymentMethod.BLIK]: 'paymentMethod.blik',
+  [PaymentMethod.DIRECT_DEBIT]: 'paymentMethod.directDebit',
+  [PaymentMethod.CASH]: 'paymentMethod.cash',
+  [PaymentMethod.OTHER]: 'paymentMethod.other',
+};
+
+export interface Payment {
+  id: string;
+  amount: number;
+  paidAt: string; // ISO String
+  method: PaymentMethod;
+  reference?: string; // e.g. transfer title or receipt number
+  paidBy?: string; // User ID, set in shared households
+}
+
+// File attached to a bill. Only the metadata is stored with the bill, the content lives in an attachment store.
+export interface Attachment {
+  id: string;
+  name: string; // Original file name
+  mimeType: string;
+  size: number; // Bytes
+  path: string; // Location in the attachment store
+  createdAt: string; // ISO String
+}
+
+// Rule describing a recurring series. Occurrences are materialized as regular bills sharing `seriesId`.
+export interface BillSeries {
+  id: string; // Same value as `seriesId` on its bills
+  name: string;
+  amount: number;
+  currency?: string;
+  category: string;
+  frequency?: BillFrequency;
+  recurrence: RecurrenceRule;
+  anchorDate: string; // ISO date of the occurrence the schedule is counted from
+  isActive: boolean; // Ended series are kept for history but no longer extended
+  endDate?: string; // ISO date, no occurrences are generated after it
+  installmentCount?: number; // Total installments for loans and leasing
+  firstInstallment?: number; // Installment number of the occurrence at `anchorDate`, defaults to 1
+  householdId?: string;
+  isIncome?: boolean;
+  materializedUntil?: string; // Due date of the last generated occurrence, bills deleted up to it aren't generated again
+}
+
+// How a new or re-anchored series ends; both limits may be set, whichever comes first wins
+export interface SeriesEnd {
+  endDate?: string;
+  installmentCount?: number;
 }
 
 export enum BillFrequency {
@@ -19,26 +91,96 @@ export enum BillFrequency {
   ANNUAL = 12
 }
 
-export enum BillCategory {
-  HOUSE = 'Dom',
-  MEDIA = 'Media',
-  INSURANCE = 'Ubezpieczenia',
-  SUBSCRIPTION = 'Subskrypcje',
-  CREDIT = 'Kredyt',
-  OTHER = 'Inne'
+export enum RecurrenceKind {
+  WEEKLY = 'weekly', // Every `interval` weeks (2 = biweekly)
+  MONTHLY = 'monthly', // Every `interval` months on the anchor's day, clamped to the end of shorter months
+  LAST_DAY_OF_MONTH = 'lastDayOfMonth',
+  NTH_WEEKDAY = 'nthWeekday' // e.g. the second Tuesday, or the last Friday of the month
+}
+
+export interface RecurrenceRule {
+  kind: RecurrenceKind;
+  interval: number; // In weeks for WEEKLY, in months otherwise
+  weekOfMonth?: number; // NTH_WEEKDAY only: 1-4, or -1 for the last one
+  weekday?: number; // NTH_WEEKDAY only: 0 = Sunday ... 6 = Saturday
+  shiftToBusinessDay?: boolean; // Move weekends and Polish public holidays to the next business day
+}
+
+// Ids of the categories every user starts with, also what bills stored before custom categories refer to
+export enum DefaultCategory {
+  HOUSE = 'house',
+  MEDIA = 'media',
+  INSURANCE = 'insurance',
+  SUBSCRIPTION = 'subscription',
+  CREDIT = 'credit',
+  OTHER = 'other'
 }
 
-export const CATEGORY_ICONS: Record<BillCategory, string> = {
-  [BillCategory.HOUSE]: '🏠',
-  [BillCategory.MEDIA]: '⚡',
-  [BillCategory.INSURANCE]: '🛡️',
-  [BillCategory.SUBSCRIPTION]: '🎬',
-  [BillCategory.CREDIT]: '🏦',
-  [BillCategory.OTHER]: '📦',
+export const DEFAULT_CATEGORY_LABELS: Record<DefaultCategory, MessageKey> = {
+  [DefaultCategory.HOUSE]: 'category.house',
+  [DefaultCategory.MEDIA]: 'category.media',
+  [DefaultCategory.INSURANCE]: 'category.insurance',
+  [DefaultCategory.SUBSCRIPTION]: 'category.subscription',
+  [DefaultCategory.CREDIT]: 'category.credit',
+  [DefaultCategory.OTHER]: 'category.other',
 };
 
+// User-defined category. Seeded ones keep their DefaultCategory id and show a translated name until renamed.
+export interface Category {
+  id: string;
+  name?: string;
+  icon: string; // Emoji
+  color: string; // Hex color, e.g. #60a5fa
+  budget?: CategoryBudget;
+  householdId?: string;
+}
+
+export type BudgetPeriod = 'month' | 'year';
+
+// Spending limit of a category, compared with the bills due in each month or year
+export interface CategoryBudget {
+  amount: number;
+  currency: string; // Base currency at the time the budget was set
+  period: BudgetPeriod;
+}
+
 export interface MonthlyStats {
   total: number;
   paid: number;
   pending: number;
-}
\ No newline at end of file
+  income: number; // Expected for the month, received or not
+  incomeReceived: number;
+}
+
+export enum HouseholdRole {
+  OWNER = 'owner',
+  EDITOR = 'editor',
+  VIEWER = 'viewer'
+}
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, MessageKey> = {
+  [HouseholdRole.OWNER]: 'role.owner',
+  [HouseholdRole.EDITOR]: 'role.editor',
+  [HouseholdRole.VIEWER]: 'role.viewer',
+};
+
+export interface Household {
+  id: string;
+  name: string;
+  role: HouseholdRole; // Role of the signed-in user in this household
+}
+
+export interface HouseholdMember {
+  userId: string;
+  email: string;
+  role: HouseholdRole;
+}
+
+export interface HouseholdInvitation {
+  id: string;
+  householdId: string;
+  householdName?: string;
+  email: string;
+  role: HouseholdRole;
+  createdAt: string;
+}
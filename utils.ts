@@ -1,21 +1,30 @@
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('pl-PL', {
+import { getIntlLocale } from './i18n';
+
+export const formatCurrency = (amount: number, currency: string = 'PLN'): string => {
+  return new Intl.NumberFormat(getIntlLocale(), {
     style: 'currency',
-    currency: 'PLN',
+    currency,
     minimumFractionDigits: 2,
   }).format(amount);
 };
 
 export const formatDate = (dateString: string): string => {
   const date = new Date(dateString);
-  return new Intl.DateTimeFormat('pl-PL', {
+  return new Intl.DateTimeFormat(getIntlLocale(), {
     day: 'numeric',
     month: 'long',
   }).format(date);
 };
 
+// yyyy-mm-dd of the date on this device, the same day the app shows
+export const toDayString = (dateString: string): string => {
+  const date = new Date(dateString);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
 export const getMonthYearLabel = (date: Date): string => {
-  return new Intl.DateTimeFormat('pl-PL', {
+  return new Intl.DateTimeFormat(getIntlLocale(), {
     month: 'long',
     year: 'numeric',
   }).format(date);
@@ -23,4 +32,16 @@ export const getMonthYearLabel = (date: Date): string => {
 
 export const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9);
-};
\ No newline at end of file
+};
+
+// Saves generated content as a file through a temporary download link
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
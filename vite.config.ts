@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -8,4 +9,8 @@ export default defineConfig({
   // './' jest potrzebne tylko dla Capacitor/Cordova (budowanie .ipa).
   // Jeśli chcesz PWA, musi być '/'
   base: '/',
+  // Modules read localStorage and the DOM on import, so tests run in jsdom
+  test: {
+    environment: 'jsdom',
+  },
 });
\ No newline at end of file